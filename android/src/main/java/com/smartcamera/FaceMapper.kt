@@ -0,0 +1,173 @@
+package com.smartcamera
+
+import com.google.mlkit.vision.face.Face
+import com.google.mlkit.vision.face.FaceContour
+import com.google.mlkit.vision.face.FaceLandmark
+
+/**
+ * Converts ML Kit faces to the maps returned to JS
+ * (shared by the frame processor plugin and the static image module)
+ */
+internal object FaceMapper {
+    
+    /**
+     * Convert an ML Kit face to the map returned to JS
+     * (also used by the static image module with autoMode and the image size)
+     */
+    fun faceToMap(
+        face: Face, 
+        frameWidth: Int, 
+        frameHeight: Int,
+        autoMode: Boolean,
+        windowWidth: Float,
+        windowHeight: Float,
+        cameraFacing: String
+    ): Map<String, Any> {
+        val result = mutableMapOf<String, Any>()
+        
+        // Calculate scale factors for autoMode
+        val scaleX = if (autoMode) windowWidth / frameWidth else 1.0f / frameWidth
+        val scaleY = if (autoMode) windowHeight / frameHeight else 1.0f / frameHeight
+        val mirrorX = autoMode && cameraFacing == "front"
+        
+        // Bounding box
+        val bounds = face.boundingBox
+        val x = if (mirrorX) {
+            windowWidth - (bounds.right * scaleX)
+        } else {
+            bounds.left * scaleX
+        }
+        
+        result["bounds"] = mapOf(
+            "x" to x.toDouble(),
+            "y" to (bounds.top * scaleY).toDouble(),
+            "width" to (bounds.width() * scaleX).toDouble(),
+            "height" to (bounds.height() * scaleY).toDouble()
+        )
+        
+        // Roll, pitch, yaw angles
+        result["rollAngle"] = face.headEulerAngleZ.toDouble()
+        result["pitchAngle"] = face.headEulerAngleX.toDouble()
+        result["yawAngle"] = face.headEulerAngleY.toDouble()
+        
+        // Classification probabilities
+        face.smilingProbability?.let { result["smilingProbability"] = it.toDouble() }
+        face.leftEyeOpenProbability?.let { result["leftEyeOpenProbability"] = it.toDouble() }
+        face.rightEyeOpenProbability?.let { result["rightEyeOpenProbability"] = it.toDouble() }
+        
+        // Tracking ID
+        face.trackingId?.let { result["trackingId"] = it }
+        
+        // Landmarks
+        val landmarks = mutableMapOf<String, Any>()
+        
+        face.getLandmark(FaceLandmark.LEFT_EYE)?.let {
+            landmarks["leftEye"] = pointToMap(it.position.x, it.position.y, scaleX, scaleY, mirrorX, windowWidth)
+        }
+        face.getLandmark(FaceLandmark.RIGHT_EYE)?.let {
+            landmarks["rightEye"] = pointToMap(it.position.x, it.position.y, scaleX, scaleY, mirrorX, windowWidth)
+        }
+        face.getLandmark(FaceLandmark.NOSE_BASE)?.let {
+            landmarks["noseBase"] = pointToMap(it.position.x, it.position.y, scaleX, scaleY, mirrorX, windowWidth)
+        }
+        face.getLandmark(FaceLandmark.LEFT_CHEEK)?.let {
+            landmarks["leftCheek"] = pointToMap(it.position.x, it.position.y, scaleX, scaleY, mirrorX, windowWidth)
+        }
+        face.getLandmark(FaceLandmark.RIGHT_CHEEK)?.let {
+            landmarks["rightCheek"] = pointToMap(it.position.x, it.position.y, scaleX, scaleY, mirrorX, windowWidth)
+        }
+        face.getLandmark(FaceLandmark.MOUTH_LEFT)?.let {
+            landmarks["mouthLeft"] = pointToMap(it.position.x, it.position.y, scaleX, scaleY, mirrorX, windowWidth)
+        }
+        face.getLandmark(FaceLandmark.MOUTH_RIGHT)?.let {
+            landmarks["mouthRight"] = pointToMap(it.position.x, it.position.y, scaleX, scaleY, mirrorX, windowWidth)
+        }
+        face.getLandmark(FaceLandmark.MOUTH_BOTTOM)?.let {
+            landmarks["mouthBottom"] = pointToMap(it.position.x, it.position.y, scaleX, scaleY, mirrorX, windowWidth)
+        }
+        face.getLandmark(FaceLandmark.LEFT_EAR)?.let {
+            landmarks["leftEar"] = pointToMap(it.position.x, it.position.y, scaleX, scaleY, mirrorX, windowWidth)
+        }
+        face.getLandmark(FaceLandmark.RIGHT_EAR)?.let {
+            landmarks["rightEar"] = pointToMap(it.position.x, it.position.y, scaleX, scaleY, mirrorX, windowWidth)
+        }
+        
+        if (landmarks.isNotEmpty()) {
+            result["landmarks"] = landmarks
+        }
+        
+        // All contours (like reference package)
+        val contours = mutableMapOf<String, Any>()
+        
+        face.getContour(FaceContour.FACE)?.let { contour ->
+            contours["face"] = contour.points.map { p -> pointToMap(p.x, p.y, scaleX, scaleY, mirrorX, windowWidth) }
+        }
+        face.getContour(FaceContour.LEFT_EYEBROW_TOP)?.let { contour ->
+            contours["leftEyebrowTop"] = contour.points.map { p -> pointToMap(p.x, p.y, scaleX, scaleY, mirrorX, windowWidth) }
+        }
+        face.getContour(FaceContour.LEFT_EYEBROW_BOTTOM)?.let { contour ->
+            contours["leftEyebrowBottom"] = contour.points.map { p -> pointToMap(p.x, p.y, scaleX, scaleY, mirrorX, windowWidth) }
+        }
+        face.getContour(FaceContour.RIGHT_EYEBROW_TOP)?.let { contour ->
+            contours["rightEyebrowTop"] = contour.points.map { p -> pointToMap(p.x, p.y, scaleX, scaleY, mirrorX, windowWidth) }
+        }
+        face.getContour(FaceContour.RIGHT_EYEBROW_BOTTOM)?.let { contour ->
+            contours["rightEyebrowBottom"] = contour.points.map { p -> pointToMap(p.x, p.y, scaleX, scaleY, mirrorX, windowWidth) }
+        }
+        face.getContour(FaceContour.LEFT_EYE)?.let { contour ->
+            contours["leftEye"] = contour.points.map { p -> pointToMap(p.x, p.y, scaleX, scaleY, mirrorX, windowWidth) }
+        }
+        face.getContour(FaceContour.RIGHT_EYE)?.let { contour ->
+            contours["rightEye"] = contour.points.map { p -> pointToMap(p.x, p.y, scaleX, scaleY, mirrorX, windowWidth) }
+        }
+        face.getContour(FaceContour.UPPER_LIP_TOP)?.let { contour ->
+            contours["upperLipTop"] = contour.points.map { p -> pointToMap(p.x, p.y, scaleX, scaleY, mirrorX, windowWidth) }
+        }
+        face.getContour(FaceContour.UPPER_LIP_BOTTOM)?.let { contour ->
+            contours["upperLipBottom"] = contour.points.map { p -> pointToMap(p.x, p.y, scaleX, scaleY, mirrorX, windowWidth) }
+        }
+        face.getContour(FaceContour.LOWER_LIP_TOP)?.let { contour ->
+            contours["lowerLipTop"] = contour.points.map { p -> pointToMap(p.x, p.y, scaleX, scaleY, mirrorX, windowWidth) }
+        }
+        face.getContour(FaceContour.LOWER_LIP_BOTTOM)?.let { contour ->
+            contours["lowerLipBottom"] = contour.points.map { p -> pointToMap(p.x, p.y, scaleX, scaleY, mirrorX, windowWidth) }
+        }
+        face.getContour(FaceContour.NOSE_BRIDGE)?.let { contour ->
+            contours["noseBridge"] = contour.points.map { p -> pointToMap(p.x, p.y, scaleX, scaleY, mirrorX, windowWidth) }
+        }
+        face.getContour(FaceContour.NOSE_BOTTOM)?.let { contour ->
+            contours["noseBottom"] = contour.points.map { p -> pointToMap(p.x, p.y, scaleX, scaleY, mirrorX, windowWidth) }
+        }
+        face.getContour(FaceContour.LEFT_CHEEK)?.let { contour ->
+            contours["leftCheek"] = contour.points.map { p -> pointToMap(p.x, p.y, scaleX, scaleY, mirrorX, windowWidth) }
+        }
+        face.getContour(FaceContour.RIGHT_CHEEK)?.let { contour ->
+            contours["rightCheek"] = contour.points.map { p -> pointToMap(p.x, p.y, scaleX, scaleY, mirrorX, windowWidth) }
+        }
+        
+        if (contours.isNotEmpty()) {
+            result["contours"] = contours
+        }
+        
+        return result
+    }
+    
+    private fun pointToMap(
+        x: Float, 
+        y: Float, 
+        scaleX: Float, 
+        scaleY: Float,
+        mirrorX: Boolean,
+        windowWidth: Float
+    ): Map<String, Double> {
+        val scaledX = if (mirrorX) {
+            windowWidth - (x * scaleX)
+        } else {
+            x * scaleX
+        }
+        return mapOf(
+            "x" to scaledX.toDouble(),
+            "y" to (y * scaleY).toDouble()
+        )
+    }
+}
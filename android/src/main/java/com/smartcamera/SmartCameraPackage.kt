@@ -18,7 +18,7 @@ class SmartCameraPackage : ReactPackage {
     }
     
     override fun createNativeModules(reactContext: ReactApplicationContext): List<NativeModule> {
-        return emptyList()
+        return listOf(StaticFaceDetectorModule(reactContext))
     }
 
     override fun createViewManagers(reactContext: ReactApplicationContext): List<ViewManager<*, *>> {
@@ -0,0 +1,147 @@
+package com.smartcamera
+
+import android.graphics.BitmapFactory
+import android.net.Uri
+import android.util.Log
+import androidx.exifinterface.media.ExifInterface
+import com.facebook.react.bridge.Arguments
+import com.facebook.react.bridge.Promise
+import com.facebook.react.bridge.ReactApplicationContext
+import com.facebook.react.bridge.ReactContextBaseJavaModule
+import com.facebook.react.bridge.ReactMethod
+import com.facebook.react.bridge.ReadableMap
+import com.google.android.gms.tasks.Tasks
+import com.google.mlkit.vision.common.InputImage
+import com.google.mlkit.vision.face.FaceDetection
+import com.google.mlkit.vision.face.FaceDetector
+import com.google.mlkit.vision.face.FaceDetectorOptions
+import java.io.ByteArrayInputStream
+import java.io.InputStream
+import java.net.URL
+import java.util.concurrent.Executors
+
+/**
+ * Native module detecting faces in still images with ML Kit
+ *
+ * Images are decoded without applying EXIF orientation, so results are in the
+ * coordinates of the stored pixels (width/height and the EXIF orientation are
+ * returned alongside).
+ */
+class StaticFaceDetectorModule(reactContext: ReactApplicationContext) : ReactContextBaseJavaModule(reactContext) {
+    
+    companion object {
+        const val NAME = "SmartCameraStaticFaceDetector"
+        private const val TAG = "StaticFaceDetector"
+    }
+    
+    private val executor = Executors.newSingleThreadExecutor()
+    
+    override fun getName(): String = NAME
+    
+    @ReactMethod
+    fun detectFaces(uri: String, options: ReadableMap, promise: Promise) {
+        executor.execute {
+            var detector: FaceDetector? = null
+            try {
+                val bytes = loadBytes(uri)
+                val bitmap = bytes?.let { BitmapFactory.decodeByteArray(it, 0, it.size) }
+                if (bytes == null || bitmap == null) {
+                    promise.reject("IMAGE_LOAD_FAILED", "Could not load image: $uri")
+                    return@execute
+                }
+                
+                detector = FaceDetection.getClient(buildDetectorOptions(options))
+                val faces = Tasks.await(detector.process(InputImage.fromBitmap(bitmap, 0)))
+                
+                // autoMode with the image size yields pixel coordinates
+                val result = mutableMapOf<String, Any>(
+                    "width" to bitmap.width,
+                    "height" to bitmap.height,
+                    "faces" to faces.map { face ->
+                        FaceMapper.faceToMap(
+                            face,
+                            bitmap.width,
+                            bitmap.height,
+                            true,
+                            bitmap.width.toFloat(),
+                            bitmap.height.toFloat(),
+                            "back"
+                        )
+                    }
+                )
+                readOrientation(bytes)?.let { result["orientation"] = it }
+                promise.resolve(Arguments.makeNativeMap(result))
+            } catch (e: Exception) {
+                Log.e(TAG, "Face detection error: ${e.message}")
+                promise.reject("ML_KIT_ERROR", "Face detection failed: ${e.message}", e)
+            } finally {
+                detector?.close()
+            }
+        }
+    }
+    
+    private fun buildDetectorOptions(options: ReadableMap): FaceDetectorOptions {
+        val optionsBuilder = FaceDetectorOptions.Builder()
+        
+        optionsBuilder.setPerformanceMode(
+            if (options.getStringOrNull("performanceMode") == "fast") FaceDetectorOptions.PERFORMANCE_MODE_FAST
+            else FaceDetectorOptions.PERFORMANCE_MODE_ACCURATE
+        )
+        optionsBuilder.setLandmarkMode(
+            if (options.getStringOrNull("landmarkMode") == "all") FaceDetectorOptions.LANDMARK_MODE_ALL
+            else FaceDetectorOptions.LANDMARK_MODE_NONE
+        )
+        optionsBuilder.setContourMode(
+            if (options.getStringOrNull("contourMode") == "all") FaceDetectorOptions.CONTOUR_MODE_ALL
+            else FaceDetectorOptions.CONTOUR_MODE_NONE
+        )
+        optionsBuilder.setClassificationMode(
+            if (options.getStringOrNull("classificationMode") == "all") FaceDetectorOptions.CLASSIFICATION_MODE_ALL
+            else FaceDetectorOptions.CLASSIFICATION_MODE_NONE
+        )
+        if (options.hasKey("minFaceSize")) {
+            optionsBuilder.setMinFaceSize(options.getDouble("minFaceSize").toFloat())
+        }
+        
+        return optionsBuilder.build()
+    }
+    
+    private fun ReadableMap.getStringOrNull(key: String): String? =
+        if (hasKey(key) && !isNull(key)) getString(key) else null
+    
+    private fun loadBytes(uri: String): ByteArray? {
+        val context = reactApplicationContext
+        val parsed = Uri.parse(uri)
+        val stream: InputStream? = when (parsed.scheme) {
+            "http", "https" -> URL(uri).openStream()
+            "content", "file", "android.resource" -> context.contentResolver.openInputStream(parsed)
+            null -> {
+                // Bundled images in release builds resolve to a drawable resource name
+                val resourceId = context.resources.getIdentifier(uri, "drawable", context.packageName)
+                if (resourceId == 0) null else context.resources.openRawResource(resourceId)
+            }
+            else -> null
+        }
+        return stream?.use { it.readBytes() }
+    }
+    
+    /**
+     * EXIF orientation (1-8) of the image, 1 when it has no orientation tag,
+     * or null when the metadata cannot be read
+     */
+    private fun readOrientation(bytes: ByteArray): Int? {
+        return try {
+            val orientation = ExifInterface(ByteArrayInputStream(bytes))
+                .getAttributeInt(ExifInterface.TAG_ORIENTATION, ExifInterface.ORIENTATION_NORMAL)
+            if (orientation in 1..8) orientation else null
+        } catch (e: Exception) {
+            Log.w(TAG, "Could not read EXIF orientation: ${e.message}")
+            null
+        }
+    }
+    
+    override fun invalidate() {
+        executor.shutdown()
+        super.invalidate()
+    }
+}
@@ -78,14 +78,15 @@ public class FaceDetectorFrameProcessorPlugin: FrameProcessorPlugin {
             updateDetectorOptions(args)
         }
         
+        // Failures are returned as { error } so JS can tell them from frames without faces
         guard let detector = faceDetector else {
             print("[FaceDetectorPlugin] Detector not initialized")
-            return []
+            return ["error": "Face detector not initialized"]
         }
         
         guard let pixelBuffer = CMSampleBufferGetImageBuffer(frame.buffer) else {
             print("[FaceDetectorPlugin] Could not get pixel buffer")
-            return []
+            return ["error": "Could not get pixel buffer"]
         }
         
         let image = VisionImage(buffer: frame.buffer)
@@ -95,11 +96,13 @@ public class FaceDetectorFrameProcessorPlugin: FrameProcessorPlugin {
         let frameHeight = CVPixelBufferGetHeight(pixelBuffer)
         
         var detectedFaces: [Face] = []
+        var detectionError: Error?
         let semaphore = DispatchSemaphore(value: 0)
         
         detector.process(image) { faces, error in
             if let error = error {
                 print("[FaceDetectorPlugin] Detection error: \(error.localizedDescription)")
+                detectionError = error
             } else if let faces = faces {
                 detectedFaces = faces
             }
@@ -108,8 +111,12 @@ public class FaceDetectorFrameProcessorPlugin: FrameProcessorPlugin {
         
         _ = semaphore.wait(timeout: .now() + 0.1)
         
+        if let error = detectionError {
+            return ["error": error.localizedDescription]
+        }
+        
         return detectedFaces.map { face in
-            faceToDict(
+            FaceDetectorFrameProcessorPlugin.faceToDict(
                 face, 
                 frameWidth: frameWidth, 
                 frameHeight: frameHeight,
@@ -136,7 +143,9 @@ public class FaceDetectorFrameProcessorPlugin: FrameProcessorPlugin {
         }
     }
     
-    private func faceToDict(
+    /// Convert an ML Kit face to the dictionary returned to JS
+    /// (also used by the static image module with autoMode and the image size)
+    static func faceToDict(
         _ face: Face, 
         frameWidth: Int, 
         frameHeight: Int,
@@ -283,7 +292,7 @@ public class FaceDetectorFrameProcessorPlugin: FrameProcessorPlugin {
         return result
     }
     
-    private func pointToDict(
+    private static func pointToDict(
         _ point: VisionPoint, 
         scaleX: CGFloat, 
         scaleY: CGFloat,
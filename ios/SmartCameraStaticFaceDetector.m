@@ -0,0 +1,11 @@
+#import <React/RCTBridgeModule.h>
+
+// Expose the Swift static image module to React Native
+@interface RCT_EXTERN_MODULE(SmartCameraStaticFaceDetector, NSObject)
+
+RCT_EXTERN_METHOD(detectFaces:(NSString *)uri
+                  options:(NSDictionary *)options
+                  resolver:(RCTPromiseResolveBlock)resolve
+                  rejecter:(RCTPromiseRejectBlock)reject)
+
+@end
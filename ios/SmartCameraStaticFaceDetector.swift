@@ -0,0 +1,112 @@
+import Foundation
+import ImageIO
+import React
+import MLKitFaceDetection
+import MLKitVision
+
+/// Native module detecting faces in still images with ML Kit
+///
+/// Images are decoded without applying EXIF orientation, so results are in the
+/// coordinates of the stored pixels (width/height and the EXIF orientation are
+/// returned alongside).
+@objc(SmartCameraStaticFaceDetector)
+class SmartCameraStaticFaceDetector: NSObject {
+    
+    private let queue = DispatchQueue(label: "com.smartcamera.static-face-detector", qos: .userInitiated)
+    
+    @objc static func requiresMainQueueSetup() -> Bool {
+        return false
+    }
+    
+    @objc(detectFaces:options:resolver:rejecter:)
+    func detectFaces(
+        _ uri: String,
+        options: [String: Any],
+        resolver resolve: @escaping RCTPromiseResolveBlock,
+        rejecter reject: @escaping RCTPromiseRejectBlock
+    ) {
+        queue.async {
+            guard let loaded = SmartCameraStaticFaceDetector.loadImage(uri) else {
+                reject("IMAGE_LOAD_FAILED", "Could not load image: \(uri)", nil)
+                return
+            }
+            let cgImage = loaded.image
+            
+            let image = VisionImage(image: UIImage(cgImage: cgImage, scale: 1.0, orientation: .up))
+            image.orientation = .up
+            
+            let detector = FaceDetector.faceDetector(
+                options: SmartCameraStaticFaceDetector.detectorOptions(options)
+            )
+            
+            do {
+                // Synchronous detection; must not run on the main thread
+                let faces = try detector.results(in: image)
+                let width = cgImage.width
+                let height = cgImage.height
+                
+                // autoMode with the image size yields pixel coordinates
+                var result: [String: Any] = [
+                    "width": width,
+                    "height": height,
+                    "faces": faces.map { face in
+                        FaceDetectorFrameProcessorPlugin.faceToDict(
+                            face,
+                            frameWidth: width,
+                            frameHeight: height,
+                            autoMode: true,
+                            windowWidth: CGFloat(width),
+                            windowHeight: CGFloat(height),
+                            cameraFacing: "back"
+                        )
+                    }
+                ]
+                if let orientation = loaded.orientation {
+                    result["orientation"] = orientation
+                }
+                resolve(result)
+            } catch {
+                reject("ML_KIT_ERROR", "Face detection failed: \(error.localizedDescription)", error)
+            }
+        }
+    }
+    
+    private static func detectorOptions(_ options: [String: Any]) -> FaceDetectorOptions {
+        let detectorOptions = FaceDetectorOptions()
+        detectorOptions.performanceMode = (options["performanceMode"] as? String) == "fast" ? .fast : .accurate
+        detectorOptions.landmarkMode = (options["landmarkMode"] as? String) == "all" ? .all : .none
+        detectorOptions.contourMode = (options["contourMode"] as? String) == "all" ? .all : .none
+        detectorOptions.classificationMode = (options["classificationMode"] as? String) == "all" ? .all : .none
+        if let minFaceSize = options["minFaceSize"] as? CGFloat {
+            detectorOptions.minFaceSize = minFaceSize
+        }
+        return detectorOptions
+    }
+    
+    /// Decodes the stored pixels and reads the EXIF orientation (1 when the image has
+    /// no orientation tag, nil when its properties cannot be read)
+    private static func loadImage(_ uri: String) -> (image: CGImage, orientation: Int?)? {
+        let url: URL?
+        if let parsed = URL(string: uri), parsed.scheme != nil {
+            url = parsed
+        } else {
+            url = URL(fileURLWithPath: uri)
+        }
+        
+        guard let url = url, let data = try? Data(contentsOf: url),
+              let source = CGImageSourceCreateWithData(data as CFData, nil) else {
+            return nil
+        }
+        // Decodes the stored pixels; the orientation tag is not applied
+        guard let cgImage = CGImageSourceCreateImageAtIndex(source, 0, nil) else {
+            return nil
+        }
+        
+        var orientation: Int?
+        if let properties = CGImageSourceCopyPropertiesAtIndex(source, 0, nil) as? [CFString: Any] {
+            let value = (properties[kCGImagePropertyOrientation] as? NSNumber)?.intValue ?? 1
+            orientation = (1...8).contains(value) ? value : nil
+        }
+        return (image: cgImage, orientation: orientation)
+    }
+}
@@ -0,0 +1,4 @@
+module.exports = {
+  ...require('expo-module-scripts/jest-preset-plugin'),
+  roots: ['<rootDir>/src'],
+};
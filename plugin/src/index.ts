@@ -1,6 +1,7 @@
 import { ConfigPlugin, createRunOncePlugin } from '@expo/config-plugins';
 import { withSmartCameraIOS } from './withSmartCameraIOS';
 import { withSmartCameraAndroid } from './withSmartCameraAndroid';
+import { validatePluginOptions } from './validatePluginOptions';
 
 const pkg = require('../../package.json');
 
@@ -41,8 +42,21 @@ export interface SmartCameraPluginOptions {
  * - Configures iOS frameworks
  * - Sets up Android Proguard rules
  * - Adds ML Kit dependencies
+ *
+ * Invalid options fail the prebuild; questionable ones are logged.
  */
 const withSmartCamera: ConfigPlugin<SmartCameraPluginOptions | void> = (config, options = {}) => {
+  const diagnostics = validatePluginOptions(options);
+  diagnostics
+    .filter((diagnostic) => diagnostic.severity === 'warning')
+    .forEach((diagnostic) => console.warn(`[${pkg.name}] ${diagnostic.message}`));
+  const errors = diagnostics.filter((diagnostic) => diagnostic.severity === 'error');
+  if (errors.length > 0) {
+    throw new Error(
+      `[${pkg.name}] Invalid plugin options: ${errors.map((error) => error.message).join('; ')}`
+    );
+  }
+
   const {
     cameraPermissionText = 'This app uses the camera for face detection and video streaming',
     microphonePermissionText = 'This app uses the microphone for audio streaming',
@@ -67,5 +81,7 @@ const withSmartCamera: ConfigPlugin<SmartCameraPluginOptions | void> = (config,
   return config;
 };
 
+export { validatePluginOptions, type PluginOptionDiagnostic } from './validatePluginOptions';
+
 export default createRunOncePlugin(withSmartCamera, pkg.name, pkg.version);
 
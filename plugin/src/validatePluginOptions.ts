@@ -0,0 +1,100 @@
+/**
+ * Diagnostic for a config plugin option
+ *
+ * Same shape as the `ValidationDiagnostic` of the runtime package.
+ */
+export interface PluginOptionDiagnostic {
+  /** Diagnostic code */
+  code: 'INVALID_TYPE' | 'INVALID_VALUE' | 'UNKNOWN_OPTION' | 'NOTHING_ENABLED';
+  /** Option name */
+  path: string;
+  /** 'error' fails the prebuild, 'warning' is logged */
+  severity: 'error' | 'warning';
+  /** Human-readable description */
+  message: string;
+}
+
+const STRING_OPTIONS = ['cameraPermissionText', 'microphonePermissionText'];
+const BOOLEAN_OPTIONS = ['enableMLKit', 'enableWebRTC'];
+
+/**
+ * Validate the options passed to the config plugin in app.json / app.config.js
+ *
+ * @param options - Plugin options as written by the user
+ * @returns Diagnostics (empty when valid)
+ */
+export function validatePluginOptions(options: unknown): PluginOptionDiagnostic[] {
+  if (options === undefined || options === null) {
+    return [];
+  }
+  if (typeof options !== 'object' || Array.isArray(options)) {
+    return [
+      {
+        code: 'INVALID_TYPE',
+        path: '',
+        severity: 'error',
+        message: 'Plugin options must be an object',
+      },
+    ];
+  }
+
+  const diagnostics: PluginOptionDiagnostic[] = [];
+  const values = options as Record<string, unknown>;
+
+  Object.keys(values).forEach((key) => {
+    if (!STRING_OPTIONS.includes(key) && !BOOLEAN_OPTIONS.includes(key)) {
+      diagnostics.push({
+        code: 'UNKNOWN_OPTION',
+        path: key,
+        severity: 'warning',
+        message: `${key} is not a known option`,
+      });
+    }
+  });
+
+  STRING_OPTIONS.forEach((key) => {
+    const value = values[key];
+    if (value === undefined) {
+      return;
+    }
+    if (typeof value !== 'string') {
+      diagnostics.push({
+        code: 'INVALID_TYPE',
+        path: key,
+        severity: 'error',
+        message: `${key} must be a string`,
+      });
+    } else if (value.trim() === '') {
+      // App Store review rejects empty usage descriptions
+      diagnostics.push({
+        code: 'INVALID_VALUE',
+        path: key,
+        severity: 'error',
+        message: `${key} must not be empty`,
+      });
+    }
+  });
+
+  BOOLEAN_OPTIONS.forEach((key) => {
+    const value = values[key];
+    if (value !== undefined && typeof value !== 'boolean') {
+      diagnostics.push({
+        code: 'INVALID_TYPE',
+        path: key,
+        severity: 'error',
+        message: `${key} must be a boolean`,
+      });
+    }
+  });
+
+  if (values.enableMLKit === false && values.enableWebRTC === false) {
+    diagnostics.push({
+      code: 'NOTHING_ENABLED',
+      path: 'enableMLKit',
+      severity: 'warning',
+      message: 'Both enableMLKit and enableWebRTC are disabled, only permissions are configured',
+    });
+  }
+
+  return diagnostics;
+}
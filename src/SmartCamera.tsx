@@ -0,0 +1,341 @@
+import React, { useCallback, useEffect, useMemo, useRef } from 'react';
+import { StyleSheet } from 'react-native';
+import {
+  Camera,
+  useCameraDevice,
+  useCameraPermission,
+  useFrameProcessor,
+  type CameraRuntimeError,
+  type Frame,
+} from 'react-native-vision-camera';
+import { useRunOnJS } from 'react-native-worklets-core';
+
+import { processBlinkFromFaces } from './detection/blinkProcessor';
+import { resolveDetectionOptions } from './detection/detectionPresets';
+import { tryDetectFaces } from './detection/faceDetector';
+import { createPrimaryFaceSelector } from './detection/primaryFace';
+import { useDetectorHealth } from './hooks/useDetectorHealth';
+import { useSmartCameraWebRTC } from './hooks/useSmartCameraWebRTC';
+import type {
+  BlinkClassifierOptions,
+  BlinkEvent,
+  Face,
+  SmartCameraError,
+  SmartCameraProps,
+} from './types';
+import { createSmartCameraError } from './utils';
+import {
+  mergeResolverWarnings,
+  reportDiagnostics,
+  validateFrameProcessorOptions,
+} from './utils/validation';
+
+/**
+ * Camera component with built-in face detection, blink detection and WebRTC streaming.
+ *
+ * Wraps VisionCamera's `Camera` and wires `detectFaces` and `processBlinkFromFaces`
+ * into a frame processor. Failures (missing permission, missing device, missing
+ * native plugin, frame processor exceptions) are reported through `onError`.
+ *
+ * @param props - SmartCamera props
+ *
+ * @example
+ * ```tsx
+ * import { SmartCamera } from '@arfuhad/react-native-smart-camera';
+ *
+ * function Screen() {
+ *   return (
+ *     <SmartCamera
+ *       camera="front"
+ *       style={{ flex: 1 }}
+ *       faceDetection={{ enabled: true, classificationMode: 'all' }}
+ *       blinkDetection
+ *       onBlinkDetected={(event) => console.log('Blink!', event.timestamp)}
+ *       onFaceDetected={(faces) => console.log('Faces:', faces.length)}
+ *       onError={(error) => console.warn(error.code, error.message)}
+ *     />
+ *   );
+ * }
+ * ```
+ */
+export function SmartCamera(props: SmartCameraProps): React.ReactElement | null {
+  const {
+    camera = 'front',
+    fps = 30,
+    style,
+    faceDetection = {},
+    blinkDetection = false,
+    blinkClassifier,
+    primaryFace,
+    onBlinkDetected,
+    onFaceDetected,
+    webrtc,
+    isActive = true,
+    onReady,
+    onError,
+  } = props;
+
+  const device = useCameraDevice(camera);
+  const { hasPermission, requestPermission } = useCameraPermission();
+
+  // Blink detection needs eye classification, so it implies face detection
+  const detectionEnabled = faceDetection.enabled === true || blinkDetection;
+
+  const { autoMode, windowWidth, windowHeight } = faceDetection;
+
+  // Apply the preset and resolve conflicting options
+  const resolvedDetection = useMemo(
+    () =>
+      resolveDetectionOptions({
+        preset: faceDetection.preset,
+        performanceMode: faceDetection.performanceMode,
+        landmarkMode: faceDetection.landmarkMode,
+        contourMode: faceDetection.contourMode,
+        classificationMode: blinkDetection ? 'all' : faceDetection.classificationMode,
+        minFaceSize: faceDetection.minFaceSize,
+        trackingEnabled: faceDetection.trackingEnabled,
+      }),
+    [
+      blinkDetection,
+      faceDetection.preset,
+      faceDetection.performanceMode,
+      faceDetection.landmarkMode,
+      faceDetection.contourMode,
+      faceDetection.classificationMode,
+      faceDetection.minFaceSize,
+      faceDetection.trackingEnabled,
+    ]
+  );
+
+  const {
+    performanceMode,
+    landmarkMode,
+    contourMode,
+    classificationMode,
+    minFaceSize,
+    trackingEnabled,
+  } = resolvedDetection.options;
+
+  // Validate options and surface conflicts during development
+  useEffect(() => {
+    if (!__DEV__ || !detectionEnabled) {
+      return;
+    }
+    const diagnostics = validateFrameProcessorOptions({
+      ...resolvedDetection.options,
+      autoMode,
+      windowWidth,
+      windowHeight,
+    });
+    reportDiagnostics(
+      'SmartCamera faceDetection',
+      mergeResolverWarnings(resolvedDetection.warnings, diagnostics)
+    );
+  }, [detectionEnabled, resolvedDetection, autoMode, windowWidth, windowHeight]);
+
+  const callbacksRef = useRef({ onBlinkDetected, onFaceDetected, onReady, onError });
+
+  // Keep callback refs updated
+  useEffect(() => {
+    callbacksRef.current = { onBlinkDetected, onFaceDetected, onReady, onError };
+  }, [onBlinkDetected, onFaceDetected, onReady, onError]);
+
+  const reportError = useCallback((error: SmartCameraError) => {
+    callbacksRef.current.onError?.(error);
+  }, []);
+
+  // Request permission once, report denial
+  useEffect(() => {
+    if (hasPermission) {
+      return;
+    }
+
+    requestPermission()
+      .then((granted) => {
+        if (!granted) {
+          reportError({
+            code: 'PERMISSION_DENIED',
+            message: 'Camera permission was denied',
+          });
+        }
+      })
+      .catch((error) => {
+        reportError(createSmartCameraError(error, 'PERMISSION_DENIED'));
+      });
+  }, [hasPermission, requestPermission, reportError]);
+
+  // Report missing camera device
+  useEffect(() => {
+    if (hasPermission && device == null) {
+      reportError({
+        code: 'CAMERA_UNAVAILABLE',
+        message: `No ${camera} camera device is available`,
+      });
+    }
+  }, [hasPermission, device, camera, reportError]);
+
+  // Report a missing native plugin and failing frames instead of silently detecting nothing
+  const { reportAttempt, reportError: reportFrameError } = useDetectorHealth({
+    enabled: detectionEnabled,
+    onError: reportError,
+  });
+
+  // WebRTC streaming
+  const reportWebRTCError = useCallback(
+    (error: Error) => reportError(createSmartCameraError(error, 'WEBRTC_ERROR')),
+    [reportError]
+  );
+
+  const { startStreaming, stopStreaming } = useSmartCameraWebRTC({
+    peerConnection: webrtc?.peerConnection,
+    mode: webrtc?.mode,
+    videoConstraints: webrtc?.videoConstraints,
+    initialCamera: camera,
+    onError: reportWebRTCError,
+  });
+
+  const webrtcEnabled = webrtc?.enabled === true && isActive;
+
+  useEffect(() => {
+    if (!webrtcEnabled) {
+      return;
+    }
+
+    startStreaming();
+    return () => {
+      stopStreaming();
+    };
+  }, [webrtcEnabled, startStreaming, stopStreaming]);
+
+  // JS thread handlers called from the frame processor
+  const handleFaces = useRunOnJS((faces: Face[]) => {
+    callbacksRef.current.onFaceDetected?.(faces);
+  }, []);
+
+  const handleBlink = useRunOnJS((event: BlinkEvent) => {
+    callbacksRef.current.onBlinkDetected?.(event);
+  }, []);
+
+  // Recreate the selector only when the strategy changes
+  const primaryFaceKey = primaryFace !== undefined ? JSON.stringify(primaryFace) : null;
+  const primaryFaceSelector = useMemo(
+    () => (primaryFaceKey !== null ? createPrimaryFaceSelector(JSON.parse(primaryFaceKey)) : null),
+    [primaryFaceKey]
+  );
+
+  // Inline classifier options must not rebuild the frame processor on every render
+  const blinkClassifierKey =
+    blinkClassifier !== undefined ? JSON.stringify(blinkClassifier) : null;
+  const blinkClassifierOptions = useMemo<BlinkClassifierOptions | undefined>(
+    () => (blinkClassifierKey !== null ? JSON.parse(blinkClassifierKey) : undefined),
+    [blinkClassifierKey]
+  );
+
+  const hasFaceCallback = onFaceDetected != null;
+  const hasBlinkCallback = onBlinkDetected != null;
+
+  const frameProcessor = useFrameProcessor((frame: Frame) => {
+    'worklet';
+
+    if (!detectionEnabled) {
+      return;
+    }
+
+    try {
+      const attempt = tryDetectFaces(frame, {
+        performanceMode,
+        landmarkMode,
+        contourMode,
+        classificationMode,
+        minFaceSize,
+        trackingEnabled,
+        cameraFacing: camera,
+        autoMode,
+        windowWidth,
+        windowHeight,
+      });
+      reportAttempt(attempt);
+      const faces = attempt.faces;
+
+      if (hasFaceCallback) {
+        handleFaces(faces);
+      }
+
+      if (blinkDetection && hasBlinkCallback) {
+        let blinkFaces = faces;
+        if (primaryFaceSelector) {
+          const primary = primaryFaceSelector.select(faces);
+          blinkFaces = primary ? [primary] : [];
+        }
+        const blinks = processBlinkFromFaces(
+          blinkFaces,
+          undefined,
+          undefined,
+          blinkClassifierOptions
+        );
+        blinks.forEach((blink) => handleBlink(blink));
+      }
+    } catch (error) {
+      reportFrameError(
+        'FRAME_PROCESSOR_ERROR',
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }, [
+    detectionEnabled,
+    blinkDetection,
+    blinkClassifierOptions,
+    primaryFaceSelector,
+    hasFaceCallback,
+    hasBlinkCallback,
+    performanceMode,
+    landmarkMode,
+    contourMode,
+    classificationMode,
+    minFaceSize,
+    trackingEnabled,
+    camera,
+    autoMode,
+    windowWidth,
+    windowHeight,
+    handleFaces,
+    handleBlink,
+    reportAttempt,
+    reportFrameError,
+  ]);
+
+  const handleInitialized = useCallback(() => {
+    callbacksRef.current.onReady?.();
+  }, []);
+
+  const handleCameraError = useCallback((error: CameraRuntimeError) => {
+    let code: SmartCameraError['code'] = 'UNKNOWN_ERROR';
+    if (error.code.startsWith('permission/')) {
+      code = 'PERMISSION_DENIED';
+    } else if (error.code.startsWith('device/')) {
+      code = 'CAMERA_UNAVAILABLE';
+    }
+
+    reportError({
+      code,
+      message: error.message,
+      nativeError: error,
+    });
+  }, [reportError]);
+
+  if (!hasPermission || device == null) {
+    return null;
+  }
+
+  return (
+    <Camera
+      style={style ?? StyleSheet.absoluteFill}
+      device={device}
+      isActive={isActive}
+      fps={fps}
+      frameProcessor={detectionEnabled ? frameProcessor : undefined}
+      onInitialized={handleInitialized}
+      onError={handleCameraError}
+    />
+  );
+}
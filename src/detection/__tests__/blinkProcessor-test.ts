@@ -0,0 +1,163 @@
+import type { BlinkEvent, Face } from '../../types';
+import { createBlinkClassifier } from '../blinkProcessor';
+
+const OPEN = 0.9;
+const CLOSED = 0.1;
+
+function face(leftEyeOpen: number, rightEyeOpen: number, trackingId = 1): Face {
+  return {
+    bounds: { x: 0, y: 0, width: 100, height: 100 },
+    leftEyeOpenProbability: leftEyeOpen,
+    rightEyeOpenProbability: rightEyeOpen,
+    trackingId,
+  };
+}
+
+/**
+ * Feed eye states at the given timestamps and collect all events
+ */
+function run(
+  classifier: ReturnType<typeof createBlinkClassifier>,
+  frames: [timestamp: number, left: number, right: number][]
+): BlinkEvent[] {
+  return frames.flatMap(([timestamp, left, right]) =>
+    classifier.process([face(left, right)], timestamp)
+  );
+}
+
+describe('createBlinkClassifier', () => {
+  it('reports a short closure of both eyes as a blink', () => {
+    const events = run(createBlinkClassifier(), [
+      [1000, OPEN, OPEN],
+      [1100, CLOSED, CLOSED],
+      [1250, OPEN, OPEN],
+    ]);
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      kind: 'blink',
+      durationMs: 150,
+      isBlink: true,
+      timestamp: 1250,
+      faceId: 1,
+    });
+  });
+
+  it('reports a closure longer than blink.maxDurationMs as a long blink', () => {
+    const events = run(createBlinkClassifier(), [
+      [1000, OPEN, OPEN],
+      [1100, CLOSED, CLOSED],
+      [1900, OPEN, OPEN],
+    ]);
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ kind: 'long-blink', durationMs: 800, isBlink: true });
+  });
+
+  it('reports eyes held closed once, and no blink when they reopen', () => {
+    const events = run(createBlinkClassifier(), [
+      [1000, OPEN, OPEN],
+      [1100, CLOSED, CLOSED],
+      [2000, CLOSED, CLOSED],
+      [2600, CLOSED, CLOSED],
+      [3000, CLOSED, CLOSED],
+      [3200, OPEN, OPEN],
+    ]);
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ kind: 'eyes-closed', durationMs: 1500, isBlink: false });
+  });
+
+  it('ignores closures past longBlink.maxDurationMs not held for eyesClosed', () => {
+    const classifier = createBlinkClassifier({ eyesClosed: { minDurationMs: 5000 } });
+    const events = run(classifier, [
+      [1000, OPEN, OPEN],
+      [1100, CLOSED, CLOSED],
+      [3100, OPEN, OPEN],
+    ]);
+
+    expect(events).toEqual([]);
+  });
+
+  it.each([
+    ['left-wink', CLOSED, OPEN],
+    ['right-wink', OPEN, CLOSED],
+  ] as const)('reports a %s', (kind, left, right) => {
+    const events = run(createBlinkClassifier(), [
+      [1000, OPEN, OPEN],
+      [1100, left, right],
+      [1400, OPEN, OPEN],
+    ]);
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ kind, durationMs: 300, isBlink: false });
+  });
+
+  it('ignores winks shorter than wink.minDurationMs', () => {
+    const events = run(createBlinkClassifier(), [
+      [1000, OPEN, OPEN],
+      [1100, CLOSED, OPEN],
+      [1150, OPEN, OPEN],
+    ]);
+
+    expect(events).toEqual([]);
+  });
+
+  it('treats the second eye closing during a wink as a blink', () => {
+    const events = run(createBlinkClassifier(), [
+      [1000, OPEN, OPEN],
+      [1100, CLOSED, OPEN],
+      [1150, CLOSED, CLOSED],
+      [1300, OPEN, OPEN],
+    ]);
+
+    expect(events).toHaveLength(1);
+    expect(events[0].kind).toBe('blink');
+  });
+
+  it('debounces events of the same face', () => {
+    const blink = (start: number): [number, number, number][] => [
+      [start, CLOSED, CLOSED],
+      [start + 100, OPEN, OPEN],
+    ];
+    const classifier = createBlinkClassifier({ debounceMs: 400 });
+    const events = run(classifier, [
+      [0, OPEN, OPEN],
+      ...blink(1000),
+      // Ends 200 ms after the first blink: debounced
+      ...blink(1200),
+      // Ends 500 ms after the first blink: reported
+      ...blink(1500),
+    ]);
+
+    expect(events.map((event) => event.timestamp)).toEqual([1100, 1600]);
+  });
+
+  it('keeps separate state per tracked face', () => {
+    const classifier = createBlinkClassifier();
+    classifier.process([face(OPEN, OPEN, 1), face(OPEN, OPEN, 2)], 1000);
+    classifier.process([face(CLOSED, CLOSED, 1), face(OPEN, OPEN, 2)], 1100);
+    const events = classifier.process([face(OPEN, OPEN, 1), face(OPEN, OPEN, 2)], 1200);
+
+    expect(events).toHaveLength(1);
+    expect(events[0].faceId).toBe(1);
+  });
+
+  it('ignores faces without eye classification', () => {
+    const classifier = createBlinkClassifier();
+    const events = classifier.process([{ bounds: { x: 0, y: 0, width: 10, height: 10 } }], 1000);
+
+    expect(events).toEqual([]);
+  });
+
+  it('forgets a closure on reset', () => {
+    const classifier = createBlinkClassifier();
+    run(classifier, [
+      [1000, OPEN, OPEN],
+      [1100, CLOSED, CLOSED],
+    ]);
+    classifier.reset();
+
+    expect(classifier.process([face(OPEN, OPEN)], 1200)).toEqual([]);
+  });
+});
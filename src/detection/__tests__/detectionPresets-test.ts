@@ -0,0 +1,132 @@
+import type { DetectionPresetName, DetectionPresetOptions } from '../../types';
+import {
+  DEFAULT_FACE_DETECTION_OPTIONS,
+  DETECTION_PRESETS,
+  resolveDetectionOptions,
+} from '../detectionPresets';
+
+const PRESETS = Object.keys(DETECTION_PRESETS) as DetectionPresetName[];
+
+describe('resolveDetectionOptions', () => {
+  it('returns the defaults without a preset', () => {
+    expect(resolveDetectionOptions()).toEqual({
+      options: DEFAULT_FACE_DETECTION_OPTIONS,
+      preset: null,
+      warnings: [],
+    });
+  });
+
+  it.each(PRESETS)('returns the %s preset without warnings', (preset) => {
+    expect(resolveDetectionOptions({ preset })).toEqual({
+      options: DETECTION_PRESETS[preset],
+      preset,
+      warnings: [],
+    });
+  });
+
+  it('lets explicit options override the preset', () => {
+    const { options, warnings } = resolveDetectionOptions({
+      preset: 'blink',
+      performanceMode: 'accurate',
+      minFaceSize: 0.4,
+    });
+
+    expect(options).toEqual({
+      ...DETECTION_PRESETS.blink,
+      performanceMode: 'accurate',
+      minFaceSize: 0.4,
+    });
+    expect(warnings).toEqual([]);
+  });
+
+  it('ignores undefined overrides', () => {
+    const { options } = resolveDetectionOptions({ preset: 'blink', classificationMode: undefined });
+    expect(options).toEqual(DETECTION_PRESETS.blink);
+  });
+
+  it('ignores an unknown preset with a warning', () => {
+    const { options, preset, warnings } = resolveDetectionOptions({
+      preset: 'portrait' as DetectionPresetName,
+    });
+
+    expect(preset).toBeNull();
+    expect(options).toEqual(DEFAULT_FACE_DETECTION_OPTIONS);
+    expect(warnings).toEqual([
+      expect.objectContaining({ code: 'UNKNOWN_PRESET', path: 'preset' }),
+    ]);
+  });
+
+  it.each<[DetectionPresetOptions, string]>([
+    [{ preset: 'blink', classificationMode: 'none' }, 'classificationMode'],
+    [{ preset: 'kyc-capture', landmarkMode: 'none' }, 'landmarkMode'],
+    [{ preset: 'kyc-capture', classificationMode: 'none' }, 'classificationMode'],
+    [{ preset: 'multi-face-tracking', trackingEnabled: false }, 'trackingEnabled'],
+    [{ preset: 'overlay-contours', contourMode: 'none' }, 'contourMode'],
+  ])('warns when %o disables what the preset is for', (options, path) => {
+    const { warnings } = resolveDetectionOptions(options);
+    expect(warnings).toEqual([
+      expect.objectContaining({ code: 'PRESET_CAPABILITY_DISABLED', path }),
+    ]);
+  });
+
+  it('does not warn when an override repeats the preset value', () => {
+    const { warnings } = resolveDetectionOptions({ preset: 'blink', classificationMode: 'all' });
+    expect(warnings).toEqual([]);
+  });
+
+  it('turns preset tracking off in favor of explicit contours', () => {
+    const { options, warnings } = resolveDetectionOptions({
+      preset: 'multi-face-tracking',
+      contourMode: 'all',
+    });
+
+    expect(options).toMatchObject({ contourMode: 'all', trackingEnabled: false });
+    expect(warnings).toEqual([
+      expect.objectContaining({ code: 'CONTOURS_WITH_TRACKING', path: 'trackingEnabled' }),
+    ]);
+  });
+
+  it('turns preset contours off in favor of explicit tracking', () => {
+    const { options, warnings } = resolveDetectionOptions({
+      preset: 'overlay-contours',
+      trackingEnabled: true,
+    });
+
+    expect(options).toMatchObject({ contourMode: 'none', trackingEnabled: true });
+    expect(warnings).toEqual([
+      expect.objectContaining({ code: 'CONTOURS_WITH_TRACKING', path: 'contourMode' }),
+    ]);
+  });
+
+  it('keeps explicit contours and tracking but warns about the combination', () => {
+    const { options, warnings } = resolveDetectionOptions({
+      contourMode: 'all',
+      trackingEnabled: true,
+    });
+
+    expect(options).toMatchObject({ contourMode: 'all', trackingEnabled: true });
+    expect(warnings).toEqual([
+      expect.objectContaining({ code: 'CONTOURS_WITH_TRACKING', path: 'trackingEnabled' }),
+    ]);
+  });
+
+  it.each([
+    [-0.5, 0],
+    [1.5, 1],
+  ])('clamps minFaceSize %d to %d', (minFaceSize, clamped) => {
+    const { options, warnings } = resolveDetectionOptions({ minFaceSize });
+
+    expect(options.minFaceSize).toBe(clamped);
+    expect(warnings).toEqual([
+      {
+        code: 'MIN_FACE_SIZE_OUT_OF_RANGE',
+        path: 'minFaceSize',
+        message: `minFaceSize ${minFaceSize} is outside 0-1 and was clamped to ${clamped}`,
+      },
+    ]);
+  });
+
+  it.each([0, 1])('accepts minFaceSize %d', (minFaceSize) => {
+    expect(resolveDetectionOptions({ minFaceSize }).warnings).toEqual([]);
+  });
+});
@@ -0,0 +1,152 @@
+import type { Face } from '../../types';
+import { createPerformanceMonitor } from '../../utils';
+import { createDetectionScheduler } from '../detectionScheduler';
+
+function face(x: number, trackingId = 1): Face {
+  return { bounds: { x, y: 100, width: 100, height: 100 }, trackingId };
+}
+
+describe('createDetectionScheduler', () => {
+  it('starts at maxFps without faces', () => {
+    const scheduler = createDetectionScheduler({ maxFps: 24 });
+
+    expect(scheduler.getState()).toEqual({
+      targetFps: 24,
+      activityFps: 24,
+      budgetFps: 24,
+      activity: 'empty',
+      averageCostMs: 0,
+      detectedFrames: 0,
+      skippedFrames: 0,
+    });
+  });
+
+  it('detects once per target interval and counts skipped frames', () => {
+    const scheduler = createDetectionScheduler({ maxFps: 10 });
+
+    // 100 ms interval, with 10% tolerance for camera jitter
+    const decisions = [0, 50, 89, 90, 150, 185].map((timestamp) =>
+      scheduler.shouldDetect(timestamp)
+    );
+
+    expect(decisions).toEqual([true, false, false, true, false, true]);
+    expect(scheduler.getState().skippedFrames).toBe(3);
+  });
+
+  it('follows the scene activity: moving, static and empty', () => {
+    const scheduler = createDetectionScheduler({ maxFps: 30, staticFps: 10, emptyFps: 4 });
+
+    scheduler.report([face(0)], 5, 0);
+    expect(scheduler.getState()).toMatchObject({ activity: 'moving', targetFps: 30 });
+
+    // Still face: moving until settleMs has passed since the last motion
+    scheduler.report([face(0)], 5, 400);
+    expect(scheduler.getState().activity).toBe('moving');
+    scheduler.report([face(0)], 5, 600);
+    expect(scheduler.getState()).toMatchObject({ activity: 'static', targetFps: 10 });
+
+    // Fast movement (more than motionThreshold face widths per second)
+    scheduler.report([face(100)], 5, 700);
+    expect(scheduler.getState()).toMatchObject({ activity: 'moving', targetFps: 30 });
+
+    // The face leaving counts as motion, then the scene settles as empty
+    scheduler.report([], 5, 800);
+    expect(scheduler.getState().activity).toBe('moving');
+    scheduler.report([], 5, 1400);
+    expect(scheduler.getState()).toMatchObject({ activity: 'empty', targetFps: 4 });
+  });
+
+  it('ignores movement slower than motionThreshold', () => {
+    const scheduler = createDetectionScheduler({ motionThreshold: 0.3 });
+    scheduler.report([face(0)], 5, 0);
+
+    // 0.2 face widths per second
+    scheduler.report([face(20)], 5, 1000);
+    expect(scheduler.getState().activity).toBe('static');
+  });
+
+  it('counts a new tracking ID as motion', () => {
+    const scheduler = createDetectionScheduler();
+    scheduler.report([face(0, 1)], 5, 0);
+    scheduler.report([face(0, 2)], 5, 1000);
+
+    expect(scheduler.getState().activity).toBe('moving');
+  });
+
+  it('caps the rate by the CPU budget', () => {
+    const scheduler = createDetectionScheduler({ maxFps: 30, cpuBudget: 0.5, maxLatencyMs: 50 });
+    scheduler.report([face(0)], 40, 0);
+
+    // 500 ms of detection per second at 40 ms per call
+    expect(scheduler.getState()).toMatchObject({
+      averageCostMs: 40,
+      budgetFps: 12.5,
+      targetFps: 12.5,
+    });
+  });
+
+  it('slows down further when detection exceeds maxLatencyMs', () => {
+    const scheduler = createDetectionScheduler({ cpuBudget: 0.5, maxLatencyMs: 50 });
+    scheduler.report([face(0)], 100, 0);
+
+    // 5 FPS by budget, halved because 100 ms is twice the latency limit
+    expect(scheduler.getState()).toMatchObject({ budgetFps: 2.5, targetFps: 2.5 });
+  });
+
+  it('never goes below minFps', () => {
+    const scheduler = createDetectionScheduler({ minFps: 2 });
+    scheduler.report([face(0)], 1000, 0);
+
+    expect(scheduler.getState().targetFps).toBe(2);
+  });
+
+  it('smooths the measured cost', () => {
+    const scheduler = createDetectionScheduler({ costSmoothing: 0.5 });
+    scheduler.report([face(0)], 10, 0);
+    scheduler.report([face(0)], 30, 100);
+
+    expect(scheduler.getState()).toMatchObject({ averageCostMs: 20, detectedFrames: 2 });
+  });
+
+  it('runs detection only on due frames', () => {
+    const scheduler = createDetectionScheduler({ maxFps: 10 });
+    const detect = jest.fn(() => [face(0)]);
+
+    expect(scheduler.run(detect, 0)).toEqual([face(0)]);
+    expect(scheduler.run(detect, 50)).toBeNull();
+    expect(detect).toHaveBeenCalledTimes(1);
+    expect(scheduler.getState()).toMatchObject({ detectedFrames: 1, skippedFrames: 1 });
+  });
+
+  it('reports skipped frames and target changes to the monitor', () => {
+    const monitor = createPerformanceMonitor();
+    const setTargetFps = jest.spyOn(monitor, 'setTargetFps');
+    const skipFrame = jest.spyOn(monitor, 'skipFrame');
+    const scheduler = createDetectionScheduler({ maxFps: 30, staticFps: 10 }, monitor);
+
+    scheduler.shouldDetect(0);
+    scheduler.shouldDetect(10);
+    expect(skipFrame).toHaveBeenCalledTimes(1);
+
+    scheduler.report([face(0)], 5, 0);
+    scheduler.report([face(0)], 5, 1000);
+    expect(setTargetFps).toHaveBeenLastCalledWith(10);
+    expect(monitor.getMetrics().frameCount).toBe(2);
+  });
+
+  it('starts again at maxFps on reset', () => {
+    const scheduler = createDetectionScheduler({ maxFps: 30 });
+    scheduler.report([face(0)], 200, 0);
+    scheduler.shouldDetect(0);
+    scheduler.reset();
+
+    expect(scheduler.getState()).toMatchObject({
+      targetFps: 30,
+      activity: 'empty',
+      averageCostMs: 0,
+      detectedFrames: 0,
+      skippedFrames: 0,
+    });
+    expect(scheduler.shouldDetect(1)).toBe(true);
+  });
+});
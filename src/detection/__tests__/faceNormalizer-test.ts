@@ -0,0 +1,146 @@
+import { normalizeFaces } from '../faceNormalizer';
+
+const BOUNDS = { x: 10, y: 20, width: 100, height: 120 };
+
+describe('normalizeFaces', () => {
+  it('passes valid faces through unchanged', () => {
+    const face = {
+      bounds: BOUNDS,
+      rollAngle: -4.5,
+      pitchAngle: 2,
+      yawAngle: 12,
+      smilingProbability: 0.8,
+      leftEyeOpenProbability: 0.9,
+      rightEyeOpenProbability: 0.1,
+      trackingId: 3,
+      landmarks: { leftEye: { x: 40, y: 60 }, noseBase: { x: 60, y: 90 } },
+      contours: { face: [{ x: 10, y: 20 }, { x: 110, y: 20 }] },
+    };
+
+    expect(normalizeFaces([face])).toEqual({ faces: [face], issues: [] });
+  });
+
+  it('keeps angles as reported by the detector', () => {
+    const { faces } = normalizeFaces([{ bounds: BOUNDS, rollAngle: 15, yawAngle: -30 }]);
+    expect(faces[0]).toMatchObject({ rollAngle: 15, yawAngle: -30 });
+  });
+
+  it('renames the platform mouth landmark keys', () => {
+    const { faces, issues } = normalizeFaces([
+      {
+        bounds: BOUNDS,
+        landmarks: {
+          mouthLeft: { x: 1, y: 2 },
+          mouthRight: { x: 3, y: 4 },
+          mouthBottom: { x: 5, y: 6 },
+        },
+      },
+    ]);
+
+    expect(issues).toEqual([]);
+    expect(faces[0].landmarks).toEqual({
+      leftMouth: { x: 1, y: 2 },
+      rightMouth: { x: 3, y: 4 },
+      bottomMouth: { x: 5, y: 6 },
+    });
+  });
+
+  it('returns no faces and no issues for a nullish result', () => {
+    expect(normalizeFaces(null)).toEqual({ faces: [], issues: [] });
+    expect(normalizeFaces(undefined)).toEqual({ faces: [], issues: [] });
+  });
+
+  it('reports a result that is not an array', () => {
+    expect(normalizeFaces({ faces: [] })).toEqual({
+      faces: [],
+      issues: [{ path: '', message: 'Expected an array of faces' }],
+    });
+  });
+
+  it.each([
+    ['not an object', 'face', '[0]', 'Expected a face object'],
+    [
+      'without bounds',
+      {},
+      '[0].bounds',
+      'Expected bounds with finite x, y and non-negative width and height',
+    ],
+    [
+      'with negative size',
+      { bounds: { x: 0, y: 0, width: -1, height: 10 } },
+      '[0].bounds',
+      'Expected bounds with finite x, y and non-negative width and height',
+    ],
+    [
+      'with non-finite bounds',
+      { bounds: { x: NaN, y: 0, width: 1, height: 10 } },
+      '[0].bounds',
+      'Expected bounds with finite x, y and non-negative width and height',
+    ],
+  ])('drops a face %s', (_name, value, path, message) => {
+    expect(normalizeFaces([value, { bounds: BOUNDS }])).toEqual({
+      faces: [{ bounds: BOUNDS }],
+      issues: [{ path, message }],
+    });
+  });
+
+  it.each([
+    ['rollAngle', '180', 'Expected a finite angle in degrees'],
+    ['yawAngle', Infinity, 'Expected a finite angle in degrees'],
+    ['smilingProbability', 1.5, 'Expected a probability between 0 and 1'],
+    ['leftEyeOpenProbability', -0.1, 'Expected a probability between 0 and 1'],
+    ['trackingId', 1.5, 'Expected an integer tracking ID'],
+    ['landmarks', [], 'Expected an object of landmarks'],
+    ['contours', 'none', 'Expected an object of contours'],
+  ])('drops a malformed %s and reports it', (key, value, message) => {
+    const { faces, issues } = normalizeFaces([{ bounds: BOUNDS, [key]: value }]);
+
+    expect(faces).toHaveLength(1);
+    expect(faces[0]).not.toHaveProperty(key, value);
+    expect(issues).toEqual([{ path: `[0].${key}`, message }]);
+  });
+
+  it('treats null optional values as missing', () => {
+    const { faces, issues } = normalizeFaces([
+      { bounds: BOUNDS, rollAngle: null, trackingId: null, landmarks: null, contours: null },
+    ]);
+
+    expect(faces).toEqual([{ bounds: BOUNDS }]);
+    expect(issues).toEqual([]);
+  });
+
+  it('reports unknown and malformed landmarks by key', () => {
+    const { faces, issues } = normalizeFaces([
+      {
+        bounds: BOUNDS,
+        landmarks: { leftEye: { x: 1, y: 2 }, chin: { x: 0, y: 0 }, rightEye: { x: 'a', y: 2 } },
+      },
+    ]);
+
+    expect(faces[0].landmarks).toEqual({ leftEye: { x: 1, y: 2 } });
+    expect(issues).toEqual([
+      { path: '[0].landmarks.chin', message: 'Unknown landmark' },
+      { path: '[0].landmarks.rightEye', message: 'Expected a point with finite x and y' },
+    ]);
+  });
+
+  it('reports unknown contours and drops malformed contour points', () => {
+    const { faces, issues } = normalizeFaces([
+      {
+        bounds: BOUNDS,
+        contours: {
+          face: [{ x: 1, y: 2 }, null, { x: 3, y: 4 }],
+          forehead: [],
+          noseBridge: { x: 0, y: 0 },
+        },
+      },
+    ]);
+
+    expect(faces[0].contours).toEqual({ face: [{ x: 1, y: 2 }, { x: 3, y: 4 }] });
+    expect(issues).toEqual([
+      { path: '[0].contours.face[1]', message: 'Expected a point with finite x and y' },
+      { path: '[0].contours.forehead', message: 'Unknown contour type' },
+      { path: '[0].contours.noseBridge', message: 'Expected an array of points' },
+    ]);
+  });
+});
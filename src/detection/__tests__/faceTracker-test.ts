@@ -0,0 +1,117 @@
+import type { Face } from '../../types';
+import { boundsIoU, createFaceTracker } from '../faceTracker';
+
+function face(x: number, y: number, trackingId?: number): Face {
+  return { bounds: { x, y, width: 100, height: 100 }, trackingId };
+}
+
+describe('boundsIoU', () => {
+  it('is 1 for identical and 0 for disjoint bounds', () => {
+    const bounds = { x: 10, y: 10, width: 50, height: 50 };
+    expect(boundsIoU(bounds, bounds)).toBe(1);
+    expect(boundsIoU(bounds, { x: 100, y: 100, width: 50, height: 50 })).toBe(0);
+  });
+
+  it('divides the intersection by the union', () => {
+    const a = { x: 0, y: 0, width: 100, height: 100 };
+    const b = { x: 50, y: 0, width: 100, height: 100 };
+    expect(boundsIoU(a, b)).toBeCloseTo(5000 / 15000, 6);
+  });
+});
+
+describe('createFaceTracker', () => {
+  it('starts a track for a new face and keeps its ID while it moves', () => {
+    const tracker = createFaceTracker();
+
+    const first = tracker.update([face(0, 0)], 0);
+    expect(first.faces[0].trackingId).toBe(1);
+    expect(first.events).toEqual([
+      expect.objectContaining({ type: 'start', trackingId: 1, timestamp: 0, durationMs: 0 }),
+    ]);
+
+    const second = tracker.update([face(10, 5)], 33);
+    expect(second.faces[0].trackingId).toBe(1);
+    expect(second.events).toEqual([]);
+    expect(tracker.getTracks()).toEqual([
+      expect.objectContaining({
+        trackingId: 1,
+        firstSeen: 0,
+        lastSeen: 33,
+        hits: 2,
+        isLost: false,
+      }),
+    ]);
+  });
+
+  it('reports a dropout as lost, then recovered when the face returns', () => {
+    const tracker = createFaceTracker({ maxDropoutMs: 500 });
+    tracker.update([face(0, 0)], 0);
+
+    const lost = tracker.update([], 100);
+    expect(lost.events).toEqual([
+      expect.objectContaining({ type: 'lost', trackingId: 1, durationMs: 100 }),
+    ]);
+    expect(tracker.getTracks()[0].isLost).toBe(true);
+
+    // Lost is reported once per dropout
+    expect(tracker.update([], 200).events).toEqual([]);
+
+    const recovered = tracker.update([face(5, 0)], 300);
+    expect(recovered.faces[0].trackingId).toBe(1);
+    expect(recovered.events).toEqual([
+      expect.objectContaining({ type: 'recovered', trackingId: 1, durationMs: 300 }),
+    ]);
+  });
+
+  it('ends a track when the dropout lasts longer than maxDropoutMs', () => {
+    const tracker = createFaceTracker({ maxDropoutMs: 500 });
+    tracker.update([face(0, 0)], 0);
+    tracker.update([], 100);
+
+    const ended = tracker.update([], 501);
+    expect(ended.events).toEqual([
+      expect.objectContaining({ type: 'end', trackingId: 1, durationMs: 501 }),
+    ]);
+    expect(tracker.getTracks()).toEqual([]);
+
+    // A face at the same place afterwards is a new track
+    const next = tracker.update([face(0, 0)], 600);
+    expect(next.faces[0].trackingId).toBe(2);
+    expect(next.events[0].type).toBe('start');
+  });
+
+  it('keeps two faces apart and matches each to its own track', () => {
+    const tracker = createFaceTracker();
+    tracker.update([face(0, 0), face(300, 0)], 0);
+
+    const { faces } = tracker.update([face(310, 0), face(5, 0)], 33);
+    expect(faces.map((f) => f.trackingId)).toEqual([2, 1]);
+  });
+
+  it('matches by native tracking ID even when the bounds jump', () => {
+    const tracker = createFaceTracker();
+    tracker.update([face(0, 0, 42)], 0);
+
+    const { faces, events } = tracker.update([face(500, 500, 42)], 33);
+    expect(faces[0].trackingId).toBe(1);
+    expect(events).toEqual([]);
+  });
+
+  it('ignores native tracking IDs when useNativeIds is false', () => {
+    const tracker = createFaceTracker({ useNativeIds: false, maxDropoutMs: 0 });
+    tracker.update([face(0, 0, 42)], 0);
+
+    const { faces, events } = tracker.update([face(500, 500, 42)], 33);
+    expect(faces[0].trackingId).toBe(2);
+    expect(events.map((event) => event.type)).toEqual(['start', 'end']);
+  });
+
+  it('drops all tracks on reset without reusing IDs', () => {
+    const tracker = createFaceTracker();
+    tracker.update([face(0, 0)], 0);
+    tracker.reset();
+
+    expect(tracker.getTracks()).toEqual([]);
+    expect(tracker.update([face(0, 0)], 33).faces[0].trackingId).toBe(2);
+  });
+});
@@ -0,0 +1,222 @@
+import type {
+  BestFrameFactorName,
+  BestFrameMoment,
+  BestFramePickerOptions,
+  Face,
+} from '../types';
+import { createRingBuffer, withDefaults } from '../utils';
+
+/**
+ * Default best-frame picker configuration
+ */
+export const DEFAULT_BEST_FRAME_PICKER_OPTIONS: Required<Omit<BestFramePickerOptions, 'weights'>> & {
+  weights: Record<BestFrameFactorName, number>;
+} = {
+  bufferSize: 90,
+  weights: {
+    eyesOpen: 0.4,
+    smiling: 0.2,
+    frontal: 0.2,
+    sharpness: 0.2,
+  },
+  minFaces: 1,
+  maxAngle: 30,
+  maxMotion: 0.1,
+};
+
+type ResolvedBestFramePickerOptions = typeof DEFAULT_BEST_FRAME_PICKER_OPTIONS;
+
+/**
+ * Clamp a value to [0, 1]
+ */
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+/**
+ * Mean of a list of numbers (undefined when empty)
+ */
+function mean(values: number[]): number | undefined {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : undefined;
+}
+
+/**
+ * Find the face of the previous frame that corresponds to a face
+ */
+function matchFace(face: Face, index: number, previous: Face[]): Face | undefined {
+  if (face.trackingId !== undefined) {
+    return previous.find((candidate) => candidate.trackingId === face.trackingId);
+  }
+  // Without tracking IDs, only a single face can be matched reliably
+  return previous.length === 1 && index === 0 ? previous[0] : undefined;
+}
+
+/**
+ * Score the faces of a frame
+ */
+function scoreMomentWithConfig(
+  faces: Face[],
+  previousFaces: Face[] | undefined,
+  config: ResolvedBestFramePickerOptions
+): Pick<BestFrameMoment, 'score' | 'factors'> {
+  if (faces.length === 0 || faces.length < config.minFaces) {
+    return { score: 0, factors: {} };
+  }
+
+  const eyes: number[] = [];
+  const smiles: number[] = [];
+  const frontal: number[] = [];
+  const sharpness: number[] = [];
+
+  faces.forEach((face, index) => {
+    if (face.leftEyeOpenProbability !== undefined && face.rightEyeOpenProbability !== undefined) {
+      eyes.push(Math.min(face.leftEyeOpenProbability, face.rightEyeOpenProbability));
+    }
+    if (face.smilingProbability !== undefined) {
+      smiles.push(face.smilingProbability);
+    }
+    if (face.yawAngle !== undefined && face.pitchAngle !== undefined) {
+      const angle = Math.max(
+        Math.abs(face.yawAngle),
+        Math.abs(face.pitchAngle),
+        Math.abs(face.rollAngle ?? 0)
+      );
+      frontal.push(1 - clamp01(angle / config.maxAngle));
+    }
+
+    const previous = previousFaces ? matchFace(face, index, previousFaces) : undefined;
+    if (previous && previous.bounds.width > 0) {
+      const dx =
+        face.bounds.x + face.bounds.width / 2 - (previous.bounds.x + previous.bounds.width / 2);
+      const dy =
+        face.bounds.y + face.bounds.height / 2 - (previous.bounds.y + previous.bounds.height / 2);
+      const motion = Math.sqrt(dx * dx + dy * dy) / previous.bounds.width;
+      sharpness.push(1 - clamp01(motion / config.maxMotion));
+    }
+  });
+
+  // One person with closed eyes or looking away ruins a group shot, so those use the minimum
+  const factors: Partial<Record<BestFrameFactorName, number>> = {};
+  if (eyes.length === faces.length) {
+    factors.eyesOpen = Math.min(...eyes);
+  }
+  if (smiles.length > 0) {
+    factors.smiling = mean(smiles);
+  }
+  if (frontal.length === faces.length) {
+    factors.frontal = Math.min(...frontal);
+  }
+  if (sharpness.length > 0) {
+    factors.sharpness = Math.min(...sharpness);
+  }
+
+  let weightedScore = 0;
+  let totalWeight = 0;
+  (Object.keys(factors) as BestFrameFactorName[]).forEach((name) => {
+    const weight = config.weights[name];
+    weightedScore += (factors[name] ?? 0) * weight;
+    totalWeight += weight;
+  });
+
+  return {
+    score: totalWeight > 0 ? weightedScore / totalWeight : 0,
+    factors,
+  };
+}
+
+/**
+ * Resolve picker options against the defaults
+ */
+function resolveOptions(options: BestFramePickerOptions): ResolvedBestFramePickerOptions {
+  return {
+    ...withDefaults(DEFAULT_BEST_FRAME_PICKER_OPTIONS, { ...options, weights: undefined }),
+    weights: withDefaults(DEFAULT_BEST_FRAME_PICKER_OPTIONS.weights, options.weights),
+  };
+}
+
+/**
+ * Score the faces of a single frame as a photo moment
+ *
+ * @param faces - Faces detected in the frame
+ * @param previousFaces - Faces of the previous frame (needed for the sharpness factor)
+ * @param options - Best-frame picker configuration
+ * @returns Moment score and factor scores
+ */
+export function scoreMoment(
+  faces: Face[],
+  previousFaces?: Face[],
+  options: BestFramePickerOptions = {}
+): Pick<BestFrameMoment, 'score' | 'factors'> {
+  return scoreMomentWithConfig(faces, previousFaces, resolveOptions(options));
+}
+
+/**
+ * Creates a best-frame picker
+ *
+ * Keeps the face results of the most recent frames in a ring buffer, scores each
+ * moment (eyes open, smiling, frontal, holding still) and reports the best moment
+ * in any time range, e.g. the last two seconds before the shutter was pressed.
+ * Detection should run with `classificationMode: 'all'` and `trackingEnabled: true`.
+ *
+ * @param options - Best-frame picker configuration
+ * @returns Object with addFaces, getBest, getMoments and reset functions
+ *
+ * @example
+ * ```ts
+ * const picker = createBestFramePicker({ bufferSize: 60 });
+ *
+ * // For every set of detected faces:
+ * picker.addFaces(faces);
+ *
+ * // When the user presses the shutter:
+ * const best = picker.getBest(Date.now() - 2000);
+ * ```
+ */
+export function createBestFramePicker(options: BestFramePickerOptions = {}) {
+  const config = resolveOptions(options);
+  const moments = createRingBuffer<BestFrameMoment>(config.bufferSize);
+
+  return {
+    /**
+     * Score and buffer the faces of a frame
+     */
+    addFaces: (faces: Face[], timestamp: number = Date.now()): BestFrameMoment => {
+      const previous = moments.last();
+      const moment: BestFrameMoment = {
+        timestamp,
+        faces,
+        ...scoreMomentWithConfig(faces, previous?.faces, config),
+      };
+      moments.push(moment);
+      return moment;
+    },
+
+    /**
+     * Best buffered moment within [since, until] (null when there is none)
+     */
+    getBest: (since: number = 0, until: number = Infinity): BestFrameMoment | null => {
+      let best: BestFrameMoment | null = null;
+      moments.toArray().forEach((moment) => {
+        if (moment.timestamp < since || moment.timestamp > until) {
+          return;
+        }
+        if (!best || moment.score > best.score) {
+          best = moment;
+        }
+      });
+      return best;
+    },
+
+    /**
+     * Buffered moments from oldest to newest
+     */
+    getMoments: (): BestFrameMoment[] => moments.toArray(),
+
+    /**
+     * Clear the buffer
+     */
+    reset: (): void => {
+      moments.clear();
+    },
+  };
+}
@@ -1,101 +1,311 @@
-import type { Face, BlinkEvent } from '../types';
+import type { Face, BlinkEvent, BlinkKind, BlinkClassifierOptions } from '../types';
+import { withDefaults } from '../utils';
 
 /**
- * Threshold for considering an eye as closed
+ * Time after which the state of a face that left the frame is discarded
  */
-const EYE_CLOSED_THRESHOLD = 0.4;
+const STATE_EXPIRY_MS = 1000;
 
 /**
- * Threshold for considering an eye as open
+ * Fully resolved blink classifier configuration
  */
-const EYE_OPEN_THRESHOLD = 0.6;
+interface ResolvedBlinkClassifierOptions {
+  blink: Required<NonNullable<BlinkClassifierOptions['blink']>>;
+  wink: Required<NonNullable<BlinkClassifierOptions['wink']>>;
+  longBlink: Required<NonNullable<BlinkClassifierOptions['longBlink']>>;
+  eyesClosed: Required<NonNullable<BlinkClassifierOptions['eyesClosed']>>;
+  debounceMs: number;
+}
+
+/**
+ * Default blink classifier configuration
+ */
+export const DEFAULT_BLINK_CLASSIFIER_OPTIONS: ResolvedBlinkClassifierOptions = {
+  blink: {
+    closedThreshold: 0.4,
+    openThreshold: 0.6,
+    minDurationMs: 0,
+    maxDurationMs: 400,
+  },
+  wink: {
+    closedThreshold: 0.3,
+    openThreshold: 0.7,
+    minDurationMs: 100,
+    maxDurationMs: 1000,
+  },
+  longBlink: {
+    maxDurationMs: 1500,
+  },
+  eyesClosed: {
+    minDurationMs: 1500,
+  },
+  debounceMs: 300,
+};
+
+/**
+ * Which eyes are currently considered closed
+ */
+type EyePhase = 'open' | 'closed' | 'left-closed' | 'right-closed';
 
 /**
  * State for tracking blink across frames
  */
 interface BlinkState {
-  wasEyesClosed: boolean;
+  phase: EyePhase;
+  closedSince: number;
+  heldClosedReported: boolean;
   lastBlinkTimestamp: number;
+  lastSeenTimestamp: number;
 }
 
 // Global blink state per face tracking ID
 const blinkStates = new Map<number, BlinkState>();
 
 /**
- * Process faces to detect blinks
- * 
- * @param faces - Array of detected faces
- * @param lastBlinkTimestamp - Timestamp of the last detected blink
- * @param debounceMs - Minimum time between blinks in milliseconds
- * @returns BlinkEvent if a blink was detected, null otherwise
+ * Merge classifier options with the defaults
  */
-export function processBlinkFromFaces(
-  faces: Face[],
-  lastBlinkTimestamp: number,
-  debounceMs: number = 300
-): BlinkEvent | null {
+function resolveClassifierOptions(
+  options: BlinkClassifierOptions = {}
+): ResolvedBlinkClassifierOptions {
   'worklet';
+  return {
+    blink: withDefaults(DEFAULT_BLINK_CLASSIFIER_OPTIONS.blink, options.blink),
+    wink: withDefaults(DEFAULT_BLINK_CLASSIFIER_OPTIONS.wink, options.wink),
+    longBlink: withDefaults(DEFAULT_BLINK_CLASSIFIER_OPTIONS.longBlink, options.longBlink),
+    eyesClosed: withDefaults(DEFAULT_BLINK_CLASSIFIER_OPTIONS.eyesClosed, options.eyesClosed),
+    debounceMs: options.debounceMs ?? DEFAULT_BLINK_CLASSIFIER_OPTIONS.debounceMs,
+  };
+}
 
-  if (faces.length === 0) {
-    return null;
-  }
+/**
+ * Advance the eye state machine of one face and return the event kind it produced
+ */
+function advanceBlinkState(
+  state: BlinkState,
+  leftEyeOpen: number,
+  rightEyeOpen: number,
+  now: number,
+  config: ResolvedBlinkClassifierOptions
+): { kind: BlinkKind; durationMs: number } | null {
+  'worklet';
+  const { blink, wink, longBlink, eyesClosed } = config;
 
-  // Use the first face (most prominent)
-  const face = faces[0];
+  const bothClosed = leftEyeOpen < blink.closedThreshold && rightEyeOpen < blink.closedThreshold;
+  const bothOpen = leftEyeOpen > blink.openThreshold && rightEyeOpen > blink.openThreshold;
+  const leftWinking = leftEyeOpen < wink.closedThreshold && rightEyeOpen > wink.openThreshold;
+  const rightWinking = rightEyeOpen < wink.closedThreshold && leftEyeOpen > wink.openThreshold;
+  const durationMs = now - state.closedSince;
 
-  // Ensure we have eye classification data
-  if (
-    face.leftEyeOpenProbability === undefined ||
-    face.rightEyeOpenProbability === undefined
-  ) {
-    return null;
+  switch (state.phase) {
+    case 'open':
+      if (bothClosed) {
+        state.phase = 'closed';
+        state.closedSince = now;
+        state.heldClosedReported = false;
+      } else if (leftWinking) {
+        state.phase = 'left-closed';
+        state.closedSince = now;
+      } else if (rightWinking) {
+        state.phase = 'right-closed';
+        state.closedSince = now;
+      }
+      return null;
+
+    case 'closed':
+      if (bothOpen) {
+        state.phase = 'open';
+        if (state.heldClosedReported) {
+          return null;
+        }
+        if (durationMs >= blink.minDurationMs && durationMs <= blink.maxDurationMs) {
+          return { kind: 'blink', durationMs };
+        }
+        if (durationMs > blink.maxDurationMs && durationMs <= longBlink.maxDurationMs) {
+          return { kind: 'long-blink', durationMs };
+        }
+        return null;
+      }
+      if (!state.heldClosedReported && durationMs >= eyesClosed.minDurationMs) {
+        state.heldClosedReported = true;
+        return { kind: 'eyes-closed', durationMs };
+      }
+      return null;
+
+    case 'left-closed':
+    case 'right-closed': {
+      // The second eye closing shortly after the first is a blink, not a wink
+      if (bothClosed) {
+        state.phase = 'closed';
+        state.heldClosedReported = false;
+        return null;
+      }
+      const winkingEyeOpen = state.phase === 'left-closed' ? leftEyeOpen : rightEyeOpen;
+      if (winkingEyeOpen > wink.openThreshold) {
+        const kind: BlinkKind = state.phase === 'left-closed' ? 'left-wink' : 'right-wink';
+        state.phase = 'open';
+        if (durationMs >= wink.minDurationMs && durationMs <= wink.maxDurationMs) {
+          return { kind, durationMs };
+        }
+      }
+      return null;
+    }
   }
+}
 
-  const leftEyeOpen = face.leftEyeOpenProbability;
-  const rightEyeOpen = face.rightEyeOpenProbability;
-  const now = Date.now();
+/**
+ * Run the classifier over all faces in a frame using the given state map
+ */
+function classifyFaces(
+  states: Map<number, BlinkState>,
+  faces: Face[],
+  lastBlinkTimestamp: number | Record<number, number>,
+  config: ResolvedBlinkClassifierOptions,
+  now: number
+): BlinkEvent[] {
+  'worklet';
 
-  // Get or create blink state for this face
-  const faceId = face.trackingId ?? 0;
-  let state = blinkStates.get(faceId);
+  const events: BlinkEvent[] = [];
 
-  if (!state) {
-    state = {
-      wasEyesClosed: false,
-      lastBlinkTimestamp: 0,
-    };
-    blinkStates.set(faceId, state);
-  }
+  faces.forEach((face, index) => {
+    // Ensure we have eye classification data
+    if (
+      face.leftEyeOpenProbability === undefined ||
+      face.rightEyeOpenProbability === undefined
+    ) {
+      return;
+    }
 
-  // Check if eyes are currently closed
-  const eyesClosed = leftEyeOpen < EYE_CLOSED_THRESHOLD && rightEyeOpen < EYE_CLOSED_THRESHOLD;
+    const leftEyeOpen = face.leftEyeOpenProbability;
+    const rightEyeOpen = face.rightEyeOpenProbability;
 
-  // Check if eyes are currently open
-  const eyesOpen = leftEyeOpen > EYE_OPEN_THRESHOLD && rightEyeOpen > EYE_OPEN_THRESHOLD;
+    // Get or create blink state for this face
+    const faceId = face.trackingId ?? -(index + 1);
+    let state = states.get(faceId);
 
-  // Detect blink: transition from closed to open
-  const isBlink = state.wasEyesClosed && eyesOpen && (now - state.lastBlinkTimestamp) > debounceMs;
+    if (!state) {
+      state = {
+        phase: 'open',
+        closedSince: now,
+        heldClosedReported: false,
+        lastBlinkTimestamp: 0,
+        lastSeenTimestamp: now,
+      };
+      states.set(faceId, state);
+    }
+    state.lastSeenTimestamp = now;
 
-  // Update state
-  if (eyesClosed) {
-    state.wasEyesClosed = true;
-  } else if (eyesOpen) {
-    state.wasEyesClosed = false;
-  }
+    const result = advanceBlinkState(state, leftEyeOpen, rightEyeOpen, now, config);
+    if (!result) {
+      return;
+    }
+
+    // Debounce per face, except for the one-shot eyes-closed event
+    if (result.kind !== 'eyes-closed') {
+      const externalLastBlink =
+        typeof lastBlinkTimestamp === 'number'
+          ? lastBlinkTimestamp
+          : lastBlinkTimestamp[faceId] ?? 0;
+      const lastBlink = Math.max(state.lastBlinkTimestamp, externalLastBlink);
 
-  if (isBlink) {
-    state.lastBlinkTimestamp = now;
+      if (now - lastBlink <= config.debounceMs) {
+        return;
+      }
+      state.lastBlinkTimestamp = now;
+    }
 
-    return {
+    events.push({
       timestamp: now,
+      kind: result.kind,
+      durationMs: result.durationMs,
       leftEyeOpen,
       rightEyeOpen,
-      isBlink: true,
+      isBlink: result.kind === 'blink' || result.kind === 'long-blink',
       faceId: face.trackingId,
-    };
-  }
+    });
+  });
+
+  // Expire state for faces that left the frame
+  states.forEach((state, faceId) => {
+    if (now - state.lastSeenTimestamp > STATE_EXPIRY_MS) {
+      states.delete(faceId);
+    }
+  });
+
+  return events;
+}
+
+/**
+ * Process faces to detect blinks
+ *
+ * Every face in the frame is tracked separately by its `trackingId`. Faces without
+ * a tracking ID fall back to their index in the array, so enable `trackingEnabled`
+ * when more than one face is expected. State for faces that have not been seen for
+ * a while is discarded.
+ *
+ * Besides normal blinks, the classifier reports left/right winks, long blinks and
+ * eyes held closed. See `BlinkClassifierOptions` for the thresholds of each kind.
+ *
+ * @param faces - Array of detected faces
+ * @param lastBlinkTimestamp - Timestamp of the last detected blink, either shared by
+ *   all faces or per face keyed by tracking ID
+ * @param debounceMs - Minimum time between blinks of the same face in milliseconds
+ *   (defaults to `options.debounceMs`, then 300)
+ * @param options - Blink classifier configuration
+ * @returns One BlinkEvent per face that produced an event in this frame (empty if none)
+ */
+export function processBlinkFromFaces(
+  faces: Face[],
+  lastBlinkTimestamp: number | Record<number, number> = 0,
+  debounceMs?: number,
+  options?: BlinkClassifierOptions
+): BlinkEvent[] {
+  'worklet';
+  const config = resolveClassifierOptions({
+    ...options,
+    debounceMs: debounceMs ?? options?.debounceMs,
+  });
+  return classifyFaces(blinkStates, faces, lastBlinkTimestamp, config, Date.now());
+}
 
-  return null;
+/**
+ * Creates a blink classifier with its own per-face state
+ *
+ * Use this instead of `processBlinkFromFaces` when several consumers classify
+ * the same faces independently and must not share state. `process` takes the
+ * frame timestamp, so replayed or batched faces are timed like live ones.
+ *
+ * @param options - Blink classifier configuration
+ * @returns Object with process and reset functions
+ *
+ * @example
+ * ```ts
+ * const classifier = createBlinkClassifier({
+ *   blink: { maxDurationMs: 300 },
+ *   eyesClosed: { minDurationMs: 2000 },
+ * });
+ *
+ * const events = classifier.process(faces);
+ * events.forEach((event) => {
+ *   if (event.kind === 'left-wink') {
+ *     // ...
+ *   }
+ * });
+ * ```
+ */
+export function createBlinkClassifier(options?: BlinkClassifierOptions) {
+  const states = new Map<number, BlinkState>();
+  const config = resolveClassifierOptions(options);
+
+  return {
+    process: (faces: Face[], timestamp: number = Date.now()): BlinkEvent[] => {
+      'worklet';
+      return classifyFaces(states, faces, 0, config, timestamp);
+    },
+    reset: (): void => {
+      'worklet';
+      states.clear();
+    },
+  };
 }
 
 /**
@@ -124,4 +334,3 @@ export function getEyeState(face: Face): { leftOpen: number; rightOpen: number }
     rightOpen: face.rightEyeOpenProbability,
   };
 }
-
@@ -0,0 +1,181 @@
+import type {
+  DetectionOptionWarning,
+  DetectionPresetName,
+  DetectionPresetOptions,
+  FaceDetectionOptions,
+  ResolvedDetectionOptions,
+} from '../types';
+
+/**
+ * Face detection defaults (the documented defaults of `FaceDetectionOptions`)
+ */
+export const DEFAULT_FACE_DETECTION_OPTIONS: Required<FaceDetectionOptions> = {
+  performanceMode: 'fast',
+  landmarkMode: 'none',
+  contourMode: 'none',
+  classificationMode: 'none',
+  minFaceSize: 0.15,
+  trackingEnabled: false,
+};
+
+/**
+ * Face detection presets
+ */
+export const DETECTION_PRESETS: Record<DetectionPresetName, Required<FaceDetectionOptions>> = {
+  blink: {
+    performanceMode: 'fast',
+    landmarkMode: 'none',
+    contourMode: 'none',
+    classificationMode: 'all',
+    minFaceSize: 0.15,
+    trackingEnabled: true,
+  },
+  'kyc-capture': {
+    performanceMode: 'accurate',
+    landmarkMode: 'all',
+    contourMode: 'none',
+    classificationMode: 'all',
+    minFaceSize: 0.3,
+    trackingEnabled: false,
+  },
+  'multi-face-tracking': {
+    performanceMode: 'fast',
+    landmarkMode: 'none',
+    contourMode: 'none',
+    classificationMode: 'none',
+    minFaceSize: 0.1,
+    trackingEnabled: true,
+  },
+  'overlay-contours': {
+    performanceMode: 'fast',
+    landmarkMode: 'all',
+    contourMode: 'all',
+    classificationMode: 'none',
+    minFaceSize: 0.2,
+    trackingEnabled: false,
+  },
+  'low-power': {
+    performanceMode: 'fast',
+    landmarkMode: 'none',
+    contourMode: 'none',
+    classificationMode: 'none',
+    minFaceSize: 0.25,
+    trackingEnabled: false,
+  },
+};
+
+/**
+ * Options each preset exists for; overriding them defeats the preset
+ */
+const PRESET_CAPABILITIES: Record<DetectionPresetName, (keyof FaceDetectionOptions)[]> = {
+  blink: ['classificationMode'],
+  'kyc-capture': ['landmarkMode', 'classificationMode'],
+  'multi-face-tracking': ['trackingEnabled'],
+  'overlay-contours': ['contourMode'],
+  'low-power': [],
+};
+
+const OPTION_KEYS = Object.keys(DEFAULT_FACE_DETECTION_OPTIONS) as (keyof FaceDetectionOptions)[];
+
+/**
+ * Resolve face detection options from a preset and overrides
+ *
+ * Explicit options override the preset. Conflicting combinations are reported
+ * as structured warnings instead of strings:
+ * - `contourMode: 'all'` with `trackingEnabled`: when one of them only comes from
+ *   the preset, the preset value is turned off in favor of the explicit option
+ * - Overrides that disable what the preset exists for (e.g. no classification for 'blink')
+ * - `minFaceSize` outside 0-1 is clamped
+ *
+ * @param options - Preset name and overrides
+ * @returns Effective options, the preset used and warnings
+ *
+ * @example
+ * ```ts
+ * const { options, warnings } = resolveDetectionOptions({
+ *   preset: 'multi-face-tracking',
+ *   contourMode: 'all',
+ * });
+ * // options.trackingEnabled === false, warnings[0].code === 'CONTOURS_WITH_TRACKING'
+ * ```
+ */
+export function resolveDetectionOptions(
+  options: DetectionPresetOptions = {}
+): ResolvedDetectionOptions {
+  const { preset: presetName, ...overrides } = options;
+  const warnings: DetectionOptionWarning[] = [];
+
+  let preset: DetectionPresetName | null = null;
+  if (presetName !== undefined) {
+    if (Object.prototype.hasOwnProperty.call(DETECTION_PRESETS, presetName)) {
+      preset = presetName;
+    } else {
+      warnings.push({
+        code: 'UNKNOWN_PRESET',
+        path: 'preset',
+        message: `Unknown detection preset "${String(presetName)}" was ignored`,
+      });
+    }
+  }
+
+  const base = preset ? DETECTION_PRESETS[preset] : DEFAULT_FACE_DETECTION_OPTIONS;
+  const resolved: Required<FaceDetectionOptions> = { ...base };
+  const explicit: Partial<Record<keyof FaceDetectionOptions, boolean>> = {};
+  OPTION_KEYS.forEach((key) => {
+    const value = overrides[key];
+    if (value !== undefined) {
+      (resolved as Record<string, unknown>)[key] = value;
+      explicit[key] = true;
+    }
+  });
+
+  if (preset) {
+    PRESET_CAPABILITIES[preset].forEach((key) => {
+      if (explicit[key] && resolved[key] !== DETECTION_PRESETS[preset][key]) {
+        warnings.push({
+          code: 'PRESET_CAPABILITY_DISABLED',
+          path: key,
+          message: `${key}: ${String(resolved[key])} overrides what the "${preset}" preset is for`,
+        });
+      }
+    });
+  }
+
+  if (resolved.contourMode === 'all' && resolved.trackingEnabled) {
+    if (explicit.contourMode && !explicit.trackingEnabled) {
+      resolved.trackingEnabled = false;
+      warnings.push({
+        code: 'CONTOURS_WITH_TRACKING',
+        path: 'trackingEnabled',
+        message:
+          'Contours are detected for one face only, so tracking from the preset was disabled',
+      });
+    } else if (explicit.trackingEnabled && !explicit.contourMode) {
+      resolved.contourMode = 'none';
+      warnings.push({
+        code: 'CONTOURS_WITH_TRACKING',
+        path: 'contourMode',
+        message: 'Tracking needs every face, so contours from the preset were disabled',
+      });
+    } else {
+      warnings.push({
+        code: 'CONTOURS_WITH_TRACKING',
+        path: 'trackingEnabled',
+        message:
+          "contourMode: 'all' detects only the most prominent face, so trackingEnabled has no useful effect",
+      });
+    }
+  }
+
+  if (resolved.minFaceSize < 0 || resolved.minFaceSize > 1) {
+    const clamped = Math.min(1, Math.max(0, resolved.minFaceSize));
+    warnings.push({
+      code: 'MIN_FACE_SIZE_OUT_OF_RANGE',
+      path: 'minFaceSize',
+      message: `minFaceSize ${resolved.minFaceSize} is outside 0-1 and was clamped to ${clamped}`,
+    });
+    resolved.minFaceSize = clamped;
+  }
+
+  return { options: resolved, preset, warnings };
+}
@@ -0,0 +1,275 @@
+import type {
+  DetectionSchedulerOptions,
+  DetectionSchedulerState,
+  Face,
+  SceneActivity,
+} from '../types';
+import { withDefaults, type PerformanceMonitor } from '../utils';
+
+/**
+ * Default detection scheduler configuration
+ */
+export const DEFAULT_DETECTION_SCHEDULER_OPTIONS: Required<DetectionSchedulerOptions> = {
+  minFps: 2,
+  maxFps: 30,
+  staticFps: 10,
+  emptyFps: 4,
+  cpuBudget: 0.5,
+  maxLatencyMs: 50,
+  motionThreshold: 0.3,
+  settleMs: 500,
+  costSmoothing: 0.2,
+};
+
+/**
+ * Position of a face at the last detection
+ */
+interface FacePosition {
+  x: number;
+  y: number;
+  width: number;
+}
+
+/**
+ * Share of the frame interval tolerated as camera timing jitter
+ */
+const INTERVAL_TOLERANCE = 0.9;
+
+/**
+ * Key of a face for motion estimation
+ */
+function faceKey(face: Face, index: number): string {
+  'worklet';
+  return face.trackingId !== undefined ? `id:${face.trackingId}` : `index:${index}`;
+}
+
+/**
+ * Creates an adaptive scheduler deciding which frames run face detection
+ *
+ * The detection rate follows the scene: `maxFps` while faces move, appear or
+ * disappear, `staticFps` while they are still and `emptyFps` without faces.
+ * It is then capped by the measured detection cost, so detection uses at most
+ * `cpuBudget` of the time and is slowed down further when a call takes longer
+ * than `maxLatencyMs`. The result is clamped to `minFps`..`maxFps`.
+ *
+ * Pass a monitor from `createPerformanceMonitor` to record every detection,
+ * every skipped frame and every change of the target rate. All functions are
+ * worklets.
+ *
+ * @param options - Scheduler configuration
+ * @param monitor - Optional performance monitor to report decisions to
+ * @returns Object with shouldDetect, report, run, getState and reset functions
+ *
+ * @example
+ * ```ts
+ * const scheduler = createDetectionScheduler({ maxFps: 30, cpuBudget: 0.4 });
+ *
+ * const frameProcessor = useFrameProcessor((frame) => {
+ *   'worklet';
+ *   const faces = scheduler.run(() => detectFaces(frame));
+ *   if (faces) {
+ *     handleFaces(faces);
+ *   }
+ * }, [scheduler, handleFaces]);
+ * ```
+ */
+export function createDetectionScheduler(
+  options: DetectionSchedulerOptions = {},
+  monitor?: PerformanceMonitor
+) {
+  const config = withDefaults(DEFAULT_DETECTION_SCHEDULER_OPTIONS, options);
+  const maxFps = Math.max(config.maxFps, config.minFps);
+
+  const state = {
+    lastDetectionAt: -Infinity,
+    lastReportAt: -Infinity,
+    lastMotionAt: -Infinity,
+    averageCostMs: 0,
+    detectedFrames: 0,
+    skippedFrames: 0,
+    activity: 'empty' as SceneActivity,
+    activityFps: maxFps,
+    budgetFps: maxFps,
+    targetFps: maxFps,
+  };
+  const positions: Record<string, FacePosition> = {};
+  monitor?.setTargetFps(maxFps);
+
+  const clampFps = (fps: number): number => {
+    'worklet';
+    return Math.min(maxFps, Math.max(config.minFps, fps));
+  };
+
+  /**
+   * Whether any face moved, appeared or disappeared since the last detection
+   */
+  const detectMotion = (faces: Face[], timestamp: number): boolean => {
+    'worklet';
+    const dt = (timestamp - state.lastReportAt) / 1000;
+    const previousKeys = Object.keys(positions);
+    let moved = faces.length !== previousKeys.length;
+
+    const seen: Record<string, boolean> = {};
+    faces.forEach((face, index) => {
+      const key = faceKey(face, index);
+      const current: FacePosition = {
+        x: face.bounds.x + face.bounds.width / 2,
+        y: face.bounds.y + face.bounds.height / 2,
+        width: face.bounds.width,
+      };
+      const previous = positions[key];
+
+      if (!previous) {
+        moved = true;
+      } else if (dt > 0 && previous.width > 0) {
+        const dx = current.x - previous.x;
+        const dy = current.y - previous.y;
+        const speed = Math.sqrt(dx * dx + dy * dy) / previous.width / dt;
+        const sizeSpeed = Math.abs(current.width - previous.width) / previous.width / dt;
+        if (speed > config.motionThreshold || sizeSpeed > config.motionThreshold) {
+          moved = true;
+        }
+      }
+
+      positions[key] = current;
+      seen[key] = true;
+    });
+
+    previousKeys.forEach((key) => {
+      if (!seen[key]) {
+        delete positions[key];
+      }
+    });
+
+    return moved;
+  };
+
+  const updateTarget = (): void => {
+    'worklet';
+    const cost = state.averageCostMs;
+    let budgetFps = maxFps;
+    if (cost > 0) {
+      budgetFps = (config.cpuBudget * 1000) / cost;
+      if (cost > config.maxLatencyMs) {
+        budgetFps *= config.maxLatencyMs / cost;
+      }
+    }
+
+    const activityFps =
+      state.activity === 'moving'
+        ? maxFps
+        : state.activity === 'static'
+          ? config.staticFps
+          : config.emptyFps;
+
+    const targetFps = clampFps(Math.min(activityFps, budgetFps));
+    state.activityFps = activityFps;
+    state.budgetFps = budgetFps;
+
+    if (targetFps !== state.targetFps) {
+      state.targetFps = targetFps;
+      monitor?.setTargetFps(targetFps);
+    }
+  };
+
+  const shouldDetect = (timestamp: number = Date.now()): boolean => {
+    'worklet';
+    if (timestamp - state.lastDetectionAt >= (1000 / state.targetFps) * INTERVAL_TOLERANCE) {
+      state.lastDetectionAt = timestamp;
+      return true;
+    }
+    state.skippedFrames++;
+    monitor?.skipFrame();
+    return false;
+  };
+
+  const report = (faces: Face[], costMs: number, timestamp: number = Date.now()): void => {
+    'worklet';
+    const cost = Math.max(0, costMs);
+    state.averageCostMs =
+      state.detectedFrames === 0
+        ? cost
+        : state.averageCostMs + config.costSmoothing * (cost - state.averageCostMs);
+    state.detectedFrames++;
+
+    if (detectMotion(faces, timestamp)) {
+      state.lastMotionAt = timestamp;
+    }
+    state.lastReportAt = timestamp;
+
+    state.activity =
+      timestamp - state.lastMotionAt < config.settleMs
+        ? 'moving'
+        : faces.length > 0
+          ? 'static'
+          : 'empty';
+
+    updateTarget();
+    monitor?.endFrame(Date.now() - cost);
+  };
+
+  return {
+    /**
+     * Whether this frame should run detection (counts a skipped frame otherwise)
+     */
+    shouldDetect,
+
+    /**
+     * Report the faces and the detection time of a frame that ran detection
+     */
+    report,
+
+    /**
+     * Run `detect` when this frame is due, measuring its cost
+     *
+     * @returns The detected faces, or null when the frame was skipped
+     */
+    run: (detect: () => Face[], timestamp: number = Date.now()): Face[] | null => {
+      'worklet';
+      if (!shouldDetect(timestamp)) {
+        return null;
+      }
+      const start = Date.now();
+      const faces = detect();
+      report(faces, Date.now() - start, timestamp);
+      return faces;
+    },
+
+    /**
+     * Current decision and counters
+     */
+    getState: (): DetectionSchedulerState => {
+      'worklet';
+      return {
+        targetFps: state.targetFps,
+        activityFps: state.activityFps,
+        budgetFps: state.budgetFps,
+        activity: state.activity,
+        averageCostMs: state.averageCostMs,
+        detectedFrames: state.detectedFrames,
+        skippedFrames: state.skippedFrames,
+      };
+    },
+
+    /**
+     * Forget measurements and motion, starting again at `maxFps`
+     */
+    reset: (): void => {
+      'worklet';
+      state.lastDetectionAt = -Infinity;
+      state.lastReportAt = -Infinity;
+      state.lastMotionAt = -Infinity;
+      state.averageCostMs = 0;
+      state.detectedFrames = 0;
+      state.skippedFrames = 0;
+      state.activity = 'empty';
+      state.activityFps = maxFps;
+      state.budgetFps = maxFps;
+      state.targetFps = maxFps;
+      Object.keys(positions).forEach((key) => {
+        delete positions[key];
+      });
+      monitor?.setTargetFps(maxFps);
+    },
+  };
+}
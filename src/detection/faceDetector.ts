@@ -1,5 +1,6 @@
 import { VisionCameraProxy, type Frame } from 'react-native-vision-camera';
-import type { Face, FrameProcessorOptions } from '../types';
+import { normalizeFaces } from './faceNormalizer';
+import type { Face, FaceSchemaIssue, FrameProcessorOptions, SmartCameraError } from '../types';
 
 /**
  * Initialize the face detector frame processor plugin
@@ -24,19 +25,56 @@ const DEFAULT_OPTIONS: FrameProcessorOptions = {
 };
 
 /**
- * Detect faces in a camera frame
- * 
+ * Minimum time between two schema warnings in milliseconds
+ */
+const SCHEMA_WARNING_INTERVAL_MS = 5000;
+
+/**
+ * Time of the last schema warning
+ */
+const schemaWarningState = { lastWarnedAt: 0 };
+
+/**
+ * Outcome of a detection attempt
+ */
+export interface FaceDetectionAttempt {
+  /** Detected faces (empty when the attempt failed) */
+  faces: Face[];
+  /** Why the attempt failed, or null on success */
+  error: Pick<SmartCameraError, 'code' | 'message'> | null;
+  /** Problems found in the native output (see normalizeFaces) */
+  issues: FaceSchemaIssue[];
+}
+
+/**
+ * Detect faces in a camera frame and report failures
+ *
+ * Unlike `detectFaces`, a missing native plugin, a failing plugin call or an
+ * ML Kit error reported by the plugin is returned as an `ML_KIT_ERROR` instead of
+ * looking like a frame without faces.
+ * Pass the attempt to `reportAttempt` of `useDetectorHealth` to surface
+ * failures on the JS thread.
+ *
  * @param frame - The camera frame from VisionCamera
  * @param options - Face detection options
- * @returns Array of detected faces
+ * @returns Detected faces, error and schema issues
  */
-export function detectFaces(frame: Frame, options?: Partial<FrameProcessorOptions>): Face[] {
+export function tryDetectFaces(
+  frame: Frame,
+  options?: Partial<FrameProcessorOptions>
+): FaceDetectionAttempt {
   'worklet';
 
   if (plugin == null) {
-    // Plugin not available - return empty array
     // This can happen if the native module is not properly linked
-    return [];
+    return {
+      faces: [],
+      error: {
+        code: 'ML_KIT_ERROR',
+        message: 'Face detector frame processor plugin is not available',
+      },
+      issues: [],
+    };
   }
 
   const mergedOptions: FrameProcessorOptions = {
@@ -44,27 +82,82 @@ export function detectFaces(frame: Frame, options?: Partial<FrameProcessorOption
     ...options,
   };
 
+  // Convert options to a format compatible with VisionCamera plugin API
+  const pluginOptions: Record<string, string | number | boolean | undefined> = {
+    performanceMode: mergedOptions.performanceMode,
+    landmarkMode: mergedOptions.landmarkMode,
+    contourMode: mergedOptions.contourMode,
+    classificationMode: mergedOptions.classificationMode,
+    minFaceSize: mergedOptions.minFaceSize,
+    trackingEnabled: mergedOptions.trackingEnabled,
+    cameraFacing: mergedOptions.cameraFacing,
+    autoMode: mergedOptions.autoMode,
+    windowWidth: mergedOptions.windowWidth,
+    windowHeight: mergedOptions.windowHeight,
+  };
+
+  let result: unknown;
   try {
-    // Convert options to a format compatible with VisionCamera plugin API
-    const pluginOptions: Record<string, string | number | boolean | undefined> = {
-      performanceMode: mergedOptions.performanceMode,
-      landmarkMode: mergedOptions.landmarkMode,
-      contourMode: mergedOptions.contourMode,
-      classificationMode: mergedOptions.classificationMode,
-      minFaceSize: mergedOptions.minFaceSize,
-      trackingEnabled: mergedOptions.trackingEnabled,
-      cameraFacing: mergedOptions.cameraFacing,
-      autoMode: mergedOptions.autoMode,
-      windowWidth: mergedOptions.windowWidth,
-      windowHeight: mergedOptions.windowHeight,
-    };
-    
-    const result = plugin.call(frame, pluginOptions) as Face[] | null | undefined;
-    return result ?? [];
+    result = plugin.call(frame, pluginOptions);
   } catch (error) {
-    // Return empty array on error in worklet context
-    return [];
+    return {
+      faces: [],
+      error: {
+        code: 'ML_KIT_ERROR',
+        message: `Face detection failed: ${error instanceof Error ? error.message : String(error)}`,
+      },
+      issues: [],
+    };
   }
+
+  // The native plugins return { error } instead of faces when ML Kit fails
+  if (
+    result !== null &&
+    typeof result === 'object' &&
+    !Array.isArray(result) &&
+    typeof (result as { error?: unknown }).error === 'string'
+  ) {
+    return {
+      faces: [],
+      error: {
+        code: 'ML_KIT_ERROR',
+        message: `Face detection failed: ${(result as { error: string }).error}`,
+      },
+      issues: [],
+    };
+  }
+
+  const { faces, issues } = normalizeFaces(result);
+
+  if (__DEV__ && issues.length > 0) {
+    const now = Date.now();
+    if (now - schemaWarningState.lastWarnedAt >= SCHEMA_WARNING_INTERVAL_MS) {
+      schemaWarningState.lastWarnedAt = now;
+      console.warn(
+        `[SmartCamera] Native face detector output does not match the Face schema: ${issues
+          .slice(0, 5)
+          .map((issue) => `${issue.path} ${issue.message}`)
+          .join('; ')}`
+      );
+    }
+  }
+
+  return { faces, error: null, issues };
+}
+
+/**
+ * Detect faces in a camera frame
+ *
+ * Failures return an empty array; use `tryDetectFaces` (or the `onError` option of
+ * `useFaceDetector`) to tell them apart from frames without faces.
+ * 
+ * @param frame - The camera frame from VisionCamera
+ * @param options - Face detection options
+ * @returns Array of detected faces
+ */
+export function detectFaces(frame: Frame, options?: Partial<FrameProcessorOptions>): Face[] {
+  'worklet';
+  return tryDetectFaces(frame, options).faces;
 }
 
 /**
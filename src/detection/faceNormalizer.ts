@@ -0,0 +1,284 @@
+import type {
+  Bounds,
+  ContourType,
+  Face,
+  FaceContours,
+  FaceLandmarks,
+  FaceSchemaIssue,
+  Point,
+} from '../types';
+
+/**
+ * Landmark keys of the public `FaceLandmarks` type
+ */
+const LANDMARK_KEYS: (keyof FaceLandmarks)[] = [
+  'leftEye',
+  'rightEye',
+  'leftEar',
+  'rightEar',
+  'leftCheek',
+  'rightCheek',
+  'noseBase',
+  'leftMouth',
+  'rightMouth',
+  'bottomMouth',
+];
+
+/**
+ * Platform landmark keys that differ from the public ones (both native plugins use ML Kit's names)
+ */
+const LANDMARK_ALIASES: Record<string, keyof FaceLandmarks> = {
+  mouthLeft: 'leftMouth',
+  mouthRight: 'rightMouth',
+  mouthBottom: 'bottomMouth',
+};
+
+/**
+ * Contour keys of the public `FaceContours` type
+ */
+const CONTOUR_KEYS: ContourType[] = [
+  'face',
+  'leftEyebrowTop',
+  'leftEyebrowBottom',
+  'rightEyebrowTop',
+  'rightEyebrowBottom',
+  'leftEye',
+  'rightEye',
+  'upperLipTop',
+  'upperLipBottom',
+  'lowerLipTop',
+  'lowerLipBottom',
+  'noseBridge',
+  'noseBottom',
+  'leftCheek',
+  'rightCheek',
+];
+
+/**
+ * Result of normalizeFaces
+ */
+export interface NormalizeFacesResult {
+  /** Faces matching the public `Face` type */
+  faces: Face[];
+  /** Problems found in the native output (malformed values are dropped) */
+  issues: FaceSchemaIssue[];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  'worklet';
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  'worklet';
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function toPoint(value: unknown): Point | null {
+  'worklet';
+  if (!isRecord(value) || !isFiniteNumber(value.x) || !isFiniteNumber(value.y)) {
+    return null;
+  }
+  return { x: value.x, y: value.y };
+}
+
+function toBounds(value: unknown): Bounds | null {
+  'worklet';
+  if (
+    !isRecord(value) ||
+    !isFiniteNumber(value.x) ||
+    !isFiniteNumber(value.y) ||
+    !isFiniteNumber(value.width) ||
+    !isFiniteNumber(value.height) ||
+    value.width < 0 ||
+    value.height < 0
+  ) {
+    return null;
+  }
+  return { x: value.x, y: value.y, width: value.width, height: value.height };
+}
+
+function normalizeLandmarks(
+  value: unknown,
+  path: string,
+  issues: FaceSchemaIssue[]
+): FaceLandmarks | undefined {
+  'worklet';
+  if (!isRecord(value)) {
+    issues.push({ path, message: 'Expected an object of landmarks' });
+    return undefined;
+  }
+
+  const landmarks: FaceLandmarks = {};
+  Object.keys(value).forEach((rawKey) => {
+    const key =
+      LANDMARK_ALIASES[rawKey] ??
+      (LANDMARK_KEYS.indexOf(rawKey as keyof FaceLandmarks) >= 0
+        ? (rawKey as keyof FaceLandmarks)
+        : undefined);
+    if (!key) {
+      issues.push({ path: `${path}.${rawKey}`, message: 'Unknown landmark' });
+      return;
+    }
+    const point = toPoint(value[rawKey]);
+    if (!point) {
+      issues.push({ path: `${path}.${rawKey}`, message: 'Expected a point with finite x and y' });
+      return;
+    }
+    landmarks[key] = point;
+  });
+  return landmarks;
+}
+
+function normalizeContours(
+  value: unknown,
+  path: string,
+  issues: FaceSchemaIssue[]
+): FaceContours | undefined {
+  'worklet';
+  if (!isRecord(value)) {
+    issues.push({ path, message: 'Expected an object of contours' });
+    return undefined;
+  }
+
+  const contours: FaceContours = {};
+  Object.keys(value).forEach((rawKey) => {
+    if (CONTOUR_KEYS.indexOf(rawKey as ContourType) < 0) {
+      issues.push({ path: `${path}.${rawKey}`, message: 'Unknown contour type' });
+      return;
+    }
+    const rawPoints = value[rawKey];
+    if (!Array.isArray(rawPoints)) {
+      issues.push({ path: `${path}.${rawKey}`, message: 'Expected an array of points' });
+      return;
+    }
+    const points: Point[] = [];
+    rawPoints.forEach((rawPoint, index) => {
+      const point = toPoint(rawPoint);
+      if (point) {
+        points.push(point);
+      } else {
+        issues.push({
+          path: `${path}.${rawKey}[${index}]`,
+          message: 'Expected a point with finite x and y',
+        });
+      }
+    });
+    contours[rawKey as ContourType] = points;
+  });
+  return contours;
+}
+
+/**
+ * Normalize one native face, or return null when it can't be used
+ */
+function normalizeFace(
+  value: unknown,
+  path: string,
+  issues: FaceSchemaIssue[]
+): Face | null {
+  'worklet';
+  if (!isRecord(value)) {
+    issues.push({ path, message: 'Expected a face object' });
+    return null;
+  }
+
+  const bounds = toBounds(value.bounds);
+  if (!bounds) {
+    issues.push({
+      path: `${path}.bounds`,
+      message: 'Expected bounds with finite x, y and non-negative width and height',
+    });
+    return null;
+  }
+
+  const face: Face = { bounds };
+
+  const angle = (key: 'rollAngle' | 'pitchAngle' | 'yawAngle') => {
+    const raw = value[key];
+    if (raw === undefined || raw === null) {
+      return;
+    }
+    if (!isFiniteNumber(raw)) {
+      issues.push({ path: `${path}.${key}`, message: 'Expected a finite angle in degrees' });
+      return;
+    }
+    face[key] = raw;
+  };
+  angle('rollAngle');
+  angle('pitchAngle');
+  angle('yawAngle');
+
+  const probability = (
+    key: 'smilingProbability' | 'leftEyeOpenProbability' | 'rightEyeOpenProbability'
+  ) => {
+    const raw = value[key];
+    if (raw === undefined || raw === null) {
+      return;
+    }
+    if (!isFiniteNumber(raw) || raw < 0 || raw > 1) {
+      issues.push({ path: `${path}.${key}`, message: 'Expected a probability between 0 and 1' });
+      return;
+    }
+    face[key] = raw;
+  };
+  probability('smilingProbability');
+  probability('leftEyeOpenProbability');
+  probability('rightEyeOpenProbability');
+
+  if (value.trackingId !== undefined && value.trackingId !== null) {
+    if (isFiniteNumber(value.trackingId) && Number.isInteger(value.trackingId)) {
+      face.trackingId = value.trackingId;
+    } else {
+      issues.push({ path: `${path}.trackingId`, message: 'Expected an integer tracking ID' });
+    }
+  }
+
+  if (value.landmarks !== undefined && value.landmarks !== null) {
+    face.landmarks = normalizeLandmarks(value.landmarks, `${path}.landmarks`, issues);
+  }
+
+  if (value.contours !== undefined && value.contours !== null) {
+    face.contours = normalizeContours(value.contours, `${path}.contours`, issues);
+  }
+
+  return face;
+}
+
+/**
+ * Validate native plugin output and convert it to the public `Face` type
+ *
+ * - Faces without valid bounds are dropped
+ * - Malformed optional values (angles, probabilities, points) are dropped
+ * - Platform landmark keys (`mouthLeft`, `mouthRight`, `mouthBottom`) are renamed
+ *
+ * Every dropped or unknown value is reported as an issue instead of being passed through.
+ *
+ * Angles are passed through unchanged, so their sign does not depend on `autoMode`
+ * mirroring the coordinates.
+ *
+ * @param raw - Output of the native `detectFaces` plugin
+ * @returns Normalized faces and schema issues
+ */
+export function normalizeFaces(raw: unknown): NormalizeFacesResult {
+  'worklet';
+  const issues: FaceSchemaIssue[] = [];
+
+  if (raw === null || raw === undefined) {
+    return { faces: [], issues };
+  }
+  if (!Array.isArray(raw)) {
+    issues.push({ path: '', message: 'Expected an array of faces' });
+    return { faces: [], issues };
+  }
+
+  const faces: Face[] = [];
+  raw.forEach((value, index) => {
+    const face = normalizeFace(value, `[${index}]`, issues);
+    if (face) {
+      faces.push(face);
+    }
+  });
+
+  return { faces, issues };
+}
@@ -0,0 +1,237 @@
+import type { Face, FaceContours, FaceLandmarks, FacePredictorOptions, Point } from '../types';
+import { withDefaults } from '../utils';
+
+/**
+ * Default face predictor configuration
+ */
+export const DEFAULT_FACE_PREDICTOR_OPTIONS: Required<FacePredictorOptions> = {
+  maxPredictionMs: 300,
+  velocitySmoothing: 0.6,
+  stateExpiryMs: 500,
+  predictLandmarks: true,
+  predictContours: true,
+};
+
+/**
+ * Position and velocity of one coordinate
+ */
+interface ChannelState {
+  /** Last detected value */
+  value: number;
+  /** Smoothed rate of change per millisecond */
+  velocity: number;
+}
+
+/**
+ * Motion state of one face
+ */
+interface FaceMotionState {
+  /** Last detected face */
+  face: Face;
+  /** Time of the last detection */
+  timestamp: number;
+  channels: Record<string, ChannelState>;
+}
+
+/**
+ * Update one channel with a new detection
+ */
+function updateChannel(
+  channels: Record<string, ChannelState>,
+  key: string,
+  value: number,
+  dt: number,
+  smoothing: number
+): void {
+  'worklet';
+  const state = channels[key];
+  if (!state || dt <= 0) {
+    channels[key] = { value, velocity: state && dt <= 0 ? state.velocity : 0 };
+    return;
+  }
+  const velocity = (value - state.value) / dt;
+  state.velocity += smoothing * (velocity - state.velocity);
+  state.value = value;
+}
+
+/**
+ * Extrapolate one channel (falls back to the given value for unknown channels)
+ */
+function extrapolate(
+  channels: Record<string, ChannelState>,
+  key: string,
+  fallback: number,
+  dt: number
+): number {
+  'worklet';
+  const state = channels[key];
+  return state ? state.value + state.velocity * dt : fallback;
+}
+
+/**
+ * Creates a predictor that fills the frames between detections
+ *
+ * `update` records detected faces per `trackingId` (or index) and estimates the
+ * velocity of their bounds and landmarks. `predict` extrapolates them to a later
+ * time and returns faces marked `predicted: true`, so overlays can update at the
+ * camera frame rate while detection runs at a fraction of it. Contours are moved
+ * with the predicted bounds; angles and probabilities keep their detected values.
+ *
+ * Extrapolation stops after `maxPredictionMs` (the face is held there). Faces missing
+ * from a detection are dropped, and all faces are dropped `stateExpiryMs` after
+ * their last detection. All functions are worklets.
+ *
+ * @param options - Face predictor configuration
+ * @returns Object with update, predict and reset functions
+ *
+ * @example
+ * ```ts
+ * const scheduler = createDetectionScheduler({ maxFps: 30 });
+ * const predictor = createFacePredictor();
+ *
+ * const frameProcessor = useFrameProcessor((frame) => {
+ *   'worklet';
+ *   const detected = scheduler.run(() => detectFaces(frame, { trackingEnabled: true }));
+ *   const faces = detected ? predictor.update(detected) : predictor.predict();
+ *   drawOverlay(faces);
+ * }, [scheduler, predictor]);
+ * ```
+ */
+export function createFacePredictor(options: FacePredictorOptions = {}) {
+  const config = withDefaults(DEFAULT_FACE_PREDICTOR_OPTIONS, options);
+  const states: Record<string, FaceMotionState> = {};
+
+  const dropExpired = (timestamp: number): void => {
+    'worklet';
+    Object.keys(states).forEach((key) => {
+      if (timestamp - states[key].timestamp > config.stateExpiryMs) {
+        delete states[key];
+      }
+    });
+  };
+
+  const updateFace = (face: Face, key: string, timestamp: number): void => {
+    'worklet';
+    let state: FaceMotionState | undefined = states[key];
+    if (!state) {
+      state = { face, timestamp, channels: {} };
+      states[key] = state;
+    }
+
+    const dt = timestamp - state.timestamp;
+    const { channels } = state;
+    const smoothing = config.velocitySmoothing;
+    updateChannel(channels, 'bounds.x', face.bounds.x, dt, smoothing);
+    updateChannel(channels, 'bounds.y', face.bounds.y, dt, smoothing);
+    updateChannel(channels, 'bounds.width', face.bounds.width, dt, smoothing);
+    updateChannel(channels, 'bounds.height', face.bounds.height, dt, smoothing);
+
+    if (config.predictLandmarks && face.landmarks) {
+      (Object.keys(face.landmarks) as (keyof FaceLandmarks)[]).forEach((name) => {
+        const point = face.landmarks?.[name];
+        if (point) {
+          updateChannel(channels, `landmark.${name}.x`, point.x, dt, smoothing);
+          updateChannel(channels, `landmark.${name}.y`, point.y, dt, smoothing);
+        }
+      });
+    }
+
+    state.face = face;
+    state.timestamp = timestamp;
+  };
+
+  const predictFace = (state: FaceMotionState, timestamp: number): Face => {
+    'worklet';
+    const { face, channels } = state;
+    const dt = Math.min(Math.max(timestamp - state.timestamp, 0), config.maxPredictionMs);
+
+    const bounds = {
+      x: extrapolate(channels, 'bounds.x', face.bounds.x, dt),
+      y: extrapolate(channels, 'bounds.y', face.bounds.y, dt),
+      width: Math.max(0, extrapolate(channels, 'bounds.width', face.bounds.width, dt)),
+      height: Math.max(0, extrapolate(channels, 'bounds.height', face.bounds.height, dt)),
+    };
+    const predicted: Face = { ...face, bounds, predicted: true };
+
+    if (config.predictLandmarks && face.landmarks) {
+      const landmarks: FaceLandmarks = {};
+      (Object.keys(face.landmarks) as (keyof FaceLandmarks)[]).forEach((name) => {
+        const point = face.landmarks?.[name];
+        if (point) {
+          landmarks[name] = {
+            x: extrapolate(channels, `landmark.${name}.x`, point.x, dt),
+            y: extrapolate(channels, `landmark.${name}.y`, point.y, dt),
+          };
+        }
+      });
+      predicted.landmarks = landmarks;
+    }
+
+    if (config.predictContours && face.contours) {
+      // Move and scale the contours with the bounds
+      const scaleX = face.bounds.width > 0 ? bounds.width / face.bounds.width : 1;
+      const scaleY = face.bounds.height > 0 ? bounds.height / face.bounds.height : 1;
+      const movePoint = (point: Point): Point => {
+        'worklet';
+        return {
+          x: bounds.x + (point.x - face.bounds.x) * scaleX,
+          y: bounds.y + (point.y - face.bounds.y) * scaleY,
+        };
+      };
+      const contours: FaceContours = {};
+      (Object.keys(face.contours) as (keyof FaceContours)[]).forEach((name) => {
+        contours[name] = (face.contours?.[name] ?? []).map(movePoint);
+      });
+      predicted.contours = contours;
+    }
+
+    return predicted;
+  };
+
+  return {
+    /**
+     * Record the faces of a frame that ran detection
+     *
+     * @returns The detected faces unchanged
+     */
+    update: (faces: Face[], timestamp: number = Date.now()): Face[] => {
+      'worklet';
+      const seen: Record<string, boolean> = {};
+      faces.forEach((face, index) => {
+        const key = String(face.trackingId ?? -(index + 1));
+        updateFace(face, key, timestamp);
+        seen[key] = true;
+      });
+
+      // Faces that were not detected are no longer predicted
+      Object.keys(states).forEach((key) => {
+        if (!seen[key]) {
+          delete states[key];
+        }
+      });
+
+      return faces;
+    },
+
+    /**
+     * Extrapolate the last detected faces to a frame without detection
+     *
+     * @returns Faces marked `predicted: true`
+     */
+    predict: (timestamp: number = Date.now()): Face[] => {
+      'worklet';
+      dropExpired(timestamp);
+      return Object.keys(states).map((key) => predictFace(states[key], timestamp));
+    },
+
+    /**
+     * Drop all motion state
+     */
+    reset: (): void => {
+      'worklet';
+      Object.keys(states).forEach((key) => {
+        delete states[key];
+      });
+    },
+  };
+}
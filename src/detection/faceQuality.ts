@@ -0,0 +1,267 @@
+import type {
+  Face,
+  FaceLandmarks,
+  FaceQualityCriterion,
+  FaceQualityCriterionResult,
+  FaceQualityOptions,
+  FaceQualityResult,
+  Size,
+} from '../types';
+import { withDefaults } from '../utils';
+
+/**
+ * All face quality criteria
+ */
+const ALL_CRITERIA: FaceQualityCriterion[] = [
+  'size',
+  'centering',
+  'pose',
+  'eyesOpen',
+  'neutralExpression',
+  'landmarks',
+];
+
+/**
+ * Default face quality configuration
+ */
+export const DEFAULT_FACE_QUALITY_OPTIONS: Required<Omit<FaceQualityOptions, 'weights'>> & {
+  weights: Record<FaceQualityCriterion, number>;
+} = {
+  criteria: ALL_CRITERIA,
+  weights: {
+    size: 1,
+    centering: 1,
+    pose: 1,
+    eyesOpen: 1,
+    neutralExpression: 1,
+    landmarks: 1,
+  },
+  minFaceSize: 0.2,
+  maxFaceSize: 0.8,
+  maxCenterOffset: 0.15,
+  maxYawAngle: 15,
+  maxPitchAngle: 15,
+  maxRollAngle: 15,
+  minEyeOpenProbability: 0.6,
+  maxSmilingProbability: 0.5,
+  requiredLandmarks: ['leftEye', 'rightEye', 'noseBase', 'leftMouth', 'rightMouth', 'bottomMouth'],
+};
+
+type ResolvedFaceQualityOptions = typeof DEFAULT_FACE_QUALITY_OPTIONS;
+
+/**
+ * Score a value that should stay at or below a limit (1 at the limit, 0 at twice the limit)
+ */
+function limitScore(value: number, limit: number): number {
+  'worklet';
+  if (value <= limit) {
+    return 1;
+  }
+  return limit > 0 ? Math.max(0, 1 - (value - limit) / limit) : 0;
+}
+
+/**
+ * Format a ratio as a whole percentage
+ */
+function percent(value: number): string {
+  'worklet';
+  return `${Math.round(value * 100)}%`;
+}
+
+/**
+ * Result for a criterion whose face data is missing
+ */
+function unavailable(reason: string): FaceQualityCriterionResult {
+  'worklet';
+  return { passed: false, score: 0, value: 0, reason };
+}
+
+/**
+ * Evaluate a single criterion
+ */
+function evaluateCriterion(
+  criterion: FaceQualityCriterion,
+  face: Face,
+  frameSize: Size,
+  config: ResolvedFaceQualityOptions
+): FaceQualityCriterionResult {
+  'worklet';
+  const { bounds } = face;
+
+  switch (criterion) {
+    case 'size': {
+      if (frameSize.width <= 0) {
+        return unavailable('Frame size is unknown');
+      }
+      const ratio = bounds.width / frameSize.width;
+      if (ratio < config.minFaceSize) {
+        return {
+          passed: false,
+          score: ratio / config.minFaceSize,
+          value: ratio,
+          reason: `Face too small (${percent(ratio)} of frame width, minimum ${percent(config.minFaceSize)})`,
+        };
+      }
+      if (ratio > config.maxFaceSize) {
+        return {
+          passed: false,
+          score: config.maxFaceSize / ratio,
+          value: ratio,
+          reason: `Face too close (${percent(ratio)} of frame width, maximum ${percent(config.maxFaceSize)})`,
+        };
+      }
+      return { passed: true, score: 1, value: ratio };
+    }
+
+    case 'centering': {
+      if (frameSize.width <= 0 || frameSize.height <= 0) {
+        return unavailable('Frame size is unknown');
+      }
+      const offsetX = (bounds.x + bounds.width / 2) / frameSize.width - 0.5;
+      const offsetY = (bounds.y + bounds.height / 2) / frameSize.height - 0.5;
+      const offset = Math.max(Math.abs(offsetX), Math.abs(offsetY));
+      const passed = offset <= config.maxCenterOffset;
+      return {
+        passed,
+        score: limitScore(offset, config.maxCenterOffset),
+        value: offset,
+        reason: passed ? undefined : `Face not centered (${percent(offset)} off center)`,
+      };
+    }
+
+    case 'pose': {
+      if (face.yawAngle === undefined || face.pitchAngle === undefined || face.rollAngle === undefined) {
+        return unavailable('Head pose angles are not available');
+      }
+      // Largest angle relative to its limit
+      const ratio = Math.max(
+        Math.abs(face.yawAngle) / config.maxYawAngle,
+        Math.abs(face.pitchAngle) / config.maxPitchAngle,
+        Math.abs(face.rollAngle) / config.maxRollAngle
+      );
+      const passed = ratio <= 1;
+      return {
+        passed,
+        score: limitScore(ratio, 1),
+        value: ratio,
+        reason: passed
+          ? undefined
+          : `Face not frontal (yaw ${Math.round(face.yawAngle)}°, pitch ${Math.round(face.pitchAngle)}°, roll ${Math.round(face.rollAngle)}°)`,
+      };
+    }
+
+    case 'eyesOpen': {
+      if (face.leftEyeOpenProbability === undefined || face.rightEyeOpenProbability === undefined) {
+        return unavailable("Eye open probabilities are not available (use classificationMode: 'all')");
+      }
+      const value = Math.min(face.leftEyeOpenProbability, face.rightEyeOpenProbability);
+      const passed = value >= config.minEyeOpenProbability;
+      return {
+        passed,
+        score: config.minEyeOpenProbability > 0 ? Math.min(1, value / config.minEyeOpenProbability) : 1,
+        value,
+        reason: passed ? undefined : 'Eyes not fully open',
+      };
+    }
+
+    case 'neutralExpression': {
+      if (face.smilingProbability === undefined) {
+        return unavailable("Smiling probability is not available (use classificationMode: 'all')");
+      }
+      const value = face.smilingProbability;
+      const passed = value <= config.maxSmilingProbability;
+      return {
+        passed,
+        score: limitScore(value, config.maxSmilingProbability),
+        value,
+        reason: passed ? undefined : 'Expression not neutral',
+      };
+    }
+
+    case 'landmarks': {
+      const required = config.requiredLandmarks;
+      if (required.length === 0) {
+        return { passed: true, score: 1, value: 1 };
+      }
+      const landmarks: FaceLandmarks = face.landmarks ?? {};
+      const missing = required.filter((key) => landmarks[key] == null);
+      const value = (required.length - missing.length) / required.length;
+      return {
+        passed: missing.length === 0,
+        score: value,
+        value,
+        reason:
+          missing.length === 0
+            ? undefined
+            : `Missing landmarks: ${missing.join(', ')}${face.landmarks ? '' : " (use landmarkMode: 'all')"}`,
+      };
+    }
+  }
+}
+
+/**
+ * Grade a detected face for selfie/KYC capture
+ *
+ * Checks size relative to the frame, centering, frontal pose, open eyes, neutral
+ * expression and landmark completeness. Criteria whose face data is missing (e.g.
+ * eye probabilities without `classificationMode: 'all'`) fail; leave them out via
+ * `options.criteria` if they don't matter.
+ *
+ * @param face - Detected face
+ * @param frameSize - Frame size in the coordinate space of `face.bounds`
+ *   (`{ width: 1, height: 1 }` for normalized results without autoMode)
+ * @param options - Face quality configuration
+ * @returns Overall score, per-criterion results and failure reasons
+ *
+ * @example
+ * ```ts
+ * const quality = scoreFaceQuality(face, { width: 1, height: 1 }, {
+ *   minFaceSize: 0.3,
+ *   criteria: ['size', 'centering', 'pose', 'eyesOpen'],
+ * });
+ *
+ * if (!quality.passed) {
+ *   showHint(quality.reasons[0]);
+ * }
+ * ```
+ */
+export function scoreFaceQuality(
+  face: Face,
+  frameSize: Size,
+  options: FaceQualityOptions = {}
+): FaceQualityResult {
+  'worklet';
+  const config: ResolvedFaceQualityOptions = {
+    ...withDefaults(DEFAULT_FACE_QUALITY_OPTIONS, { ...options, weights: undefined }),
+    weights: withDefaults(DEFAULT_FACE_QUALITY_OPTIONS.weights, options.weights),
+  };
+
+  const criteria: FaceQualityResult['criteria'] = {};
+  const reasons: string[] = [];
+  let weightedScore = 0;
+  let totalWeight = 0;
+  let passed = true;
+
+  config.criteria.forEach((criterion) => {
+    const result = evaluateCriterion(criterion, face, frameSize, config);
+    criteria[criterion] = result;
+
+    const weight = config.weights[criterion];
+    weightedScore += result.score * weight;
+    totalWeight += weight;
+
+    if (!result.passed) {
+      passed = false;
+      if (result.reason) {
+        reasons.push(result.reason);
+      }
+    }
+  });
+
+  return {
+    score: totalWeight > 0 ? weightedScore / totalWeight : 0,
+    passed,
+    criteria,
+    reasons,
+  };
+}
@@ -0,0 +1,308 @@
+import type {
+  ContourType,
+  Face,
+  FaceContours,
+  FaceLandmarks,
+  FaceSmoothingOptions,
+  Point,
+} from '../types';
+import { withDefaults } from '../utils';
+
+/**
+ * Default face smoothing configuration
+ */
+export const DEFAULT_FACE_SMOOTHING_OPTIONS: Required<FaceSmoothingOptions> = {
+  filter: 'one-euro',
+  alpha: 0.5,
+  minCutoff: 1,
+  beta: 2,
+  derivativeCutoff: 1,
+  processNoise: 0.1,
+  measurementNoise: 0.0005,
+  snapThreshold: 0.5,
+  smoothBounds: true,
+  smoothLandmarks: true,
+  smoothContours: true,
+  smoothAngles: true,
+  stateExpiryMs: 1000,
+};
+
+/**
+ * Angles are filtered in units of this many degrees
+ */
+const ANGLE_SCALE = 45;
+
+/**
+ * Time step used when two samples share a timestamp (seconds)
+ */
+const MIN_DT = 1 / 240;
+
+/**
+ * State of one filtered value (in scale units)
+ */
+interface ChannelState {
+  /** Filtered value */
+  x: number;
+  /** Filtered rate of change per second */
+  dx: number;
+  /** Kalman covariance */
+  p00: number;
+  p01: number;
+  p11: number;
+}
+
+/**
+ * Filter state of one face
+ */
+interface FaceFilterState {
+  /** Face width when the state started, used as the position unit */
+  scale: number;
+  lastTimestamp: number;
+  channels: Record<string, ChannelState>;
+}
+
+/**
+ * Smoothing factor of a first-order low-pass filter
+ */
+function lowPassAlpha(cutoff: number, dt: number): number {
+  'worklet';
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dt);
+}
+
+/**
+ * Filter one value
+ *
+ * @returns The filtered value (in scale units)
+ */
+function filterChannel(
+  channels: Record<string, ChannelState>,
+  key: string,
+  value: number,
+  dt: number,
+  config: Required<FaceSmoothingOptions>
+): number {
+  'worklet';
+  const state = channels[key];
+  if (!state || dt <= 0) {
+    channels[key] = { x: value, dx: 0, p00: config.measurementNoise, p01: 0, p11: 1 };
+    return value;
+  }
+
+  switch (config.filter) {
+    case 'exponential': {
+      state.x += config.alpha * (value - state.x);
+      return state.x;
+    }
+
+    case 'kalman': {
+      // Predict with constant velocity
+      const q = config.processNoise;
+      const x = state.x + state.dx * dt;
+      const p00 = state.p00 + dt * (2 * state.p01 + dt * state.p11) + (q * dt * dt * dt) / 3;
+      const p01 = state.p01 + dt * state.p11 + (q * dt * dt) / 2;
+      const p11 = state.p11 + q * dt;
+
+      // Correct with the measurement
+      const s = p00 + config.measurementNoise;
+      const k0 = p00 / s;
+      const k1 = p01 / s;
+      const residual = value - x;
+      state.x = x + k0 * residual;
+      state.dx += k1 * residual;
+      state.p00 = (1 - k0) * p00;
+      state.p01 = (1 - k0) * p01;
+      state.p11 = p11 - k1 * p01;
+      return state.x;
+    }
+
+    case 'one-euro':
+    default: {
+      const rawDx = (value - state.x) / dt;
+      state.dx += lowPassAlpha(config.derivativeCutoff, dt) * (rawDx - state.dx);
+      const cutoff = config.minCutoff + config.beta * Math.abs(state.dx);
+      state.x += lowPassAlpha(cutoff, dt) * (value - state.x);
+      return state.x;
+    }
+  }
+}
+
+/**
+ * Filter a point in scale units
+ */
+function filterPoint(
+  channels: Record<string, ChannelState>,
+  key: string,
+  point: Point,
+  scale: number,
+  dt: number,
+  config: Required<FaceSmoothingOptions>
+): Point {
+  'worklet';
+  return {
+    x: filterChannel(channels, `${key}.x`, point.x / scale, dt, config) * scale,
+    y: filterChannel(channels, `${key}.y`, point.y / scale, dt, config) * scale,
+  };
+}
+
+/**
+ * Whether the face jumped too far from the filtered bounds to be the same motion
+ */
+function hasJumped(state: FaceFilterState, face: Face, snapThreshold: number): boolean {
+  'worklet';
+  const x = state.channels['bounds.x'];
+  const y = state.channels['bounds.y'];
+  const width = state.channels['bounds.width'];
+  const height = state.channels['bounds.height'];
+  if (!x || !y || !width || !height) {
+    return false;
+  }
+
+  const scale = state.scale;
+  const previousWidth = width.x * scale;
+  if (previousWidth <= 0) {
+    return true;
+  }
+  const dx = face.bounds.x + face.bounds.width / 2 - (x.x + width.x / 2) * scale;
+  const dy = face.bounds.y + face.bounds.height / 2 - (y.x + height.x / 2) * scale;
+  const sizeChange = Math.abs(face.bounds.width - previousWidth) / previousWidth;
+
+  return Math.sqrt(dx * dx + dy * dy) / previousWidth > snapThreshold || sizeChange > snapThreshold;
+}
+
+/**
+ * Creates a temporal smoother for detected faces
+ *
+ * Keeps filter state per `trackingId` and smooths bounds, landmarks, contours
+ * and Euler angles with a One-Euro, exponential or constant-velocity Kalman
+ * filter. When a face jumps further than `snapThreshold` face widths, its
+ * filters restart at the new position instead of gliding there.
+ *
+ * `smooth` and `reset` are worklets, so the smoother can run inside a frame
+ * processor as well as on the JS thread. Faces without a `trackingId` are keyed
+ * by their index; enable `trackingEnabled` or use `createFaceTracker` when more
+ * than one face is expected.
+ *
+ * @param options - Face smoothing configuration
+ * @returns Object with smooth and reset functions
+ *
+ * @example
+ * ```ts
+ * const smoother = createFaceSmoother({ filter: 'kalman' });
+ *
+ * const frameProcessor = useFrameProcessor((frame) => {
+ *   'worklet';
+ *   const faces = smoother.smooth(detectFaces(frame));
+ *   drawOverlay(faces);
+ * }, [smoother]);
+ * ```
+ */
+export function createFaceSmoother(options: FaceSmoothingOptions = {}) {
+  const config = withDefaults(DEFAULT_FACE_SMOOTHING_OPTIONS, options);
+  const states: Record<string, FaceFilterState> = {};
+
+  const smoothFace = (face: Face, key: string, timestamp: number): Face => {
+    'worklet';
+    let state: FaceFilterState | undefined = states[key];
+    if (state && hasJumped(state, face, config.snapThreshold)) {
+      state = undefined;
+    }
+    if (!state) {
+      state = {
+        scale: face.bounds.width > 0 ? face.bounds.width : 1,
+        lastTimestamp: timestamp,
+        channels: {},
+      };
+      states[key] = state;
+    }
+
+    const dt = Math.max((timestamp - state.lastTimestamp) / 1000, MIN_DT);
+    state.lastTimestamp = timestamp;
+    const { channels, scale } = state;
+    const smoothed: Face = { ...face };
+
+    if (config.smoothBounds) {
+      const origin = filterPoint(channels, 'bounds', face.bounds, scale, dt, config);
+      smoothed.bounds = {
+        x: origin.x,
+        y: origin.y,
+        width: filterChannel(channels, 'bounds.width', face.bounds.width / scale, dt, config) * scale,
+        height: filterChannel(channels, 'bounds.height', face.bounds.height / scale, dt, config) * scale,
+      };
+    } else {
+      // Still tracked for jump detection
+      filterPoint(channels, 'bounds', face.bounds, scale, dt, config);
+      filterChannel(channels, 'bounds.width', face.bounds.width / scale, dt, config);
+      filterChannel(channels, 'bounds.height', face.bounds.height / scale, dt, config);
+    }
+
+    if (config.smoothLandmarks && face.landmarks) {
+      const landmarks: FaceLandmarks = {};
+      (Object.keys(face.landmarks) as (keyof FaceLandmarks)[]).forEach((name) => {
+        const point = face.landmarks?.[name];
+        if (point) {
+          landmarks[name] = filterPoint(channels, `landmark.${name}`, point, scale, dt, config);
+        }
+      });
+      smoothed.landmarks = landmarks;
+    }
+
+    if (config.smoothContours && face.contours) {
+      const contours: FaceContours = {};
+      (Object.keys(face.contours) as ContourType[]).forEach((name) => {
+        contours[name] = (face.contours?.[name] ?? []).map((point, index) =>
+          filterPoint(channels, `contour.${name}.${index}`, point, scale, dt, config)
+        );
+      });
+      smoothed.contours = contours;
+    }
+
+    if (config.smoothAngles) {
+      if (face.yawAngle !== undefined) {
+        smoothed.yawAngle =
+          filterChannel(channels, 'yaw', face.yawAngle / ANGLE_SCALE, dt, config) * ANGLE_SCALE;
+      }
+      if (face.pitchAngle !== undefined) {
+        smoothed.pitchAngle =
+          filterChannel(channels, 'pitch', face.pitchAngle / ANGLE_SCALE, dt, config) * ANGLE_SCALE;
+      }
+      if (face.rollAngle !== undefined) {
+        smoothed.rollAngle =
+          filterChannel(channels, 'roll', face.rollAngle / ANGLE_SCALE, dt, config) * ANGLE_SCALE;
+      }
+    }
+
+    return smoothed;
+  };
+
+  return {
+    /**
+     * Smooth the faces of a frame
+     */
+    smooth: (faces: Face[], timestamp: number = Date.now()): Face[] => {
+      'worklet';
+      const result = faces.map((face, index) =>
+        smoothFace(face, String(face.trackingId ?? -(index + 1)), timestamp)
+      );
+
+      // Drop the state of faces that left
+      Object.keys(states).forEach((key) => {
+        if (timestamp - states[key].lastTimestamp > config.stateExpiryMs) {
+          delete states[key];
+        }
+      });
+
+      return result;
+    },
+
+    /**
+     * Drop all filter state
+     */
+    reset: (): void => {
+      'worklet';
+      Object.keys(states).forEach((key) => {
+        delete states[key];
+      });
+    },
+  };
+}
@@ -0,0 +1,232 @@
+import type {
+  Bounds,
+  Face,
+  FaceLandmarks,
+  FaceTrack,
+  FaceTrackEvent,
+  FaceTrackEventType,
+  FaceTrackerOptions,
+} from '../types';
+import { withDefaults } from '../utils';
+
+/**
+ * Default face tracker configuration
+ */
+export const DEFAULT_FACE_TRACKER_OPTIONS: Required<FaceTrackerOptions> = {
+  minMatchScore: 0.3,
+  landmarkWeight: 0.3,
+  maxLandmarkDistance: 0.5,
+  maxDropoutMs: 500,
+  useNativeIds: true,
+};
+
+/**
+ * Result of a tracker update
+ */
+export interface FaceTrackerUpdate {
+  /** Input faces with `trackingId` replaced by the stable track ID */
+  faces: Face[];
+  /** Lifecycle events caused by this frame */
+  events: FaceTrackEvent[];
+}
+
+/**
+ * Internal track state
+ */
+interface TrackState extends FaceTrack {
+  /** Native tracking ID of the last matched face */
+  nativeId?: number;
+}
+
+/**
+ * Intersection over union of two bounding rectangles
+ *
+ * @returns Overlap ratio (0 = disjoint, 1 = identical)
+ */
+export function boundsIoU(a: Bounds, b: Bounds): number {
+  'worklet';
+  const left = Math.max(a.x, b.x);
+  const top = Math.max(a.y, b.y);
+  const right = Math.min(a.x + a.width, b.x + b.width);
+  const bottom = Math.min(a.y + a.height, b.y + b.height);
+
+  const intersection = Math.max(0, right - left) * Math.max(0, bottom - top);
+  const union = a.width * a.height + b.width * b.height - intersection;
+  return union > 0 ? intersection / union : 0;
+}
+
+/**
+ * Mean distance between the landmarks two faces have in common, relative to the face width
+ *
+ * @returns Relative distance, or null when there are no common landmarks
+ */
+function landmarkDistance(a: Face, b: Face): number | null {
+  if (!a.landmarks || !b.landmarks || a.bounds.width <= 0) {
+    return null;
+  }
+
+  let total = 0;
+  let count = 0;
+  (Object.keys(a.landmarks) as (keyof FaceLandmarks)[]).forEach((key) => {
+    const pa = a.landmarks?.[key];
+    const pb = b.landmarks?.[key];
+    if (pa && pb) {
+      total += Math.sqrt((pa.x - pb.x) ** 2 + (pa.y - pb.y) ** 2);
+      count++;
+    }
+  });
+
+  return count > 0 ? total / count / a.bounds.width : null;
+}
+
+/**
+ * Creates a face tracker that assigns stable IDs across frames
+ *
+ * Native ML Kit tracking is unavailable with `contourMode: 'all'` and unreliable
+ * on some devices in fast mode. This tracker matches faces to the tracks of the
+ * previous frames by bounds IoU and landmark distance, keeps tracks alive through
+ * short dropouts and replaces `Face.trackingId` with its own stable ID, so per-face
+ * logic (blinks, liveness, smoothing) works however the detector is configured.
+ *
+ * @param options - Face tracker configuration
+ * @returns Object with update, getTracks and reset functions
+ *
+ * @example
+ * ```ts
+ * const tracker = createFaceTracker({ maxDropoutMs: 300 });
+ *
+ * // For every set of detected faces:
+ * const { faces: tracked, events } = tracker.update(faces);
+ * events
+ *   .filter((event) => event.type === 'start')
+ *   .forEach((event) => console.log('New face', event.trackingId));
+ * ```
+ */
+export function createFaceTracker(options: FaceTrackerOptions = {}) {
+  const config = withDefaults(DEFAULT_FACE_TRACKER_OPTIONS, options);
+
+  let tracks: TrackState[] = [];
+  let nextId = 1;
+
+  const matchScore = (track: TrackState, face: Face): number => {
+    // Native IDs are reassigned after dropouts, so only equal IDs are conclusive
+    if (config.useNativeIds && track.nativeId !== undefined && track.nativeId === face.trackingId) {
+      return 1;
+    }
+
+    const iou = boundsIoU(track.face.bounds, face.bounds);
+    const distance = landmarkDistance(track.face, face);
+    if (distance === null || config.landmarkWeight <= 0) {
+      return iou;
+    }
+
+    const landmarkSimilarity = Math.max(0, 1 - distance / config.maxLandmarkDistance);
+    return iou * (1 - config.landmarkWeight) + landmarkSimilarity * config.landmarkWeight;
+  };
+
+  const toEvent = (
+    type: FaceTrackEventType,
+    track: TrackState,
+    timestamp: number
+  ): FaceTrackEvent => ({
+    type,
+    trackingId: track.trackingId,
+    timestamp,
+    face: track.face,
+    durationMs: timestamp - track.firstSeen,
+  });
+
+  return {
+    /**
+     * Match the faces of a frame to the current tracks
+     */
+    update: (faces: Face[], timestamp: number = Date.now()): FaceTrackerUpdate => {
+      const events: FaceTrackEvent[] = [];
+
+      // Greedy assignment, best scoring pairs first
+      const candidates: { trackIndex: number; faceIndex: number; score: number }[] = [];
+      tracks.forEach((track, trackIndex) => {
+        faces.forEach((face, faceIndex) => {
+          const score = matchScore(track, face);
+          if (score >= config.minMatchScore) {
+            candidates.push({ trackIndex, faceIndex, score });
+          }
+        });
+      });
+      candidates.sort((a, b) => b.score - a.score);
+
+      const trackForFace = new Map<number, TrackState>();
+      const matchedTracks = new Set<number>();
+      candidates.forEach(({ trackIndex, faceIndex }) => {
+        if (matchedTracks.has(trackIndex) || trackForFace.has(faceIndex)) {
+          return;
+        }
+        matchedTracks.add(trackIndex);
+        trackForFace.set(faceIndex, tracks[trackIndex]);
+      });
+
+      const seen = new Set<TrackState>();
+      const tracked = faces.map((face, faceIndex) => {
+        let track = trackForFace.get(faceIndex);
+        const output: Face = { ...face, trackingId: track?.trackingId ?? nextId };
+
+        if (track) {
+          track.face = output;
+          track.nativeId = face.trackingId;
+          track.lastSeen = timestamp;
+          track.hits++;
+          if (track.isLost) {
+            track.isLost = false;
+            events.push(toEvent('recovered', track, timestamp));
+          }
+        } else {
+          track = {
+            trackingId: nextId++,
+            face: output,
+            nativeId: face.trackingId,
+            firstSeen: timestamp,
+            lastSeen: timestamp,
+            hits: 1,
+            isLost: false,
+          };
+          tracks.push(track);
+          events.push(toEvent('start', track, timestamp));
+        }
+
+        seen.add(track);
+        return output;
+      });
+
+      // Unmatched tracks drop out, and end once the dropout lasts too long
+      tracks = tracks.filter((track) => {
+        if (seen.has(track)) {
+          return true;
+        }
+        if (timestamp - track.lastSeen > config.maxDropoutMs) {
+          events.push(toEvent('end', track, timestamp));
+          return false;
+        }
+        if (!track.isLost) {
+          track.isLost = true;
+          events.push(toEvent('lost', track, timestamp));
+        }
+        return true;
+      });
+
+      return { faces: tracked, events };
+    },
+
+    /**
+     * Current tracks, including tracks in a dropout
+     */
+    getTracks: (): FaceTrack[] =>
+      tracks.map(({ nativeId: _nativeId, ...track }) => ({ ...track })),
+
+    /**
+     * Drop all tracks (IDs keep increasing so they are never reused)
+     */
+    reset: (): void => {
+      tracks = [];
+    },
+  };
+}
@@ -0,0 +1,208 @@
+import type {
+  EyeStatusResult,
+  FatigueLevel,
+  FatigueMetrics,
+  FatigueMonitorOptions,
+} from '../types';
+import { withDefaults } from '../utils';
+
+/**
+ * Default fatigue monitor configuration
+ */
+export const DEFAULT_FATIGUE_MONITOR_OPTIONS: Required<FatigueMonitorOptions> = {
+  windowMs: 60000,
+  maxBlinkDurationMs: 500,
+  maxSampleGapMs: 500,
+  minObservationMs: 10000,
+  drowsyPerclosEnter: 0.15,
+  drowsyPerclosExit: 0.1,
+  asleepPerclosEnter: 0.4,
+  asleepPerclosExit: 0.3,
+  asleepClosureMs: 2000,
+};
+
+/**
+ * Interval between two consecutive eye status samples
+ */
+interface SampleInterval {
+  start: number;
+  end: number;
+  closed: boolean;
+}
+
+/**
+ * Completed eye closure
+ */
+interface Closure {
+  start: number;
+  end: number;
+}
+
+/**
+ * Creates a fatigue monitor that turns a stream of eye status samples into
+ * rolling blink statistics, PERCLOS and a fatigue level with hysteresis.
+ *
+ * The eyes count as closed when both `leftEye.isClosed` and `rightEye.isClosed`
+ * are set, so the closed threshold is the one used to build the `EyeStatusResult`.
+ *
+ * @param options - Fatigue monitor configuration
+ * @returns Object with addSample, getMetrics and reset functions
+ *
+ * @example
+ * ```ts
+ * const monitor = createFatigueMonitor({ windowMs: 30000 });
+ *
+ * // For every EyeStatusResult from useBlinkDetection:
+ * const metrics = monitor.addSample(status);
+ * if (metrics.level === 'asleep') {
+ *   soundAlarm();
+ * }
+ * ```
+ */
+export function createFatigueMonitor(options: FatigueMonitorOptions = {}) {
+  const config = withDefaults(DEFAULT_FATIGUE_MONITOR_OPTIONS, options);
+
+  const intervals: SampleInterval[] = [];
+  const closures: Closure[] = [];
+  let lastSample: { timestamp: number; closed: boolean } | null = null;
+  let closureStart: number | null = null;
+  let level: FatigueLevel = 'alert';
+
+  const prune = (now: number): void => {
+    const windowStart = now - config.windowMs;
+    while (intervals.length > 0 && intervals[0].end < windowStart) {
+      intervals.shift();
+    }
+    while (closures.length > 0 && closures[0].end < windowStart) {
+      closures.shift();
+    }
+  };
+
+  const computeMetrics = (now: number): FatigueMetrics => {
+    const windowStart = now - config.windowMs;
+
+    let observedMs = 0;
+    let closedMs = 0;
+    intervals.forEach((interval) => {
+      const duration = interval.end - Math.max(interval.start, windowStart);
+      if (duration <= 0) {
+        return;
+      }
+      observedMs += duration;
+      if (interval.closed) {
+        closedMs += duration;
+      }
+    });
+
+    const blinks = closures.filter(
+      (closure) => closure.end - closure.start <= config.maxBlinkDurationMs
+    );
+
+    const meanBlinkDurationMs =
+      blinks.length > 0
+        ? blinks.reduce((sum, blink) => sum + (blink.end - blink.start), 0) / blinks.length
+        : null;
+
+    const meanInterBlinkIntervalMs =
+      blinks.length > 1
+        ? (blinks[blinks.length - 1].start - blinks[0].start) / (blinks.length - 1)
+        : null;
+
+    return {
+      blinksPerMinute: observedMs > 0 ? blinks.length / (observedMs / 60000) : 0,
+      meanBlinkDurationMs,
+      meanInterBlinkIntervalMs,
+      perclos: observedMs > 0 ? closedMs / observedMs : 0,
+      currentClosureMs: closureStart !== null ? now - closureStart : 0,
+      observedMs,
+      level,
+    };
+  };
+
+  const updateLevel = (metrics: FatigueMetrics): FatigueLevel => {
+    const perclosReliable = metrics.observedMs >= config.minObservationMs;
+    const perclos = perclosReliable ? metrics.perclos : 0;
+
+    if (
+      metrics.currentClosureMs >= config.asleepClosureMs ||
+      perclos >= config.asleepPerclosEnter
+    ) {
+      return 'asleep';
+    }
+
+    // Stay asleep until the eyes are open and PERCLOS has recovered
+    if (
+      level === 'asleep' &&
+      (metrics.currentClosureMs > 0 || perclos >= config.asleepPerclosExit)
+    ) {
+      return 'asleep';
+    }
+
+    if (perclos >= config.drowsyPerclosEnter) {
+      return 'drowsy';
+    }
+
+    if (level !== 'alert' && perclos >= config.drowsyPerclosExit) {
+      return 'drowsy';
+    }
+
+    return 'alert';
+  };
+
+  return {
+    /**
+     * Add an eye status sample and return the updated metrics
+     */
+    addSample: (status: EyeStatusResult): FatigueMetrics => {
+      const now = status.timestamp;
+      const closed = status.leftEye.isClosed && status.rightEye.isClosed;
+
+      if (lastSample && now > lastSample.timestamp) {
+        const gap = now - lastSample.timestamp;
+        if (gap <= config.maxSampleGapMs) {
+          intervals.push({ start: lastSample.timestamp, end: now, closed: lastSample.closed });
+        } else {
+          // The face was lost; a closure spanning the gap can't be measured
+          closureStart = null;
+        }
+      }
+
+      if (closed && closureStart === null) {
+        closureStart = now;
+      } else if (!closed && closureStart !== null) {
+        closures.push({ start: closureStart, end: now });
+        closureStart = null;
+      }
+
+      lastSample = { timestamp: now, closed };
+      prune(now);
+
+      const metrics = computeMetrics(now);
+      level = updateLevel(metrics);
+      return { ...metrics, level };
+    },
+
+    /**
+     * Get the metrics as of the last sample (or the given time)
+     */
+    getMetrics: (now: number = lastSample?.timestamp ?? Date.now()): FatigueMetrics => {
+      return computeMetrics(now);
+    },
+
+    /**
+     * Current fatigue level
+     */
+    getLevel: (): FatigueLevel => level,
+
+    /**
+     * Clear all samples and return to 'alert'
+     */
+    reset: (): void => {
+      intervals.length = 0;
+      closures.length = 0;
+      lastSample = null;
+      closureStart = null;
+      level = 'alert';
+    },
+  };
+}
@@ -0,0 +1,190 @@
+import { createBlinkClassifier } from './blinkProcessor';
+import { scoreFaceQuality } from './faceQuality';
+import { createPrimaryFaceSelector } from './primaryFace';
+import type {
+  BlinkAnalyzerOptions,
+  BlinkEvent,
+  FaceQualityResult,
+  FacePose,
+  FrameAnalysisContext,
+  FrameAnalyzer,
+  FrameAnalyzerResults,
+  Face,
+  PoseAnalyzerOptions,
+  QualityAnalyzerOptions,
+} from '../types';
+
+/**
+ * Creates a pipeline that fans the faces of a frame out to named analyzers
+ *
+ * Detection runs once per frame; every analyzer sees every frame, and its result
+ * is only handed out when its `throttleMs` has passed since its last delivery.
+ * `analyze` returns the due results, or null when nothing is due, so the frame
+ * processor only calls into JS when there is something to deliver. All functions
+ * are worklets. `useFrameAnalysis` wraps the pipeline for hooks.
+ *
+ * @param analyzers - Analyzers by name
+ * @returns Object with analyze and reset functions
+ *
+ * @example
+ * ```ts
+ * const pipeline = createFrameAnalysisPipeline({
+ *   blink: createBlinkAnalyzer({ primaryFace: 'sticky' }),
+ *   pose: createPoseAnalyzer({ throttleMs: 100 }),
+ * });
+ *
+ * const frameProcessor = useFrameProcessor((frame) => {
+ *   'worklet';
+ *   const faces = detectFaces(frame, { classificationMode: 'all' });
+ *   const due = pipeline.analyze(faces, {
+ *     timestamp: Date.now(),
+ *     frameWidth: frame.width,
+ *     frameHeight: frame.height,
+ *   });
+ *   if (due) {
+ *     handleResults(due);
+ *   }
+ * }, [pipeline, handleResults]);
+ * ```
+ */
+export function createFrameAnalysisPipeline<A extends Record<string, FrameAnalyzer<unknown>>>(
+  analyzers: A
+) {
+  const names = Object.keys(analyzers) as (keyof A & string)[];
+  const lastDeliveredAt: Record<string, number> = {};
+
+  return {
+    /**
+     * Run every analyzer on the faces of a frame
+     *
+     * @returns Results due for delivery, or null when none is due
+     */
+    analyze: (faces: Face[], context: FrameAnalysisContext): FrameAnalyzerResults<A> | null => {
+      'worklet';
+      const due: FrameAnalyzerResults<A> = {};
+      let hasResults = false;
+
+      names.forEach((name) => {
+        const analyzer = analyzers[name];
+        const result = analyzer.analyze(faces, context);
+        if (result === undefined) {
+          return;
+        }
+
+        const last = lastDeliveredAt[name];
+        if (last === undefined || context.timestamp - last >= (analyzer.throttleMs ?? 0)) {
+          lastDeliveredAt[name] = context.timestamp;
+          due[name] = result as FrameAnalyzerResults<A>[typeof name];
+          hasResults = true;
+        }
+      });
+
+      return hasResults ? due : null;
+    },
+
+    /**
+     * Reset every analyzer and the delivery throttling
+     */
+    reset: (): void => {
+      'worklet';
+      names.forEach((name) => {
+        analyzers[name].reset?.();
+        delete lastDeliveredAt[name];
+      });
+    },
+  };
+}
+
+/**
+ * Creates an analyzer reporting blink events
+ *
+ * Results are only reported for frames with events and are not throttled by default,
+ * so no blink is lost.
+ *
+ * @param options - Blink classifier and analyzer configuration
+ */
+export function createBlinkAnalyzer(options: BlinkAnalyzerOptions = {}): FrameAnalyzer<BlinkEvent[]> {
+  const { throttleMs = 0, primaryFace, ...classifierOptions } = options;
+  const classifier = createBlinkClassifier(classifierOptions);
+  const selector = primaryFace !== undefined ? createPrimaryFaceSelector(primaryFace) : null;
+
+  return {
+    throttleMs,
+    analyze: (faces, context) => {
+      'worklet';
+      let blinkFaces = faces;
+      if (selector) {
+        const face = selector.select(faces, context.timestamp);
+        blinkFaces = face ? [face] : [];
+      }
+      const events = classifier.process(blinkFaces, context.timestamp);
+      return events.length > 0 ? events : undefined;
+    },
+    reset: () => {
+      'worklet';
+      classifier.reset();
+      selector?.reset();
+    },
+  };
+}
+
+/**
+ * Creates an analyzer reporting the head pose of the primary face (null without a face)
+ *
+ * @param options - Analyzer configuration
+ */
+export function createPoseAnalyzer(options: PoseAnalyzerOptions = {}): FrameAnalyzer<FacePose | null> {
+  const { throttleMs = 100, primaryFace = 'largest' } = options;
+  const selector = createPrimaryFaceSelector(primaryFace);
+
+  return {
+    throttleMs,
+    analyze: (faces, context) => {
+      'worklet';
+      const face = selector.select(faces, context.timestamp);
+      if (!face) {
+        return null;
+      }
+      return {
+        yaw: face.yawAngle ?? 0,
+        pitch: face.pitchAngle ?? 0,
+        roll: face.rollAngle ?? 0,
+        trackingId: face.trackingId,
+      };
+    },
+    reset: () => {
+      'worklet';
+      selector.reset();
+    },
+  };
+}
+
+/**
+ * Creates an analyzer grading the primary face with `scoreFaceQuality` (null without a face)
+ *
+ * @param options - Face quality and analyzer configuration
+ */
+export function createQualityAnalyzer(
+  options: QualityAnalyzerOptions = {}
+): FrameAnalyzer<FaceQualityResult | null> {
+  const {
+    throttleMs = 200,
+    primaryFace = 'largest',
+    frameSize = { width: 1, height: 1 },
+    ...qualityOptions
+  } = options;
+  const selector = createPrimaryFaceSelector(primaryFace);
+
+  return {
+    throttleMs,
+    analyze: (faces, context) => {
+      'worklet';
+      const face = selector.select(faces, context.timestamp);
+      return face ? scoreFaceQuality(face, frameSize, qualityOptions) : null;
+    },
+    reset: () => {
+      'worklet';
+      selector.reset();
+    },
+  };
+}
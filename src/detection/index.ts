@@ -1,3 +1,65 @@
-export { detectFaces, isFaceDetectorAvailable } from './faceDetector';
-export { processBlinkFromFaces, resetBlinkStates, getEyeState } from './blinkProcessor';
-export { detectFacesInImage } from './staticImageDetector';
+export {
+  detectFaces,
+  tryDetectFaces,
+  isFaceDetectorAvailable,
+  type FaceDetectionAttempt,
+} from './faceDetector';
+export {
+  normalizeFaces,
+  type NormalizeFacesResult,
+} from './faceNormalizer';
+export {
+  processBlinkFromFaces,
+  createBlinkClassifier,
+  resetBlinkStates,
+  getEyeState,
+  DEFAULT_BLINK_CLASSIFIER_OPTIONS,
+} from './blinkProcessor';
+export {
+  detectFacesInImage,
+  resolveImageSource,
+  registerStaticFaceDetectorBackend,
+  getStaticFaceDetectorBackend,
+  nativeStaticFaceDetectorBackend,
+} from './staticImageDetector';
+export {
+  resolveDetectionOptions,
+  DETECTION_PRESETS,
+  DEFAULT_FACE_DETECTION_OPTIONS,
+} from './detectionPresets';
+export {
+  selectPrimaryFace,
+  createPrimaryFaceSelector,
+  DEFAULT_PRIMARY_FACE_STRATEGY,
+} from './primaryFace';
+export {
+  createFrameAnalysisPipeline,
+  createBlinkAnalyzer,
+  createPoseAnalyzer,
+  createQualityAnalyzer,
+} from './frameAnalysis';
+export {
+  createFaceTracker,
+  boundsIoU,
+  DEFAULT_FACE_TRACKER_OPTIONS,
+  type FaceTrackerUpdate,
+} from './faceTracker';
+export { createFaceSmoother, DEFAULT_FACE_SMOOTHING_OPTIONS } from './faceSmoothing';
+export { createFacePredictor, DEFAULT_FACE_PREDICTOR_OPTIONS } from './facePredictor';
+export {
+  createDetectionScheduler,
+  DEFAULT_DETECTION_SCHEDULER_OPTIONS,
+} from './detectionScheduler';
+export { scoreFaceQuality, DEFAULT_FACE_QUALITY_OPTIONS } from './faceQuality';
+export {
+  createBestFramePicker,
+  scoreMoment,
+  DEFAULT_BEST_FRAME_PICKER_OPTIONS,
+} from './bestFramePicker';
+export { createFatigueMonitor, DEFAULT_FATIGUE_MONITOR_OPTIONS } from './fatigueMonitor';
+export {
+  createLivenessChallenge,
+  generateChallengeSequence,
+  DEFAULT_LIVENESS_CHALLENGE_OPTIONS,
+} from './livenessChallenge';
+export { createPassiveLivenessEstimator, DEFAULT_PASSIVE_LIVENESS_OPTIONS } from './passiveLiveness';
@@ -0,0 +1,396 @@
+import { createBlinkClassifier } from './blinkProcessor';
+import type {
+  Face,
+  LivenessChallengeOptions,
+  LivenessChallengeType,
+  LivenessEvidence,
+  LivenessFailureReason,
+  LivenessResult,
+  LivenessStepResult,
+} from '../types';
+import { withDefaults } from '../utils';
+
+/**
+ * Default liveness challenge configuration
+ */
+export const DEFAULT_LIVENESS_CHALLENGE_OPTIONS: Required<Omit<LivenessChallengeOptions, 'challenges'>> = {
+  challengeCount: 3,
+  stepTimeoutMs: 5000,
+  faceLostToleranceMs: 1000,
+  multipleFacesToleranceMs: 500,
+  turnYawThreshold: 25,
+  nodPitchThreshold: 15,
+  neutralAngleThreshold: 10,
+  smileThreshold: 0.7,
+  neutralSmileThreshold: 0.3,
+  invertYaw: false,
+  maxFaceJumpRatio: 0.5,
+};
+
+/**
+ * All available challenges
+ */
+const ALL_CHALLENGES: LivenessChallengeType[] = ['blink', 'turn-left', 'turn-right', 'nod', 'smile'];
+
+/**
+ * Status of a liveness session
+ */
+export type LivenessSessionStatus = 'idle' | 'running' | 'passed' | 'failed';
+
+/**
+ * Generate a random challenge sequence without immediate repetitions
+ *
+ * @param count - Number of challenges
+ * @param pool - Challenges to pick from
+ * @returns Randomized challenge sequence
+ */
+export function generateChallengeSequence(
+  count: number = DEFAULT_LIVENESS_CHALLENGE_OPTIONS.challengeCount,
+  pool: LivenessChallengeType[] = ALL_CHALLENGES
+): LivenessChallengeType[] {
+  if (pool.length === 0) {
+    return [];
+  }
+
+  // Fisher-Yates shuffle for the first pass through the pool
+  const shuffled = [...pool];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+
+  const sequence = shuffled.slice(0, count);
+  while (sequence.length < count) {
+    const previous = sequence[sequence.length - 1];
+    const candidates = pool.length > 1 ? pool.filter((c) => c !== previous) : pool;
+    sequence.push(candidates[Math.floor(Math.random() * candidates.length)]);
+  }
+
+  return sequence;
+}
+
+/**
+ * Record the measurements of a face
+ */
+function toEvidence(face: Face, timestamp: number): LivenessEvidence {
+  return {
+    timestamp,
+    trackingId: face.trackingId,
+    yawAngle: face.yawAngle,
+    pitchAngle: face.pitchAngle,
+    smilingProbability: face.smilingProbability,
+    leftEyeOpenProbability: face.leftEyeOpenProbability,
+    rightEyeOpenProbability: face.rightEyeOpenProbability,
+  };
+}
+
+/**
+ * Distance between the centers of two faces relative to the width of the first
+ */
+function faceJumpRatio(previous: Face, next: Face): number {
+  const dx =
+    next.bounds.x + next.bounds.width / 2 - (previous.bounds.x + previous.bounds.width / 2);
+  const dy =
+    next.bounds.y + next.bounds.height / 2 - (previous.bounds.y + previous.bounds.height / 2);
+  return Math.sqrt(dx * dx + dy * dy) / Math.max(previous.bounds.width, Number.EPSILON);
+}
+
+/**
+ * Creates an active liveness challenge session
+ *
+ * The session walks through a sequence of challenges and verifies each against the
+ * `Face` stream. Pose and smile challenges must start from a neutral pose/expression,
+ * so a photo held at an angle can't pass them. The session fails when the face is
+ * lost, replaced by another face (tracking ID change or a sudden jump), joined by
+ * other faces, or when a step times out. Faces without a `trackingId` fail the
+ * session with 'tracking-unavailable', since a face swap could not be detected.
+ *
+ * Deadlines are checked with every frame. Call `checkDeadlines` on a timer as well
+ * so a stalled camera still times out (`useLivenessChallenge` does this).
+ *
+ * @param options - Liveness challenge configuration
+ * @returns Session controls
+ *
+ * @example
+ * ```ts
+ * const session = createLivenessChallenge({ challenges: ['blink', 'turn-left'] });
+ * session.start();
+ *
+ * // For every set of detected faces (trackingEnabled + classificationMode 'all'):
+ * const result = session.processFaces(faces);
+ * if (result) {
+ *   console.log(result.passed ? 'Live' : `Failed: ${result.failureReason}`);
+ * }
+ * ```
+ */
+export function createLivenessChallenge(options: LivenessChallengeOptions = {}) {
+  const config = withDefaults(DEFAULT_LIVENESS_CHALLENGE_OPTIONS, options);
+  const challenges = options.challenges ?? generateChallengeSequence(config.challengeCount);
+  const blinkClassifier = createBlinkClassifier();
+
+  let status: LivenessSessionStatus = 'idle';
+  let steps: LivenessStepResult[] = challenges.map((challenge) => ({ challenge, status: 'pending' }));
+  let stepIndex = 0;
+  let startedAt = 0;
+  let trackingId: number | undefined;
+  let lastFace: Face | null = null;
+  let lastFaceSeenAt = 0;
+  let multipleFacesSince: number | null = null;
+  let result: LivenessResult | null = null;
+
+  // Per-step progress
+  let baseline: LivenessEvidence | null = null;
+  let peak: LivenessEvidence | null = null;
+
+  const finish = (now: number, failureReason?: LivenessFailureReason): LivenessResult => {
+    if (failureReason) {
+      const step = steps[stepIndex];
+      if (step && step.status === 'active') {
+        steps[stepIndex] = { ...step, status: 'failed', completedAt: now, failureReason };
+      }
+    }
+
+    status = failureReason ? 'failed' : 'passed';
+    result = {
+      passed: !failureReason,
+      steps: [...steps],
+      failureReason,
+      trackingId,
+      startedAt,
+      completedAt: now,
+    };
+    return result;
+  };
+
+  const activateStep = (index: number, now: number): void => {
+    stepIndex = index;
+    baseline = null;
+    peak = null;
+    blinkClassifier.reset();
+    steps[index] = { ...steps[index], status: 'active', startedAt: now };
+  };
+
+  const yawOf = (face: Face): number | undefined => {
+    if (face.yawAngle === undefined) {
+      return undefined;
+    }
+    return config.invertYaw ? -face.yawAngle : face.yawAngle;
+  };
+
+  const isNeutralPose = (face: Face): boolean => {
+    const yaw = yawOf(face);
+    return (
+      yaw !== undefined &&
+      face.pitchAngle !== undefined &&
+      Math.abs(yaw) <= config.neutralAngleThreshold &&
+      Math.abs(face.pitchAngle) <= config.neutralAngleThreshold
+    );
+  };
+
+  /**
+   * Check whether the face completes the current challenge
+   */
+  const checkChallenge = (
+    challenge: LivenessChallengeType,
+    face: Face,
+    now: number
+  ): LivenessEvidence | null => {
+    switch (challenge) {
+      case 'blink': {
+        const events = blinkClassifier.process([face], now);
+        return events.some((event) => event.isBlink) ? toEvidence(face, now) : null;
+      }
+
+      case 'turn-left':
+      case 'turn-right': {
+        if (!baseline) {
+          baseline = isNeutralPose(face) ? toEvidence(face, now) : null;
+          return null;
+        }
+        const yaw = yawOf(face);
+        if (yaw === undefined) {
+          return null;
+        }
+        const turned =
+          challenge === 'turn-left'
+            ? yaw >= config.turnYawThreshold
+            : yaw <= -config.turnYawThreshold;
+        return turned ? toEvidence(face, now) : null;
+      }
+
+      case 'nod': {
+        if (!baseline) {
+          baseline = isNeutralPose(face) ? toEvidence(face, now) : null;
+          return null;
+        }
+        if (face.pitchAngle === undefined || baseline.pitchAngle === undefined) {
+          return null;
+        }
+        const delta = Math.abs(face.pitchAngle - baseline.pitchAngle);
+        if (!peak) {
+          peak = delta >= config.nodPitchThreshold ? toEvidence(face, now) : null;
+          return null;
+        }
+        // The nod completes once the head is back near the baseline
+        return delta <= config.neutralAngleThreshold ? peak : null;
+      }
+
+      case 'smile': {
+        if (face.smilingProbability === undefined) {
+          return null;
+        }
+        if (!baseline) {
+          baseline =
+            face.smilingProbability <= config.neutralSmileThreshold ? toEvidence(face, now) : null;
+          return null;
+        }
+        return face.smilingProbability >= config.smileThreshold ? toEvidence(face, now) : null;
+      }
+    }
+  };
+
+  /**
+   * Fail the session when the current step or the face-lost tolerance ran out
+   */
+  const checkDeadlines = (now: number): LivenessResult | null => {
+    const step = steps[stepIndex];
+    if (step.startedAt !== undefined && now - step.startedAt > config.stepTimeoutMs) {
+      return finish(now, 'timeout');
+    }
+    if (now - lastFaceSeenAt > config.faceLostToleranceMs) {
+      return finish(now, 'face-lost');
+    }
+    return null;
+  };
+
+  return {
+    /**
+     * Start (or restart) the session
+     */
+    start: (now: number = Date.now()): void => {
+      steps = challenges.map((challenge) => ({ challenge, status: 'pending' }));
+      status = steps.length > 0 ? 'running' : 'passed';
+      startedAt = now;
+      trackingId = undefined;
+      lastFace = null;
+      lastFaceSeenAt = now;
+      multipleFacesSince = null;
+      result = null;
+
+      if (steps.length > 0) {
+        activateStep(0, now);
+      } else {
+        finish(now);
+      }
+    },
+
+    /**
+     * Process the faces of a frame
+     *
+     * @returns The final result when the session finished with this frame, otherwise null
+     */
+    processFaces: (faces: Face[], now: number = Date.now()): LivenessResult | null => {
+      if (status !== 'running') {
+        return null;
+      }
+
+      const step = steps[stepIndex];
+      if (step.startedAt !== undefined && now - step.startedAt > config.stepTimeoutMs) {
+        return finish(now, 'timeout');
+      }
+
+      if (faces.length === 0) {
+        return checkDeadlines(now);
+      }
+
+      if (faces.length > 1) {
+        lastFaceSeenAt = now;
+        multipleFacesSince = multipleFacesSince ?? now;
+        return now - multipleFacesSince > config.multipleFacesToleranceMs
+          ? finish(now, 'multiple-faces')
+          : null;
+      }
+      multipleFacesSince = null;
+
+      const face = faces[0];
+
+      // Without tracking IDs a face swap between frames can't be detected
+      if (face.trackingId === undefined) {
+        return finish(now, 'tracking-unavailable');
+      }
+
+      // The same person has to perform the whole challenge
+      if (trackingId !== undefined && face.trackingId !== trackingId) {
+        return finish(now, 'face-changed');
+      }
+      if (lastFace && faceJumpRatio(lastFace, face) > config.maxFaceJumpRatio) {
+        return finish(now, 'face-changed');
+      }
+      trackingId = trackingId ?? face.trackingId;
+      lastFace = face;
+      lastFaceSeenAt = now;
+
+      const evidence = checkChallenge(step.challenge, face, now);
+      if (!evidence) {
+        return null;
+      }
+
+      steps[stepIndex] = {
+        ...step,
+        status: 'passed',
+        completedAt: now,
+        baseline: baseline ?? undefined,
+        evidence,
+      };
+
+      if (stepIndex + 1 < steps.length) {
+        activateStep(stepIndex + 1, now);
+        return null;
+      }
+
+      return finish(now);
+    },
+
+    /**
+     * Check the step and face-lost deadlines without a frame
+     *
+     * @returns The final result when the session failed, otherwise null
+     */
+    checkDeadlines: (now: number = Date.now()): LivenessResult | null => {
+      return status === 'running' ? checkDeadlines(now) : null;
+    },
+
+    /**
+     * Cancel a running session
+     */
+    cancel: (now: number = Date.now()): LivenessResult | null => {
+      return status === 'running' ? finish(now, 'cancelled') : null;
+    },
+
+    /**
+     * Session status
+     */
+    getStatus: (): LivenessSessionStatus => status,
+
+    /**
+     * Per-step results so far
+     */
+    getSteps: (): LivenessStepResult[] => [...steps],
+
+    /**
+     * Index of the active step
+     */
+    getCurrentStepIndex: (): number => stepIndex,
+
+    /**
+     * Challenge the user currently has to perform (null when not running)
+     */
+    getCurrentChallenge: (): LivenessChallengeType | null =>
+      status === 'running' ? steps[stepIndex].challenge : null,
+
+    /**
+     * Final result (null until the session finished)
+     */
+    getResult: (): LivenessResult | null => result,
+  };
+}
@@ -0,0 +1,285 @@
+import { createBlinkClassifier } from './blinkProcessor';
+import type {
+  Face,
+  PassiveLivenessFactor,
+  PassiveLivenessFactorName,
+  PassiveLivenessOptions,
+  PassiveLivenessResult,
+} from '../types';
+import { withDefaults } from '../utils';
+
+/**
+ * Default passive liveness configuration
+ */
+export const DEFAULT_PASSIVE_LIVENESS_OPTIONS: Required<Omit<PassiveLivenessOptions, 'weights'>> & {
+  weights: Record<PassiveLivenessFactorName, number>;
+} = {
+  windowMs: 5000,
+  minObservationMs: 3000,
+  liveThreshold: 0.5,
+  weights: {
+    landmarkMotion: 0.4,
+    blink: 0.35,
+    poseJitter: 0.25,
+  },
+  rigidLandmarkMotion: 0.002,
+  liveLandmarkMotion: 0.01,
+  expectedBlinks: 1,
+  rigidPoseJitter: 0.2,
+  livePoseJitter: 1,
+};
+
+/**
+ * Minimum samples per landmark before its motion is measured
+ */
+const MIN_LANDMARK_SAMPLES = 5;
+
+/**
+ * Face measurements of one frame
+ */
+interface LivenessSample {
+  timestamp: number;
+  /** Landmark positions relative to the bounds, centered on the landmark centroid */
+  landmarks: Record<string, [number, number]>;
+  yawAngle?: number;
+  pitchAngle?: number;
+}
+
+/**
+ * Standard deviation of a list of numbers
+ */
+function standardDeviation(values: number[]): number {
+  if (values.length < 2) {
+    return 0;
+  }
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const variance = values.reduce((sum, v) => sum + (v - mean) * (v - mean), 0) / values.length;
+  return Math.sqrt(variance);
+}
+
+/**
+ * Map a value linearly from [low, high] to [0, 1]
+ */
+function ramp(value: number, low: number, high: number): number {
+  if (high <= low) {
+    return value >= high ? 1 : 0;
+  }
+  return Math.min(1, Math.max(0, (value - low) / (high - low)));
+}
+
+/**
+ * Convert a face into a sample with landmarks expressed relative to its bounds
+ */
+function toSample(face: Face, timestamp: number): LivenessSample {
+  const landmarks: Record<string, [number, number]> = {};
+  const { x, y, width, height } = face.bounds;
+
+  if (face.landmarks && width > 0 && height > 0) {
+    const entries = Object.entries(face.landmarks).filter(([, point]) => point != null);
+    if (entries.length > 0) {
+      const relative = entries.map(([key, point]) => [
+        key,
+        (point.x - x) / width,
+        (point.y - y) / height,
+      ] as const);
+
+      // Center on the landmark centroid so bounds jitter doesn't count as motion
+      const cx = relative.reduce((sum, [, rx]) => sum + rx, 0) / relative.length;
+      const cy = relative.reduce((sum, [, , ry]) => sum + ry, 0) / relative.length;
+      relative.forEach(([key, rx, ry]) => {
+        landmarks[key] = [rx - cx, ry - cy];
+      });
+    }
+  }
+
+  return {
+    timestamp,
+    landmarks,
+    yawAngle: face.yawAngle,
+    pitchAngle: face.pitchAngle,
+  };
+}
+
+/**
+ * Creates a passive liveness estimator
+ *
+ * Analyses the face stream without asking the user to do anything. A printed photo
+ * or a screen held to the camera moves rigidly: its landmarks keep the same layout
+ * relative to the face bounds, it never blinks and its pose only changes when the
+ * whole image is tilted. A live face shows small non-rigid landmark movements,
+ * spontaneous blinks and natural pose jitter.
+ *
+ * Detection should run with `landmarkMode: 'all'` and `classificationMode: 'all'`;
+ * factors whose data is missing are left out of the score.
+ *
+ * @param options - Passive liveness configuration
+ * @returns Object with addFaces, getResult and reset functions
+ *
+ * @example
+ * ```ts
+ * const estimator = createPassiveLivenessEstimator({ windowMs: 4000 });
+ *
+ * // For every set of detected faces:
+ * const result = estimator.addFaces(faces);
+ * if (result.isReliable && !result.isLive) {
+ *   flagPossibleSpoof(result.factors);
+ * }
+ * ```
+ */
+export function createPassiveLivenessEstimator(options: PassiveLivenessOptions = {}) {
+  const config = {
+    ...withDefaults(DEFAULT_PASSIVE_LIVENESS_OPTIONS, { ...options, weights: undefined }),
+    weights: withDefaults(DEFAULT_PASSIVE_LIVENESS_OPTIONS.weights, options.weights),
+  };
+
+  const samples: LivenessSample[] = [];
+  const blinkTimestamps: number[] = [];
+  let blinkClassifier = createBlinkClassifier();
+  let faceId: number | undefined;
+  let hasEyeData = false;
+
+  const reset = (): void => {
+    samples.length = 0;
+    blinkTimestamps.length = 0;
+    blinkClassifier = createBlinkClassifier();
+    faceId = undefined;
+    hasEyeData = false;
+  };
+
+  const measureLandmarkMotion = (): { value: number; available: boolean } => {
+    const tracks: Record<string, { xs: number[]; ys: number[] }> = {};
+    samples.forEach((sample) => {
+      Object.entries(sample.landmarks).forEach(([key, [x, y]]) => {
+        tracks[key] = tracks[key] ?? { xs: [], ys: [] };
+        tracks[key].xs.push(x);
+        tracks[key].ys.push(y);
+      });
+    });
+
+    const deviations = Object.values(tracks)
+      .filter((track) => track.xs.length >= MIN_LANDMARK_SAMPLES)
+      .map((track) => (standardDeviation(track.xs) + standardDeviation(track.ys)) / 2);
+
+    if (deviations.length === 0) {
+      return { value: 0, available: false };
+    }
+    return {
+      value: deviations.reduce((sum, d) => sum + d, 0) / deviations.length,
+      available: true,
+    };
+  };
+
+  const measurePoseJitter = (): { value: number; available: boolean } => {
+    const yaws = samples.map((s) => s.yawAngle).filter((v): v is number => v !== undefined);
+    const pitches = samples.map((s) => s.pitchAngle).filter((v): v is number => v !== undefined);
+
+    if (yaws.length < MIN_LANDMARK_SAMPLES || pitches.length < MIN_LANDMARK_SAMPLES) {
+      return { value: 0, available: false };
+    }
+    return {
+      value: (standardDeviation(yaws) + standardDeviation(pitches)) / 2,
+      available: true,
+    };
+  };
+
+  const getResult = (): PassiveLivenessResult => {
+    const observedMs =
+      samples.length > 1 ? samples[samples.length - 1].timestamp - samples[0].timestamp : 0;
+
+    const landmarkMotion = measureLandmarkMotion();
+    const poseJitter = measurePoseJitter();
+
+    const factors: PassiveLivenessFactor[] = [
+      {
+        name: 'landmarkMotion',
+        value: landmarkMotion.value,
+        score: ramp(landmarkMotion.value, config.rigidLandmarkMotion, config.liveLandmarkMotion),
+        weight: config.weights.landmarkMotion,
+        available: landmarkMotion.available,
+      },
+      {
+        name: 'blink',
+        value: blinkTimestamps.length,
+        score: Math.min(1, blinkTimestamps.length / Math.max(config.expectedBlinks, 1)),
+        weight: config.weights.blink,
+        available: hasEyeData,
+      },
+      {
+        name: 'poseJitter',
+        value: poseJitter.value,
+        score: ramp(poseJitter.value, config.rigidPoseJitter, config.livePoseJitter),
+        weight: config.weights.poseJitter,
+        available: poseJitter.available,
+      },
+    ];
+
+    // Weighted mean over the factors that have data
+    const available = factors.filter((factor) => factor.available && factor.weight > 0);
+    const totalWeight = available.reduce((sum, factor) => sum + factor.weight, 0);
+    const score =
+      totalWeight > 0
+        ? available.reduce((sum, factor) => sum + factor.score * factor.weight, 0) / totalWeight
+        : 0;
+
+    const isReliable = observedMs >= config.minObservationMs && available.length > 0;
+
+    return {
+      score,
+      isLive: isReliable && score >= config.liveThreshold,
+      isReliable,
+      factors,
+      sampleCount: samples.length,
+      observedMs,
+      faceId,
+    };
+  };
+
+  return {
+    /**
+     * Add the faces of a frame (the first face is analysed) and return the updated estimate
+     */
+    addFaces: (faces: Face[], timestamp: number = Date.now()): PassiveLivenessResult => {
+      const face = faces[0];
+      if (!face) {
+        return getResult();
+      }
+
+      // A different person starts a new analysis
+      if (face.trackingId !== undefined && faceId !== undefined && face.trackingId !== faceId) {
+        reset();
+      }
+      faceId = face.trackingId ?? faceId;
+
+      samples.push(toSample(face, timestamp));
+
+      if (face.leftEyeOpenProbability !== undefined && face.rightEyeOpenProbability !== undefined) {
+        hasEyeData = true;
+        blinkClassifier
+          .process([face], timestamp)
+          .filter((event) => event.isBlink)
+          .forEach(() => blinkTimestamps.push(timestamp));
+      }
+
+      // Drop samples and blinks that left the window
+      const windowStart = timestamp - config.windowMs;
+      while (samples.length > 0 && samples[0].timestamp < windowStart) {
+        samples.shift();
+      }
+      while (blinkTimestamps.length > 0 && blinkTimestamps[0] < windowStart) {
+        blinkTimestamps.shift();
+      }
+
+      return getResult();
+    },
+
+    /**
+     * Current estimate
+     */
+    getResult,
+
+    /**
+     * Clear all samples
+     */
+    reset,
+  };
+}
@@ -0,0 +1,193 @@
+import type {
+  Bounds,
+  Face,
+  PrimaryFaceStrategy,
+  PrimaryFaceStrategyOptions,
+  PrimaryFaceStrategyType,
+} from '../types';
+import { withDefaults } from '../utils';
+
+/**
+ * Default primary face strategy parameters
+ */
+export const DEFAULT_PRIMARY_FACE_STRATEGY: Required<Omit<PrimaryFaceStrategyOptions, 'region'>> = {
+  type: 'largest',
+  frameSize: { width: 1, height: 1 },
+  fallback: 'largest',
+  handOffDelayMs: 500,
+};
+
+/**
+ * Strategy with all parameters set
+ */
+type ResolvedStrategy = Required<Omit<PrimaryFaceStrategyOptions, 'region'>> & { region: Bounds };
+
+function resolveStrategy(strategy: PrimaryFaceStrategy): ResolvedStrategy {
+  'worklet';
+  const options: PrimaryFaceStrategyOptions =
+    typeof strategy === 'string' ? { type: strategy } : strategy;
+  const { region, ...rest } = options;
+  const config = withDefaults(DEFAULT_PRIMARY_FACE_STRATEGY, rest);
+  return {
+    ...config,
+    region: region ?? {
+      x: 0,
+      y: 0,
+      width: config.frameSize.width,
+      height: config.frameSize.height,
+    },
+  };
+}
+
+/**
+ * Pick a face with a stateless strategy
+ */
+function pickFace(
+  faces: Face[],
+  type: Exclude<PrimaryFaceStrategyType, 'sticky'>,
+  config: ResolvedStrategy
+): Face | null {
+  'worklet';
+  const region: Bounds =
+    type === 'closest-to-region'
+      ? config.region
+      : { x: 0, y: 0, width: config.frameSize.width, height: config.frameSize.height };
+  const targetX = region.x + region.width / 2;
+  const targetY = region.y + region.height / 2;
+
+  let best: Face | null = null;
+  let bestScore = -Infinity;
+  for (const face of faces) {
+    let score: number;
+    if (type === 'largest') {
+      score = face.bounds.width * face.bounds.height;
+    } else {
+      // Both centered strategies prefer the smallest distance to the target center
+      const dx = face.bounds.x + face.bounds.width / 2 - targetX;
+      const dy = face.bounds.y + face.bounds.height / 2 - targetY;
+      score = -(dx * dx + dy * dy);
+    }
+    if (score > bestScore) {
+      best = face;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * Select the primary face among detected faces
+ *
+ * ML Kit does not order faces by prominence, so `faces[0]` may be anyone in the
+ * frame. 'most-centered' and 'closest-to-region' compare face centers to the
+ * center of `frameSize` or `region`; pass `frameSize` when the bounds are not
+ * normalized.
+ *
+ * 'sticky' needs to remember its last choice: use `createPrimaryFaceSelector`.
+ * Without it, 'sticky' selects like its `fallback`.
+ *
+ * @param faces - Detected faces
+ * @param strategy - Selection strategy. Default: 'largest'
+ * @returns The primary face, or null when there are no faces
+ *
+ * @example
+ * ```ts
+ * const face = selectPrimaryFace(faces, {
+ *   type: 'closest-to-region',
+ *   region: { x: 0.25, y: 0.2, width: 0.5, height: 0.6 },
+ * });
+ * ```
+ */
+export function selectPrimaryFace(
+  faces: Face[],
+  strategy: PrimaryFaceStrategy = 'largest'
+): Face | null {
+  'worklet';
+  const config = resolveStrategy(strategy);
+  return pickFace(faces, config.type === 'sticky' ? config.fallback : config.type, config);
+}
+
+/**
+ * Creates a primary face selector that remembers its last choice
+ *
+ * With the 'sticky' strategy, the selected `trackingId` is kept as long as it is
+ * detected, so a larger or more centered face walking by can't take over. When
+ * the selected face disappears, `select` returns null for up to `handOffDelayMs`
+ * before choosing a new face with the `fallback` strategy. Sticky selection needs
+ * tracking IDs (`trackingEnabled` or `createFaceTracker`).
+ *
+ * Other strategies behave like `selectPrimaryFace`. All functions are worklets.
+ *
+ * @param strategy - Selection strategy. Default: 'largest'
+ * @returns Object with select, getTrackingId and reset functions
+ *
+ * @example
+ * ```ts
+ * const selector = createPrimaryFaceSelector({ type: 'sticky', handOffDelayMs: 1000 });
+ *
+ * const face = selector.select(faces);
+ * if (face) {
+ *   processBlinkFromFaces([face]);
+ * }
+ * ```
+ */
+export function createPrimaryFaceSelector(strategy: PrimaryFaceStrategy = 'largest') {
+  const config = resolveStrategy(strategy);
+  const state: { trackingId: number | null; lostAt: number | null } = {
+    trackingId: null,
+    lostAt: null,
+  };
+
+  return {
+    /**
+     * Select the primary face of a frame
+     */
+    select: (faces: Face[], timestamp: number = Date.now()): Face | null => {
+      'worklet';
+      if (config.type !== 'sticky') {
+        return pickFace(faces, config.type, config);
+      }
+
+      if (state.trackingId !== null) {
+        const current = faces.find((face) => face.trackingId === state.trackingId);
+        if (current) {
+          state.lostAt = null;
+          return current;
+        }
+
+        // Wait before handing off, the face may only be occluded for a moment
+        if (state.lostAt === null) {
+          state.lostAt = timestamp;
+        }
+        if (timestamp - state.lostAt < config.handOffDelayMs) {
+          return null;
+        }
+        state.trackingId = null;
+        state.lostAt = null;
+      }
+
+      const next = pickFace(faces, config.fallback, config);
+      if (next?.trackingId !== undefined) {
+        state.trackingId = next.trackingId;
+      }
+      return next;
+    },
+
+    /**
+     * Tracking ID of the current sticky selection
+     */
+    getTrackingId: (): number | null => {
+      'worklet';
+      return state.trackingId;
+    },
+
+    /**
+     * Forget the current selection
+     */
+    reset: (): void => {
+      'worklet';
+      state.trackingId = null;
+      state.lostAt = null;
+    },
+  };
+}
@@ -1,9 +1,20 @@
-import type { Face, StaticImageOptions } from '../types';
+import { Image, NativeModules } from 'react-native';
+
+import { normalizeFaces } from './faceNormalizer';
+import type {
+  Face,
+  FaceDetectionOptions,
+  ResolvedImageSource,
+  StaticFaceDetectionOutput,
+  StaticFaceDetectorBackend,
+  StaticImageOptions,
+} from '../types';
+import { createExifOrientationTransform } from '../utils/exifOrientation';
 
 /**
  * Default options for static image face detection
  */
-const DEFAULT_OPTIONS: Partial<StaticImageOptions> = {
+const DEFAULT_OPTIONS: Required<FaceDetectionOptions> = {
   performanceMode: 'accurate',
   landmarkMode: 'none',
   contourMode: 'none',
@@ -12,42 +23,181 @@ const DEFAULT_OPTIONS: Partial<StaticImageOptions> = {
   trackingEnabled: false,
 };
 
+/**
+ * Native module interface (android StaticFaceDetectorModule, ios SmartCameraStaticFaceDetector)
+ */
+interface StaticFaceDetectorNativeModule {
+  detectFaces: (
+    uri: string,
+    options: Required<FaceDetectionOptions>
+  ) => Promise<StaticFaceDetectionOutput>;
+}
+
+const NATIVE_MODULE_NAME = 'SmartCameraStaticFaceDetector';
+
+/**
+ * Static face detector backed by the native ML Kit module
+ */
+export const nativeStaticFaceDetectorBackend: StaticFaceDetectorBackend = {
+  name: 'native-mlkit',
+  isAvailable: () => NativeModules[NATIVE_MODULE_NAME] != null,
+  detect: (source, options) => {
+    const module = NativeModules[NATIVE_MODULE_NAME] as StaticFaceDetectorNativeModule;
+    return module.detectFaces(source.uri, options);
+  },
+};
+
+let activeBackend: StaticFaceDetectorBackend = nativeStaticFaceDetectorBackend;
+
+/**
+ * Use another backend for `detectFacesInImage`
+ *
+ * @param backend - Backend to use, or null to restore the native ML Kit backend
+ *
+ * @example
+ * ```ts
+ * // Jest / server-side: return fixed faces instead of calling the native module
+ * registerStaticFaceDetectorBackend({
+ *   name: 'fixture',
+ *   isAvailable: () => true,
+ *   detect: async () => ({ faces: fixtureFaces, width: 1080, height: 1440 }),
+ * });
+ * ```
+ */
+export function registerStaticFaceDetectorBackend(
+  backend: StaticFaceDetectorBackend | null
+): void {
+  activeBackend = backend ?? nativeStaticFaceDetectorBackend;
+}
+
+/**
+ * Get the backend used by `detectFacesInImage`
+ */
+export function getStaticFaceDetectorBackend(): StaticFaceDetectorBackend {
+  return activeBackend;
+}
+
+/**
+ * Resolve an image source to a URI
+ *
+ * @param image - require() result, URI string or `{ uri }` object
+ * @returns Resolved source
+ * @throws Error when the source cannot be resolved
+ */
+export function resolveImageSource(image: StaticImageOptions['image']): ResolvedImageSource {
+  if (typeof image === 'number') {
+    const asset = Image.resolveAssetSource(image);
+    if (!asset?.uri) {
+      throw new Error(`Image asset ${image} could not be resolved`);
+    }
+    return { uri: asset.uri, width: asset.width, height: asset.height };
+  }
+
+  const uri = typeof image === 'string' ? image : image?.uri;
+  if (typeof uri !== 'string' || uri.length === 0) {
+    throw new Error('Image must be a require() result, a URI string or an object with uri');
+  }
+  return { uri };
+}
+
 /**
  * Detect faces in a static image
- * 
- * NOTE: Static image detection is currently not supported in the frame processor-only version.
- * This feature requires native module implementation.
- * For real-time face detection, use the `detectFaces` function with VisionCamera frame processor.
- * 
+ *
+ * The image is resolved to a URI and passed to the registered backend (by
+ * default the native ML Kit module). Results are normalized to the same `Face`
+ * shape as the frame processor, in pixel coordinates.
+ *
+ * Detectors see the pixels as stored, while image views apply the EXIF
+ * orientation. With the default `coordinateSpace: 'display'` the results are
+ * rotated and mirrored to match the displayed image; the orientation is taken
+ * from the options, or else from the backend (the native module reads it while
+ * decoding the image). When neither has it, a warning is logged in development
+ * and the stored pixel coordinates are returned.
+ *
  * @param options - Image source and detection options
  * @returns Promise resolving to array of detected faces
- * 
+ * @throws Error when the image cannot be resolved or loaded, no backend is available or the
+ *   backend returns an invalid result
+ *
  * @example
  * ```tsx
- * // This feature is not yet implemented
- * // For real-time detection, use:
- * import { detectFaces } from '@arfuhad/react-native-smart-camera';
- * 
- * const frameProcessor = useFrameProcessor((frame) => {
- *   'worklet';
- *   const faces = detectFaces(frame);
- * }, []);
+ * const faces = await detectFacesInImage({
+ *   image: { uri: `file://${photo.path}` },
+ *   landmarkMode: 'all',
+ *   classificationMode: 'all',
+ * });
  * ```
  */
 export async function detectFacesInImage(options: StaticImageOptions): Promise<Face[]> {
-  const mergedOptions: StaticImageOptions = {
-    ...DEFAULT_OPTIONS,
-    ...options,
-  };
-
-  // TODO: Implement static image detection
-  // This requires either:
-  // 1. A separate native module for static image processing
-  // 2. Using react-native-ml-kit directly
-  console.warn(
-    '[SmartCamera] Static image detection is not yet implemented. ' +
-    'For real-time face detection, use the detectFaces function with VisionCamera frame processor.'
-  );
-  
-  return [];
+  const { image, coordinateSpace = 'display', orientation, ...detectionOptions } = options;
+  const mergedOptions: Required<FaceDetectionOptions> = { ...DEFAULT_OPTIONS };
+  (Object.keys(DEFAULT_OPTIONS) as (keyof FaceDetectionOptions)[]).forEach((key) => {
+    if (detectionOptions[key] !== undefined) {
+      (mergedOptions as Record<string, unknown>)[key] = detectionOptions[key];
+    }
+  });
+
+  const source = resolveImageSource(image);
+  const backend = activeBackend;
+  if (!backend.isAvailable()) {
+    throw new Error(
+      `Face detection backend "${backend.name}" is not available. ` +
+        'Rebuild the app after installing the package, or register a backend with ' +
+        'registerStaticFaceDetectorBackend.'
+    );
+  }
+
+  let output: StaticFaceDetectionOutput;
+  try {
+    output = await backend.detect(source, mergedOptions);
+  } catch (error) {
+    throw new Error(
+      `Face detection failed: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  if (
+    typeof output !== 'object' ||
+    output === null ||
+    typeof output.width !== 'number' ||
+    typeof output.height !== 'number'
+  ) {
+    throw new Error(
+      `Face detection backend "${backend.name}" returned an invalid result: ` +
+        'expected an object with faces, width and height'
+    );
+  }
+
+  const { faces, issues } = normalizeFaces(output.faces);
+  if (__DEV__ && issues.length > 0) {
+    console.warn(
+      `[SmartCamera] Static face detector output does not match the Face schema: ${issues
+        .slice(0, 5)
+        .map((issue) => `${issue.path} ${issue.message}`)
+        .join('; ')}`
+    );
+  }
+
+  if (coordinateSpace === 'sensor') {
+    return faces;
+  }
+
+  const imageOrientation = orientation ?? output.orientation;
+  if (imageOrientation === undefined) {
+    if (__DEV__) {
+      console.warn(
+        `[SmartCamera] The EXIF orientation of ${source.uri} could not be determined, ` +
+          'faces are returned in stored pixel coordinates. Pass `orientation` to detectFacesInImage.'
+      );
+    }
+    return faces;
+  }
+  if (imageOrientation === 1) {
+    return faces;
+  }
+  const transform = createExifOrientationTransform(imageOrientation, {
+    width: output.width,
+    height: output.height,
+  });
+  return faces.map(transform.faceToDisplay);
 }
@@ -9,11 +9,75 @@ export {
   type UseFaceDetectorOptions,
   type UseFaceDetectorResult,
   type UseFaceDetectorWithCallbackOptions,
+  type UseFaceDetectorWithCallbackResult,
   type FaceDetectionCallback,
 } from './useFaceDetector';
+export {
+  useFaceDelivery,
+  type UseFaceDeliveryOptions,
+  type UseFaceDeliveryResult,
+} from './useFaceDelivery';
+export {
+  useDetectorHealth,
+  type UseDetectorHealthOptions,
+  type UseDetectorHealthResult,
+} from './useDetectorHealth';
+
+// Frame analysis pipeline
+export {
+  useFrameAnalysis,
+  type UseFrameAnalysisOptions,
+  type UseFrameAnalysisResult,
+} from './useFrameAnalysis';
+export {
+  useFaceAnalyzers,
+  type UseFaceAnalyzersOptions,
+  type UseFaceAnalyzersResult,
+} from './useFaceAnalyzers';
+
+// Face tracking
+export {
+  useFaceTracker,
+  type UseFaceTrackerOptions,
+  type UseFaceTrackerResult,
+} from './useFaceTracker';
 
 // Eye/Blink detection
 export { useBlinkDetection, type UseBlinkDetectionOptions } from './useBlinkDetection';
+export {
+  useFatigueMonitor,
+  type UseFatigueMonitorOptions,
+  type UseFatigueMonitorResult,
+} from './useFatigueMonitor';
+
+// Face quality
+export {
+  useFaceQuality,
+  type UseFaceQualityOptions,
+  type UseFaceQualityResult,
+} from './useFaceQuality';
+export {
+  useAutoCapture,
+  type UseAutoCaptureOptions,
+  type UseAutoCaptureResult,
+} from './useAutoCapture';
+export {
+  useBestFramePicker,
+  type UseBestFramePickerOptions,
+  type UseBestFramePickerResult,
+} from './useBestFramePicker';
+
+// Liveness
+export {
+  useLivenessChallenge,
+  type UseLivenessChallengeOptions,
+  type UseLivenessChallengeResult,
+} from './useLivenessChallenge';
+export {
+  usePassiveLiveness,
+  type UsePassiveLivenessOptions,
+  type UsePassiveLivenessResult,
+} from './usePassiveLiveness';
 
 // WebRTC video calling
 export { useWebRTC } from './useWebRTC';
@@ -0,0 +1,382 @@
+import { useState, useCallback, useRef, useEffect, type RefObject } from 'react';
+import type { Camera, TakePhotoOptions } from 'react-native-vision-camera';
+
+import { scoreFaceQuality } from '../detection/faceQuality';
+import type {
+  AutoCaptureResult,
+  AutoCaptureStatus,
+  Face,
+  FaceQualityOptions,
+  FaceQualityResult,
+  Size,
+} from '../types';
+
+/**
+ * Options for useAutoCapture hook
+ */
+export interface UseAutoCaptureOptions {
+  /** Ref of the VisionCamera `Camera` used to take the photo (`photo` must be enabled) */
+  cameraRef: RefObject<Camera | null>;
+
+  /** Whether auto-capture is armed. Default: true */
+  enabled?: boolean;
+
+  /** Quality criteria the face has to meet */
+  quality?: FaceQualityOptions;
+
+  /** Frame size in the coordinate space of the face bounds. Default: { width: 1, height: 1 } (normalized) */
+  frameSize?: Size;
+
+  /** How long the criteria must hold before capturing in milliseconds. Default: 1000 */
+  stableDurationMs?: number;
+
+  /** Number of consecutive frames the criteria must hold (overrides stableDurationMs when set) */
+  stableFrames?: number;
+
+  /** Countdown between stabilization and capture in milliseconds. Default: 0 */
+  countdownMs?: number;
+
+  /** Pause after a capture before the next attempt in milliseconds. Default: 2000 */
+  cooldownMs?: number;
+
+  /** Maximum number of captures (unlimited when not set) */
+  maxAttempts?: number;
+
+  /** Options passed to `Camera.takePhoto` */
+  takePhotoOptions?: TakePhotoOptions;
+
+  /** Callback when the status changes */
+  onStatusChange?: (status: AutoCaptureStatus) => void;
+
+  /** Callback for every countdown second */
+  onCountdown?: (secondsRemaining: number) => void;
+
+  /** Callback with every captured photo */
+  onCapture?: (result: AutoCaptureResult) => void;
+
+  /** Callback when taking the photo fails */
+  onError?: (error: Error) => void;
+}
+
+/**
+ * Return type for useAutoCapture hook
+ */
+export interface UseAutoCaptureResult {
+  /** Current state */
+  status: AutoCaptureStatus;
+  /** Quality grade of the best face of the last frame (null when no face) */
+  quality: FaceQualityResult | null;
+  /** Stabilization progress (0-1, in steps of 0.1) */
+  progress: number;
+  /** Whole seconds left in the countdown (null when not counting down) */
+  countdownSeconds: number | null;
+  /** Number of captures taken so far */
+  attempts: number;
+  /** Most recent capture */
+  lastCapture: AutoCaptureResult | null;
+  /** Process detected faces - call this with the faces of every frame */
+  processFaces: (faces: Face[]) => void;
+  /** Reset attempts and start waiting again */
+  reset: () => void;
+}
+
+/**
+ * Pick the best-scoring face of a frame
+ */
+function pickBestFace(
+  faces: Face[],
+  frameSize: Size,
+  options: FaceQualityOptions | undefined
+): { face: Face; quality: FaceQualityResult } | null {
+  let best: { face: Face; quality: FaceQualityResult } | null = null;
+  for (const face of faces) {
+    const quality = scoreFaceQuality(face, frameSize, options);
+    if (!best || quality.score > best.quality.score) {
+      best = { face, quality };
+    }
+  }
+  return best;
+}
+
+/**
+ * Hook that takes a photo automatically once the face is good enough
+ *
+ * Grades the face stream with `scoreFaceQuality`, waits for the criteria to hold
+ * continuously (for `stableDurationMs` or `stableFrames`, on the same tracked face),
+ * optionally counts down and then calls `takePhoto` on the supplied camera ref.
+ * A failing criterion at any point before the capture starts over.
+ *
+ * @param options - Auto-capture options
+ * @returns Capture state and controls
+ *
+ * @example
+ * ```tsx
+ * function SelfieCapture() {
+ *   const camera = useRef<Camera>(null);
+ *   const { status, quality, countdownSeconds, processFaces } = useAutoCapture({
+ *     cameraRef: camera,
+ *     quality: { minFaceSize: 0.3 },
+ *     countdownMs: 3000,
+ *     maxAttempts: 1,
+ *     onCapture: ({ photo, face }) => uploadSelfie(photo.path, face),
+ *   });
+ *
+ *   const { detectFaces } = useFaceDetectorWithCallback({
+ *     landmarkMode: 'all',
+ *     classificationMode: 'all',
+ *     trackingEnabled: true,
+ *     onFacesDetected: processFaces,
+ *   });
+ *
+ *   const frameProcessor = useFrameProcessor((frame) => {
+ *     'worklet';
+ *     detectFaces(frame); // Calls processFaces on the JS thread
+ *   }, [detectFaces]);
+ *
+ *   return (
+ *     <>
+ *       <Camera ref={camera} photo={true} frameProcessor={frameProcessor} {...props} />
+ *       <Text>{countdownSeconds ?? quality?.reasons[0] ?? status}</Text>
+ *     </>
+ *   );
+ * }
+ * ```
+ */
+export function useAutoCapture(options: UseAutoCaptureOptions): UseAutoCaptureResult {
+  const { enabled = true } = options;
+
+  const [status, setStatus] = useState<AutoCaptureStatus>(enabled ? 'waiting' : 'idle');
+  const [quality, setQuality] = useState<FaceQualityResult | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [countdownSeconds, setCountdownSeconds] = useState<number | null>(null);
+  const [attempts, setAttempts] = useState(0);
+  const [lastCapture, setLastCapture] = useState<AutoCaptureResult | null>(null);
+
+  const optionsRef = useRef(options);
+  const statusRef = useRef<AutoCaptureStatus>(status);
+  const qualityRef = useRef<FaceQualityResult | null>(null);
+  const progressRef = useRef(0);
+  const countdownSecondsRef = useRef<number | null>(null);
+  const attemptsRef = useRef(0);
+  const stableSinceRef = useRef<number | null>(null);
+  const stableFrameCountRef = useRef(0);
+  const stableFaceIdRef = useRef<number | undefined>(undefined);
+  const countdownEndRef = useRef(0);
+  const cooldownEndRef = useRef(0);
+  // Incremented on reset so captures in flight are discarded
+  const generationRef = useRef(0);
+
+  // Keep options ref updated
+  useEffect(() => {
+    optionsRef.current = options;
+  });
+
+  const updateStatus = useCallback((next: AutoCaptureStatus) => {
+    if (statusRef.current === next) {
+      return;
+    }
+    statusRef.current = next;
+    setStatus(next);
+    optionsRef.current.onStatusChange?.(next);
+  }, []);
+
+  const updateProgress = useCallback((value: number) => {
+    const stepped = Math.min(1, Math.floor(value * 10) / 10);
+    if (progressRef.current !== stepped) {
+      progressRef.current = stepped;
+      setProgress(stepped);
+    }
+  }, []);
+
+  const updateCountdown = useCallback((seconds: number | null) => {
+    if (countdownSecondsRef.current === seconds) {
+      return;
+    }
+    countdownSecondsRef.current = seconds;
+    setCountdownSeconds(seconds);
+    if (seconds !== null) {
+      optionsRef.current.onCountdown?.(seconds);
+    }
+  }, []);
+
+  const updateQuality = useCallback((next: FaceQualityResult | null) => {
+    const previous = qualityRef.current;
+    // Only re-render when something the UI shows changed
+    if (
+      previous === next ||
+      (previous &&
+        next &&
+        previous.passed === next.passed &&
+        previous.reasons.join() === next.reasons.join() &&
+        Math.abs(previous.score - next.score) < 0.05)
+    ) {
+      return;
+    }
+    qualityRef.current = next;
+    setQuality(next);
+  }, []);
+
+  const clearStability = useCallback(() => {
+    stableSinceRef.current = null;
+    stableFrameCountRef.current = 0;
+    stableFaceIdRef.current = undefined;
+    updateProgress(0);
+    updateCountdown(null);
+  }, [updateProgress, updateCountdown]);
+
+  const capture = useCallback(async (face: Face, faceQuality: FaceQualityResult, now: number) => {
+    const { cameraRef, takePhotoOptions, maxAttempts, cooldownMs = 2000 } = optionsRef.current;
+    const generation = generationRef.current;
+    const camera = cameraRef.current;
+
+    clearStability();
+
+    if (!camera) {
+      optionsRef.current.onError?.(new Error('[useAutoCapture] Camera ref is not attached'));
+      updateStatus('waiting');
+      return;
+    }
+
+    attemptsRef.current += 1;
+    const attempt = attemptsRef.current;
+    setAttempts(attempt);
+    updateStatus('capturing');
+
+    try {
+      const photo = await camera.takePhoto(takePhotoOptions);
+      if (generation !== generationRef.current) {
+        return;
+      }
+
+      const result: AutoCaptureResult = {
+        photo,
+        face,
+        quality: faceQuality,
+        attempt,
+        timestamp: now,
+      };
+      setLastCapture(result);
+      optionsRef.current.onCapture?.(result);
+    } catch (error) {
+      if (generation !== generationRef.current) {
+        return;
+      }
+      optionsRef.current.onError?.(error instanceof Error ? error : new Error(String(error)));
+    }
+
+    if (maxAttempts !== undefined && attempt >= maxAttempts) {
+      updateStatus('done');
+      return;
+    }
+
+    cooldownEndRef.current = Date.now() + cooldownMs;
+    updateStatus('cooldown');
+  }, [clearStability, updateStatus]);
+
+  const processFaces = useCallback((faces: Face[]) => {
+    const current = statusRef.current;
+    if (!enabled || current === 'idle' || current === 'capturing' || current === 'done') {
+      return;
+    }
+
+    const {
+      quality: qualityOptions,
+      frameSize = { width: 1, height: 1 },
+      stableDurationMs = 1000,
+      stableFrames,
+      countdownMs = 0,
+    } = optionsRef.current;
+
+    const now = Date.now();
+    const best = pickBestFace(faces, frameSize, qualityOptions);
+    updateQuality(best?.quality ?? null);
+
+    if (current === 'cooldown') {
+      if (now < cooldownEndRef.current) {
+        return;
+      }
+      updateStatus('waiting');
+    }
+
+    // A different person restarts the stabilization
+    const faceChanged =
+      best?.face.trackingId !== undefined &&
+      stableFaceIdRef.current !== undefined &&
+      best.face.trackingId !== stableFaceIdRef.current;
+
+    if (!best || !best.quality.passed || faceChanged) {
+      clearStability();
+      updateStatus('waiting');
+      return;
+    }
+
+    if (statusRef.current === 'countdown') {
+      const remaining = countdownEndRef.current - now;
+      if (remaining > 0) {
+        updateCountdown(Math.ceil(remaining / 1000));
+        return;
+      }
+      capture(best.face, best.quality, now);
+      return;
+    }
+
+    stableSinceRef.current = stableSinceRef.current ?? now;
+    stableFrameCountRef.current += 1;
+    stableFaceIdRef.current = best.face.trackingId;
+
+    const stability =
+      stableFrames !== undefined
+        ? stableFrameCountRef.current / Math.max(stableFrames, 1)
+        : stableDurationMs > 0
+          ? (now - stableSinceRef.current) / stableDurationMs
+          : 1;
+    updateProgress(stability);
+
+    if (stability < 1) {
+      updateStatus('stabilizing');
+      return;
+    }
+
+    if (countdownMs > 0) {
+      countdownEndRef.current = now + countdownMs;
+      updateCountdown(Math.ceil(countdownMs / 1000));
+      updateStatus('countdown');
+      return;
+    }
+
+    capture(best.face, best.quality, now);
+  }, [enabled, capture, clearStability, updateCountdown, updateProgress, updateQuality, updateStatus]);
+
+  const reset = useCallback(() => {
+    generationRef.current += 1;
+    attemptsRef.current = 0;
+    cooldownEndRef.current = 0;
+    clearStability();
+    updateQuality(null);
+    setAttempts(0);
+    setLastCapture(null);
+    updateStatus(enabled ? 'waiting' : 'idle');
+  }, [enabled, clearStability, updateQuality, updateStatus]);
+
+  // Disarm when disabled, re-arm when enabled again
+  useEffect(() => {
+    if (!enabled) {
+      generationRef.current += 1;
+      clearStability();
+      updateStatus('idle');
+    } else if (statusRef.current === 'idle') {
+      updateStatus('waiting');
+    }
+  }, [enabled, clearStability, updateStatus]);
+
+  return {
+    status,
+    quality,
+    progress,
+    countdownSeconds,
+    attempts,
+    lastCapture,
+    processFaces,
+    reset,
+  };
+}
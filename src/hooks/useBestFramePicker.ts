@@ -0,0 +1,341 @@
+import { useState, useCallback, useRef, useEffect, useMemo, type RefObject } from 'react';
+import type {
+  Camera,
+  PhotoFile,
+  TakePhotoOptions,
+  TakeSnapshotOptions,
+} from 'react-native-vision-camera';
+
+import { createBestFramePicker } from '../detection/bestFramePicker';
+import type {
+  BestFrameCapture,
+  BestFrameMoment,
+  BestFramePickerOptions,
+  Face,
+} from '../types';
+
+/**
+ * Options for useBestFramePicker hook
+ */
+export interface UseBestFramePickerOptions extends BestFramePickerOptions {
+  /** Ref of the VisionCamera `Camera` used by `capture` */
+  cameraRef?: RefObject<Camera | null>;
+
+  /** Whether frames are scored. Default: true */
+  enabled?: boolean;
+
+  /**
+   * How shots are taken during the capture window
+   * - 'snapshot': `takeSnapshot` (fast, preview resolution; iOS needs `video` enabled)
+   * - 'photo': `takePhoto` (full resolution, slower)
+   * @default 'snapshot'
+   */
+  captureMode?: 'snapshot' | 'photo';
+
+  /** Length of the capture window in milliseconds. Default: 2000 */
+  windowMs?: number;
+
+  /** Score improvement over the best shot so far needed to take another shot. Default: 0.05 */
+  minImprovement?: number;
+
+  /** Options passed to `takePhoto` in 'photo' mode */
+  takePhotoOptions?: TakePhotoOptions;
+
+  /** Options passed to `takeSnapshot` in 'snapshot' mode */
+  takeSnapshotOptions?: TakeSnapshotOptions;
+
+  /** Minimum time between `bestMoment` state updates in milliseconds. Default: 250 */
+  updateIntervalMs?: number;
+
+  /** Callback with the kept photo at the end of a capture window */
+  onCapture?: (capture: BestFrameCapture) => void;
+
+  /** Callback when taking a shot fails */
+  onError?: (error: Error) => void;
+}
+
+/**
+ * Return type for useBestFramePicker hook
+ */
+export interface UseBestFramePickerResult {
+  /** Best moment in the buffer (null when empty) */
+  bestMoment: BestFrameMoment | null;
+  /** Whether a capture window is open */
+  isCapturing: boolean;
+  /** Open a capture window and resolve with the best shot (null when no shot could be taken) */
+  capture: () => Promise<BestFrameCapture | null>;
+  /** Process detected faces - call this with the faces of every frame */
+  processFaces: (faces: Face[]) => void;
+  /** Clear the buffer */
+  reset: () => void;
+}
+
+/**
+ * Shot taken during a capture window
+ */
+interface Shot {
+  photo: PhotoFile;
+  moment: BestFrameMoment;
+}
+
+/**
+ * Open capture window
+ */
+interface CaptureWindow {
+  start: number;
+  end: number;
+  shots: Shot[];
+  inFlight: Promise<void> | null;
+  bestShotScore: number;
+  promise: Promise<BestFrameCapture | null>;
+  /** Settle the promise with null without waiting for the window */
+  cancel: () => void;
+}
+
+/**
+ * Hook that keeps the best shot of a capture window instead of the last one
+ *
+ * Scores every frame's faces with `createBestFramePicker`. `capture()` opens a
+ * window of `windowMs`; whenever a frame in the window beats the best shot so far
+ * by `minImprovement`, a snapshot (or photo) is taken. At the end of the window the
+ * shot of the best-scoring moment is returned. Shots that are not kept stay in the
+ * camera's temporary directory. `capture()` resolves with null when no camera is
+ * attached (after reporting it to `onError`) or the component unmounts.
+ *
+ * @param options - Best-frame picker options
+ * @returns Best moment, capture function and controls
+ *
+ * @example
+ * ```tsx
+ * function GroupPhoto() {
+ *   const camera = useRef<Camera>(null);
+ *   const { capture, processFaces } = useBestFramePicker({
+ *     cameraRef: camera,
+ *     minFaces: 2,
+ *     windowMs: 3000,
+ *   });
+ *
+ *   const { detectFaces } = useFaceDetectorWithCallback({
+ *     classificationMode: 'all',
+ *     trackingEnabled: true,
+ *     onFacesDetected: processFaces,
+ *   });
+ *
+ *   const frameProcessor = useFrameProcessor((frame) => {
+ *     'worklet';
+ *     detectFaces(frame); // Calls processFaces on the JS thread
+ *   }, [detectFaces]);
+ *
+ *   const onShutter = async () => {
+ *     const best = await capture();
+ *     if (best) {
+ *       savePhoto(best.photo.path);
+ *     }
+ *   };
+ *
+ *   return <Camera ref={camera} video={true} frameProcessor={frameProcessor} {...props} />;
+ * }
+ * ```
+ */
+export function useBestFramePicker(
+  options: UseBestFramePickerOptions = {}
+): UseBestFramePickerResult {
+  const {
+    enabled = true,
+    updateIntervalMs = 250,
+    bufferSize,
+    weights,
+    minFaces,
+    maxAngle,
+    maxMotion,
+  } = options;
+
+  const [bestMoment, setBestMoment] = useState<BestFrameMoment | null>(null);
+  const [isCapturing, setIsCapturing] = useState(false);
+  const optionsRef = useRef(options);
+  const windowRef = useRef<CaptureWindow | null>(null);
+  const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const lastUpdateRef = useRef(0);
+
+  // Keep options ref updated
+  useEffect(() => {
+    optionsRef.current = options;
+  });
+
+  const eyesWeight = weights?.eyesOpen;
+  const smilingWeight = weights?.smiling;
+  const frontalWeight = weights?.frontal;
+  const sharpnessWeight = weights?.sharpness;
+
+  const picker = useMemo(() => createBestFramePicker({
+    bufferSize,
+    weights: {
+      eyesOpen: eyesWeight,
+      smiling: smilingWeight,
+      frontal: frontalWeight,
+      sharpness: sharpnessWeight,
+    },
+    minFaces,
+    maxAngle,
+    maxMotion,
+  }), [
+    bufferSize,
+    eyesWeight,
+    smilingWeight,
+    frontalWeight,
+    sharpnessWeight,
+    minFaces,
+    maxAngle,
+    maxMotion,
+  ]);
+
+  const takeShot = useCallback((captureWindow: CaptureWindow, moment: BestFrameMoment) => {
+    const {
+      cameraRef,
+      captureMode = 'snapshot',
+      takePhotoOptions,
+      takeSnapshotOptions,
+    } = optionsRef.current;
+    const camera = cameraRef?.current;
+    if (!camera) {
+      return;
+    }
+
+    captureWindow.bestShotScore = Math.max(captureWindow.bestShotScore, moment.score);
+    const shot =
+      captureMode === 'photo'
+        ? camera.takePhoto(takePhotoOptions)
+        : camera.takeSnapshot(takeSnapshotOptions);
+
+    captureWindow.inFlight = shot
+      .then((photo) => {
+        captureWindow.shots.push({ photo, moment });
+      })
+      .catch((error) => {
+        optionsRef.current.onError?.(error instanceof Error ? error : new Error(String(error)));
+      })
+      .finally(() => {
+        captureWindow.inFlight = null;
+      });
+  }, []);
+
+  const processFaces = useCallback((faces: Face[]) => {
+    if (!enabled) {
+      return;
+    }
+
+    const now = Date.now();
+    const moment = picker.addFaces(faces, now);
+
+    const captureWindow = windowRef.current;
+    if (captureWindow && now <= captureWindow.end && !captureWindow.inFlight) {
+      const minImprovement = optionsRef.current.minImprovement ?? 0.05;
+      if (
+        captureWindow.shots.length === 0 ||
+        moment.score >= captureWindow.bestShotScore + minImprovement
+      ) {
+        takeShot(captureWindow, moment);
+      }
+    }
+
+    if (now - lastUpdateRef.current >= updateIntervalMs) {
+      lastUpdateRef.current = now;
+      setBestMoment(picker.getBest());
+    }
+  }, [enabled, picker, takeShot, updateIntervalMs]);
+
+  const finishWindow = useCallback(async (captureWindow: CaptureWindow): Promise<BestFrameCapture | null> => {
+    if (captureWindow.inFlight) {
+      await captureWindow.inFlight;
+    }
+
+    // No shot was taken in the window - fall back to a shot of the latest moment
+    if (captureWindow.shots.length === 0) {
+      const moments = picker.getMoments();
+      const latest = moments[moments.length - 1];
+      if (latest) {
+        takeShot(captureWindow, latest);
+        if (captureWindow.inFlight) {
+          await captureWindow.inFlight;
+        }
+      }
+    }
+
+    if (windowRef.current === captureWindow) {
+      windowRef.current = null;
+      setIsCapturing(false);
+    }
+
+    if (captureWindow.shots.length === 0) {
+      return null;
+    }
+
+    const kept = captureWindow.shots.reduce((best, shot) =>
+      shot.moment.score > best.moment.score ? shot : best
+    );
+    const result: BestFrameCapture = {
+      photo: kept.photo,
+      moment: kept.moment,
+      bestMoment: picker.getBest(captureWindow.start, captureWindow.end) ?? kept.moment,
+      shotCount: captureWindow.shots.length,
+    };
+    optionsRef.current.onCapture?.(result);
+    return result;
+  }, [picker, takeShot]);
+
+  const capture = useCallback((): Promise<BestFrameCapture | null> => {
+    if (windowRef.current) {
+      return windowRef.current.promise;
+    }
+
+    const { cameraRef, windowMs = 2000 } = optionsRef.current;
+    if (!cameraRef?.current) {
+      optionsRef.current.onError?.(new Error('[useBestFramePicker] Camera ref is not attached'));
+      return Promise.resolve(null);
+    }
+
+    const start = Date.now();
+    const captureWindow: CaptureWindow = {
+      start,
+      end: start + windowMs,
+      shots: [],
+      inFlight: null,
+      bestShotScore: -Infinity,
+      promise: Promise.resolve(null),
+      cancel: () => {},
+    };
+    captureWindow.promise = new Promise<BestFrameCapture | null>((resolve) => {
+      timeoutRef.current = setTimeout(() => resolve(finishWindow(captureWindow)), windowMs);
+      captureWindow.cancel = () => resolve(null);
+    });
+
+    windowRef.current = captureWindow;
+    setIsCapturing(true);
+    return captureWindow.promise;
+  }, [finishWindow]);
+
+  const reset = useCallback(() => {
+    picker.reset();
+    lastUpdateRef.current = 0;
+    setBestMoment(null);
+  }, [picker]);
+
+  // Cancel the window timer on unmount and settle a pending capture
+  useEffect(() => {
+    return () => {
+      if (timeoutRef.current) {
+        clearTimeout(timeoutRef.current);
+      }
+      windowRef.current?.cancel();
+      windowRef.current = null;
+    };
+  }, []);
+
+  return {
+    bestMoment,
+    isCapturing,
+    capture,
+    processFaces,
+    reset,
+  };
+}
@@ -1,5 +1,11 @@
-import { useState, useCallback, useRef, useEffect } from 'react';
-import type { Face, EyeStatusResult, UseBlinkDetectionResult } from '../types';
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import { createPrimaryFaceSelector } from '../detection/primaryFace';
+import type {
+  Face,
+  EyeStatusResult,
+  PrimaryFaceStrategy,
+  UseBlinkDetectionResult,
+} from '../types';
 
 /**
  * Options for useBlinkDetection hook
@@ -11,6 +17,12 @@ export interface UseBlinkDetectionOptions {
   /** Threshold below which an eye is considered closed (0-1). Default: 0.5 */
   eyeClosedThreshold?: number;
   
+  /**
+   * Which face to follow when several are detected. Use 'sticky' (with tracking IDs)
+   * so a passer-by can't take over. Default: 'largest'
+   */
+  primaryFace?: PrimaryFaceStrategy;
+  
   /** Callback when eye status changes */
   onEyeStatusChange?: (status: EyeStatusResult) => void;
 }
@@ -57,6 +69,7 @@ export function useBlinkDetection(
   const { 
     enabled = true, 
     eyeClosedThreshold = 0.5, 
+    primaryFace = 'largest',
     onEyeStatusChange 
   } = options;
   
@@ -68,14 +81,24 @@ export function useBlinkDetection(
     callbackRef.current = onEyeStatusChange;
   }, [onEyeStatusChange]);
 
+  // Recreate the selector only when the strategy changes
+  const primaryFaceKey = JSON.stringify(primaryFace);
+  const selector = useMemo(
+    () => createPrimaryFaceSelector(JSON.parse(primaryFaceKey)),
+    [primaryFaceKey]
+  );
+
   // Process faces to get eye status (call this from JS thread with detected faces)
   const processEyeStatus = useCallback((faces: Face[]) => {
-    if (!enabled || faces.length === 0) {
+    if (!enabled) {
       return;
     }
 
-    // Use the first face (most prominent)
-    const face = faces[0];
+    // ML Kit does not order faces by prominence
+    const face = selector.select(faces);
+    if (!face) {
+      return;
+    }
 
     // Ensure we have eye classification data
     if (
@@ -104,12 +127,13 @@ export function useBlinkDetection(
 
     setEyeStatus(status);
     callbackRef.current?.(status);
-  }, [enabled, eyeClosedThreshold]);
+  }, [enabled, eyeClosedThreshold, selector]);
 
   // Reset eye status
   const reset = useCallback(() => {
+    selector.reset();
     setEyeStatus(null);
-  }, []);
+  }, [selector]);
 
   // Reset on disable
   useEffect(() => {
@@ -0,0 +1,193 @@
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { useRunOnJS, useSharedValue } from 'react-native-worklets-core';
+
+import { isFaceDetectorAvailable, type FaceDetectionAttempt } from '../detection/faceDetector';
+import type { DetectorHealthState, SmartCameraError, SmartCameraErrorCode } from '../types';
+
+/**
+ * Options for useDetectorHealth hook
+ */
+export interface UseDetectorHealthOptions {
+  /** Whether detection is expected to run (an unavailable plugin is only reported when enabled). Default: true */
+  enabled?: boolean;
+
+  /** Minimum time between two `onError` reports in milliseconds. Default: 5000 */
+  errorIntervalMs?: number;
+
+  /** Consecutive failed frames after which the detector counts as degraded. Default: 3 */
+  degradedAfterFailures?: number;
+
+  /** Callback with detector errors (rate-limited) */
+  onError?: (error: SmartCameraError) => void;
+
+  /** Callback when the health state changes */
+  onHealthChange?: (health: DetectorHealthState) => void;
+}
+
+/**
+ * Return type for useDetectorHealth hook
+ */
+export interface UseDetectorHealthResult {
+  /** Current health state */
+  health: DetectorHealthState;
+  /** Consecutive failed frames as of the last report */
+  consecutiveFailures: number;
+  /** Most recent error */
+  lastError: SmartCameraError | null;
+  /** Report the outcome of a `tryDetectFaces` call (worklet) */
+  reportAttempt: (attempt: FaceDetectionAttempt) => void;
+  /** Report a failure in a frame processor (worklet) */
+  reportError: (code: SmartCameraErrorCode, message: string) => void;
+  /** Clear the failure count and last error */
+  reset: () => void;
+}
+
+/**
+ * Hook that surfaces face detector failures on the JS thread
+ *
+ * Without it, a misconfigured build looks exactly like "no faces". Failures are
+ * counted in the frame processor; the JS thread is only called for the first
+ * failure, when the detector becomes degraded, at most once per `errorIntervalMs`
+ * while failures continue, and once when detection recovers.
+ *
+ * @param options - Detector health options
+ * @returns Health state and worklet reporting functions
+ *
+ * @example
+ * ```tsx
+ * function Scanner() {
+ *   const { health, reportAttempt } = useDetectorHealth({
+ *     onError: (error) => console.warn(error.code, error.message),
+ *   });
+ *
+ *   const frameProcessor = useFrameProcessor((frame) => {
+ *     'worklet';
+ *     const attempt = tryDetectFaces(frame, { classificationMode: 'all' });
+ *     reportAttempt(attempt);
+ *   }, [reportAttempt]);
+ *
+ *   return health === 'unavailable' ? <SetupHint /> : <Camera frameProcessor={frameProcessor} {...props} />;
+ * }
+ * ```
+ */
+export function useDetectorHealth(options: UseDetectorHealthOptions = {}): UseDetectorHealthResult {
+  const {
+    enabled = true,
+    errorIntervalMs = 5000,
+    degradedAfterFailures = 3,
+    onError,
+    onHealthChange,
+  } = options;
+
+  const available = isFaceDetectorAvailable();
+  const [consecutiveFailures, setConsecutiveFailures] = useState(0);
+  const [lastError, setLastError] = useState<SmartCameraError | null>(null);
+  const callbacksRef = useRef({ onError, onHealthChange });
+
+  // Worklet-side counters, so healthy frames never call into JS
+  const failureCount = useSharedValue(0);
+  const lastReportedAt = useSharedValue(0);
+
+  // Keep callbacks ref updated
+  useEffect(() => {
+    callbacksRef.current = { onError, onHealthChange };
+  }, [onError, onHealthChange]);
+
+  const health: DetectorHealthState = !available
+    ? 'unavailable'
+    : consecutiveFailures >= degradedAfterFailures
+      ? 'degraded'
+      : 'ready';
+
+  // Notify health changes
+  const previousHealthRef = useRef(health);
+  useEffect(() => {
+    if (previousHealthRef.current !== health) {
+      previousHealthRef.current = health;
+      callbacksRef.current.onHealthChange?.(health);
+    }
+  }, [health]);
+
+  // Report a missing plugin once instead of on every frame
+  useEffect(() => {
+    if (enabled && !available) {
+      const error: SmartCameraError = {
+        code: 'ML_KIT_ERROR',
+        message:
+          'Face detector frame processor plugin is not available. ' +
+          'Make sure the native module is linked and the app was rebuilt.',
+      };
+      setLastError(error);
+      callbacksRef.current.onError?.(error);
+    }
+  }, [enabled, available]);
+
+  const handleFailure = useRunOnJS((
+    code: SmartCameraErrorCode,
+    message: string,
+    failures: number,
+    notify: boolean
+  ) => {
+    const error: SmartCameraError = { code, message };
+    setConsecutiveFailures(failures);
+    setLastError(error);
+    if (notify) {
+      callbacksRef.current.onError?.(error);
+    }
+  }, []);
+
+  const handleRecovery = useRunOnJS(() => {
+    setConsecutiveFailures(0);
+  }, []);
+
+  const reportError = useCallback((code: SmartCameraErrorCode, message: string) => {
+    'worklet';
+    if (!enabled) {
+      return;
+    }
+
+    failureCount.value += 1;
+    const failures = failureCount.value;
+    const now = Date.now();
+    const notify = now - lastReportedAt.value >= errorIntervalMs;
+
+    if (notify || failures === 1 || failures === degradedAfterFailures) {
+      if (notify) {
+        lastReportedAt.value = now;
+      }
+      handleFailure(code, message, failures, notify);
+    }
+  }, [enabled, errorIntervalMs, degradedAfterFailures, failureCount, lastReportedAt, handleFailure]);
+
+  const reportAttempt = useCallback((attempt: FaceDetectionAttempt) => {
+    'worklet';
+    // A missing plugin is reported once on mount
+    if (!available) {
+      return;
+    }
+    if (attempt.error) {
+      reportError(attempt.error.code, attempt.error.message);
+      return;
+    }
+    if (failureCount.value > 0) {
+      failureCount.value = 0;
+      handleRecovery();
+    }
+  }, [available, reportError, failureCount, handleRecovery]);
+
+  const reset = useCallback(() => {
+    failureCount.value = 0;
+    lastReportedAt.value = 0;
+    setConsecutiveFailures(0);
+    setLastError(null);
+  }, [failureCount, lastReportedAt]);
+
+  return {
+    health,
+    consecutiveFailures,
+    lastError,
+    reportAttempt,
+    reportError,
+    reset,
+  };
+}
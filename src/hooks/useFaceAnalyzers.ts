@@ -0,0 +1,134 @@
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import type { Frame } from 'react-native-vision-camera';
+import { useRunOnJS, useSharedValue } from 'react-native-worklets-core';
+
+import { createFrameAnalysisPipeline } from '../detection/frameAnalysis';
+import type { Face, FrameAnalyzer, FrameAnalyzerResults } from '../types';
+
+/**
+ * Options for useFaceAnalyzers hook
+ */
+export interface UseFaceAnalyzersOptions<A extends Record<string, FrameAnalyzer<unknown>>> {
+  /**
+   * Analyzers by name. Create them once (e.g. with `useMemo`); a new object
+   * rebuilds the pipeline and its analyzer state.
+   */
+  analyzers: A;
+
+  /** Whether analysis is enabled. Default: true */
+  enabled?: boolean;
+
+  /** Callbacks with the delivered results, by analyzer name */
+  onResults?: { [K in keyof A]?: (result: NonNullable<FrameAnalyzerResults<A>[K]>) => void };
+}
+
+/**
+ * Return type for useFaceAnalyzers hook
+ */
+export interface UseFaceAnalyzersResult<A extends Record<string, FrameAnalyzer<unknown>>> {
+  /** Latest delivered result of each analyzer */
+  results: FrameAnalyzerResults<A>;
+  /** Run all analyzers on the faces of a frame (for use in frame processor) */
+  analyzeFaces: (faces: Face[], frame: Frame) => void;
+  /** Clear the results and the analyzer state */
+  reset: () => void;
+}
+
+/**
+ * Hook running analyzers on faces detected elsewhere
+ *
+ * The analyzer half of `useFrameAnalysis`: pass the faces your frame processor
+ * already detected to `analyzeFaces`, so adding analyzers never adds another
+ * `detectFaces` call. `useFaceDetectorWithCallback` and `useWebRTCWithDetection`
+ * use it for their `analyzers` option.
+ *
+ * @param options - Analyzers and callbacks
+ * @returns Latest results and the analyzeFaces function
+ *
+ * @example
+ * ```tsx
+ * const analyzers = useMemo(() => ({ pose: createPoseAnalyzer() }), []);
+ * const { results, analyzeFaces } = useFaceAnalyzers({ analyzers });
+ *
+ * const frameProcessor = useFrameProcessor((frame) => {
+ *   'worklet';
+ *   const faces = detectFaces(frame);
+ *   analyzeFaces(faces, frame);
+ * }, [detectFaces, analyzeFaces]);
+ * ```
+ */
+export function useFaceAnalyzers<A extends Record<string, FrameAnalyzer<unknown>>>(
+  options: UseFaceAnalyzersOptions<A>
+): UseFaceAnalyzersResult<A> {
+  const { analyzers, enabled = true, onResults } = options;
+
+  const [results, setResults] = useState<FrameAnalyzerResults<A>>({});
+  const callbacksRef = useRef(onResults);
+
+  // Keep callbacks ref updated
+  useEffect(() => {
+    callbacksRef.current = onResults;
+  }, [onResults]);
+
+  const pipeline = useMemo(() => createFrameAnalysisPipeline(analyzers), [analyzers]);
+
+  // Analyzer state lives on the frame processor thread, so resets are applied there
+  const resetRequested = useSharedValue(false);
+
+  const handleResults = useRunOnJS((due: FrameAnalyzerResults<A>) => {
+    setResults((previous) => ({ ...previous, ...due }));
+    const callbacks = callbacksRef.current;
+    if (callbacks) {
+      (Object.keys(due) as (keyof A)[]).forEach((name) => {
+        const result = due[name];
+        if (result !== undefined && result !== null) {
+          callbacks[name]?.(result as NonNullable<FrameAnalyzerResults<A>[typeof name]>);
+        }
+      });
+    }
+  }, []);
+
+  const analyzeFaces = useCallback((faces: Face[], frame: Frame): void => {
+    'worklet';
+    if (!enabled) {
+      return;
+    }
+
+    if (resetRequested.value) {
+      resetRequested.value = false;
+      pipeline.reset();
+    }
+
+    const due = pipeline.analyze(faces, {
+      timestamp: Date.now(),
+      frameWidth: frame.width,
+      frameHeight: frame.height,
+    });
+    if (due) {
+      handleResults(due);
+    }
+  }, [enabled, resetRequested, pipeline, handleResults]);
+
+  const reset = useCallback(() => {
+    resetRequested.value = true;
+    setResults({});
+  }, [resetRequested]);
+
+  // A new pipeline starts without results
+  useEffect(() => {
+    setResults({});
+  }, [pipeline]);
+
+  // Reset on disable
+  useEffect(() => {
+    if (!enabled) {
+      reset();
+    }
+  }, [enabled, reset]);
+
+  return {
+    results,
+    analyzeFaces,
+    reset,
+  };
+}
@@ -0,0 +1,194 @@
+import { useCallback, useRef, useEffect } from 'react';
+import { useRunOnJS, useSharedValue, type ISharedValue } from 'react-native-worklets-core';
+
+import type { Face, FaceDeliveryOptions, FaceDeliveryStats } from '../types';
+import { haveFacesChanged } from '../utils/faceChanges';
+
+/**
+ * Options for useFaceDelivery hook
+ */
+export interface UseFaceDeliveryOptions extends FaceDeliveryOptions {
+  /** Callback on the JS thread with delivered faces */
+  onFaces?: (faces: Face[]) => void;
+
+  /**
+   * Shared value receiving the faces of every frame, for consumers that read
+   * results on the UI or frame processor thread instead of through `onFaces`
+   */
+  output?: ISharedValue<Face[]>;
+}
+
+/**
+ * Return type for useFaceDelivery hook
+ */
+export interface UseFaceDeliveryResult {
+  /** Hand the faces of a frame to the delivery layer (worklet) */
+  deliver: (faces: Face[]) => void;
+  /** Delivery counters since the last reset */
+  getStats: () => FaceDeliveryStats;
+  /** Clear the counters and any pending result */
+  reset: () => void;
+}
+
+/**
+ * Hook delivering frame processor results to the JS thread without unbounded queueing
+ *
+ * Calling a `runOnJS` function on every frame queues work whenever the JS thread
+ * is slower than the camera. Except for the 'every' policy, at most one delivery
+ * is in flight: frames arriving meanwhile replace the pending result (counted as
+ * dropped) and the JS thread always receives the newest faces. 'max-rate' and
+ * 'change-only' additionally filter which frames are delivered at all.
+ *
+ * @param options - Delivery policy, callback and shared value output
+ * @returns Worklet deliver function and delivery counters
+ *
+ * @example
+ * ```tsx
+ * function Overlay() {
+ *   const [faces, setFaces] = useState<Face[]>([]);
+ *   const { detectFaces } = useFaceDetector();
+ *   const { deliver, getStats } = useFaceDelivery({
+ *     policy: 'max-rate',
+ *     maxRate: 10,
+ *     onFaces: setFaces,
+ *   });
+ *
+ *   const frameProcessor = useFrameProcessor((frame) => {
+ *     'worklet';
+ *     deliver(detectFaces(frame));
+ *   }, [detectFaces, deliver]);
+ *
+ *   // getStats().dropped tells how far the JS thread fell behind
+ *   return <Camera frameProcessor={frameProcessor} {...props} />;
+ * }
+ * ```
+ */
+export function useFaceDelivery(options: UseFaceDeliveryOptions = {}): UseFaceDeliveryResult {
+  const {
+    onFaces,
+    output,
+    policy = 'latest',
+    maxRate = 15,
+    changePolicy = 'bounds',
+    boundsTolerance = 0.05,
+  } = options;
+
+  const callbackRef = useRef(onFaces);
+  const hasCallback = onFaces != null;
+
+  // Keep callback ref updated
+  useEffect(() => {
+    callbackRef.current = onFaces;
+  }, [onFaces]);
+
+  const pending = useSharedValue<Face[] | null>(null);
+  const inFlight = useSharedValue(false);
+  const lastQueued = useSharedValue<Face[] | null>(null);
+  const lastQueuedAt = useSharedValue(0);
+  const delivered = useSharedValue(0);
+  const dropped = useSharedValue(0);
+  const unchanged = useSharedValue(0);
+
+  // Deliver pending results until none is left, then accept the next dispatch
+  const flush = useRunOnJS(() => {
+    for (;;) {
+      const faces = pending.value;
+      if (faces !== null) {
+        pending.value = null;
+        delivered.value += 1;
+        callbackRef.current?.(faces);
+        continue;
+      }
+      inFlight.value = false;
+      // A result may have arrived after the last check
+      if (pending.value === null) {
+        return;
+      }
+      inFlight.value = true;
+    }
+  }, []);
+
+  const handleFaces = useRunOnJS((faces: Face[]) => {
+    delivered.value += 1;
+    callbackRef.current?.(faces);
+  }, []);
+
+  const deliver = useCallback((faces: Face[]) => {
+    'worklet';
+    if (output) {
+      output.value = faces;
+    }
+    if (!hasCallback) {
+      return;
+    }
+
+    if (policy === 'every') {
+      handleFaces(faces);
+      return;
+    }
+
+    const now = Date.now();
+    if (policy === 'max-rate' && now - lastQueuedAt.value < 1000 / Math.max(maxRate, 0.001)) {
+      dropped.value += 1;
+      return;
+    }
+    if (
+      policy === 'change-only' &&
+      lastQueued.value !== null &&
+      !haveFacesChanged(lastQueued.value, faces, changePolicy, boundsTolerance)
+    ) {
+      unchanged.value += 1;
+      return;
+    }
+    lastQueued.value = faces;
+    lastQueuedAt.value = now;
+
+    if (pending.value !== null) {
+      dropped.value += 1;
+    }
+    pending.value = faces;
+
+    if (!inFlight.value) {
+      inFlight.value = true;
+      flush();
+    }
+  }, [
+    output,
+    hasCallback,
+    policy,
+    maxRate,
+    changePolicy,
+    boundsTolerance,
+    pending,
+    inFlight,
+    lastQueued,
+    lastQueuedAt,
+    dropped,
+    unchanged,
+    flush,
+    handleFaces,
+  ]);
+
+  const getStats = useCallback((): FaceDeliveryStats => ({
+    delivered: delivered.value,
+    dropped: dropped.value,
+    unchanged: unchanged.value,
+  }), [delivered, dropped, unchanged]);
+
+  const reset = useCallback(() => {
+    pending.value = null;
+    // A flush still queued finds nothing pending; an extra flush is harmless
+    inFlight.value = false;
+    lastQueued.value = null;
+    lastQueuedAt.value = 0;
+    delivered.value = 0;
+    dropped.value = 0;
+    unchanged.value = 0;
+  }, [pending, inFlight, lastQueued, lastQueuedAt, delivered, dropped, unchanged]);
+
+  return {
+    deliver,
+    getStats,
+    reset,
+  };
+}
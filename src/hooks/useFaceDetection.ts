@@ -1,41 +1,78 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
-import type { Face, FaceDetectionOptions, UseFaceDetectionResult } from '../types';
+import type { Frame } from 'react-native-vision-camera';
+
+import { useFaceDelivery } from './useFaceDelivery';
+import { useFaceDetector, type UseFaceDetectorOptions } from './useFaceDetector';
+import type {
+  Face,
+  FaceChangePolicy,
+  FaceDeliveryOptions,
+  UseFaceDetectionResult,
+} from '../types';
+import { haveFacesChanged } from '../utils/faceChanges';
 
 /**
  * Options for useFaceDetection hook
  */
-export interface UseFaceDetectionOptions extends FaceDetectionOptions {
+export interface UseFaceDetectionOptions extends UseFaceDetectorOptions {
   /** Whether detection is enabled. Default: true */
   enabled?: boolean;
-  
+
   /** Maximum number of faces to track. Default: 5 */
   maxFaces?: number;
-  
+
+  /** When a new set of faces counts as a change. Default: 'trackingId' */
+  changePolicy?: FaceChangePolicy;
+
+  /**
+   * Movement/resize tolerance for the 'bounds' policy, relative to the face size
+   * (0.05 = 5% of the face width/height). Default: 0.05
+   */
+  boundsTolerance?: number;
+
+  /**
+   * How `processFrame` results cross to the JS thread. By default only the newest
+   * result is kept while the JS thread is busy.
+   * @default { policy: 'latest' }
+   */
+  delivery?: FaceDeliveryOptions;
+
   /** Callback when faces change */
   onFacesChanged?: (faces: Face[]) => void;
 }
 
 /**
  * Hook for managing face detection state
- * 
+ *
  * Use this hook to get face detection results outside of the SmartCamera component.
- * 
+ * Call `processFrame` from your frame processor, or pass faces you already detected
+ * to `updateFaces`. `processFrame` results reach the JS thread through
+ * `useFaceDelivery`, so a busy JS thread never builds up a queue of frames.
+ *
  * @param options - Face detection options
  * @returns Face detection state
- * 
+ *
  * @example
  * ```tsx
  * function FaceTracker() {
- *   const { faces, isDetecting } = useFaceDetection({
+ *   const device = useCameraDevice('front');
+ *   const { faces, processFrame } = useFaceDetection({
  *     performanceMode: 'fast',
  *     classificationMode: 'all',
+ *     changePolicy: 'bounds',
  *     onFacesChanged: (faces) => {
  *       console.log('Detected faces:', faces.length);
  *     },
  *   });
- *   
+ *
+ *   const frameProcessor = useFrameProcessor((frame) => {
+ *     'worklet';
+ *     processFrame(frame);
+ *   }, [processFrame]);
+ *
  *   return (
  *     <View>
+ *       <Camera device={device} isActive={true} frameProcessor={frameProcessor} />
  *       <Text>Faces detected: {faces.length}</Text>
  *       {faces.map((face, i) => (
  *         <Text key={i}>
@@ -48,34 +85,72 @@ export interface UseFaceDetectionOptions extends FaceDetectionOptions {
  * ```
  */
 export function useFaceDetection(options: UseFaceDetectionOptions = {}): UseFaceDetectionResult {
-  const { enabled = true, maxFaces = 5, onFacesChanged } = options;
-  
+  const {
+    enabled = true,
+    maxFaces = 5,
+    changePolicy = 'trackingId',
+    boundsTolerance = 0.05,
+    delivery = {},
+    onFacesChanged,
+    ...detectorOptions
+  } = options;
+
   const [faces, setFaces] = useState<Face[]>([]);
   const [isDetecting, setIsDetecting] = useState(false);
   const facesRef = useRef<Face[]>([]);
   const callbackRef = useRef(onFacesChanged);
+  const enabledRef = useRef(enabled);
+
+  const { detectFaces } = useFaceDetector(detectorOptions);
 
   // Keep callback ref updated
   useEffect(() => {
     callbackRef.current = onFacesChanged;
   }, [onFacesChanged]);
 
-  // Update faces (called from frame processor via native bridge)
+  useEffect(() => {
+    enabledRef.current = enabled;
+  }, [enabled]);
+
+  // Update faces (called from frame processor via runOnJS, or directly)
   const updateFaces = useCallback((newFaces: Face[]) => {
+    // Results may still arrive from frames queued before detection was disabled
+    if (!enabledRef.current) {
+      return;
+    }
+
     // Limit number of faces
     const limitedFaces = newFaces.slice(0, maxFaces);
-    
+
     // Only update if faces changed
-    const facesChanged = 
-      limitedFaces.length !== facesRef.current.length ||
-      limitedFaces.some((face, i) => face.trackingId !== facesRef.current[i]?.trackingId);
-    
-    if (facesChanged) {
+    if (haveFacesChanged(facesRef.current, limitedFaces, changePolicy, boundsTolerance)) {
       facesRef.current = limitedFaces;
       setFaces(limitedFaces);
       callbackRef.current?.(limitedFaces);
     }
-  }, [maxFaces]);
+  }, [maxFaces, changePolicy, boundsTolerance]);
+
+  // Backpressure-aware delivery of processFrame results to the JS thread
+  const {
+    deliver,
+    getStats,
+    reset: resetDelivery,
+  } = useFaceDelivery({
+    ...delivery,
+    onFaces: updateFaces,
+  });
+
+  // Frame processor entry point
+  const processFrame = useCallback((frame: Frame): Face[] => {
+    'worklet';
+    if (!enabled) {
+      return [];
+    }
+
+    const detectedFaces = detectFaces(frame);
+    deliver(detectedFaces);
+    return detectedFaces;
+  }, [enabled, detectFaces, deliver]);
 
   // Detection state management
   const startDetecting = useCallback(() => {
@@ -86,7 +161,8 @@ export function useFaceDetection(options: UseFaceDetectionOptions = {}): UseFace
     setIsDetecting(false);
     setFaces([]);
     facesRef.current = [];
-  }, []);
+    resetDelivery();
+  }, [resetDelivery]);
 
   // Effect to manage detection state based on enabled prop
   useEffect(() => {
@@ -100,6 +176,8 @@ export function useFaceDetection(options: UseFaceDetectionOptions = {}): UseFace
   return {
     faces,
     isDetecting,
+    processFrame,
+    updateFaces,
+    getDeliveryStats: getStats,
   };
 }
-
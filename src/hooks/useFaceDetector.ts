@@ -1,14 +1,38 @@
-import { useCallback, useRef, useEffect, useState } from 'react';
-import { useRunOnJS } from 'react-native-worklets-core';
+import { useCallback, useRef, useEffect, useState, useMemo } from 'react';
 import type { Frame } from 'react-native-vision-camera';
-import { detectFaces } from '../detection/faceDetector';
-import type { Face, FaceDetectionOptions, CameraFacing } from '../types';
+import { useRunOnJS, useSharedValue, type ISharedValue } from 'react-native-worklets-core';
+
+import { useDetectorHealth } from './useDetectorHealth';
+import { useFaceAnalyzers, type UseFaceAnalyzersOptions } from './useFaceAnalyzers';
+import { useFaceDelivery } from './useFaceDelivery';
+import { resolveDetectionOptions } from '../detection/detectionPresets';
+import { tryDetectFaces } from '../detection/faceDetector';
+import { createFaceSmoother } from '../detection/faceSmoothing';
+import type {
+  Face,
+  DetectionPresetOptions,
+  DetectionOptionWarning,
+  FaceSmoothingOptions,
+  CameraFacing,
+  DetectorHealthState,
+  SmartCameraError,
+  FrameProcessorOptions,
+  FaceDeliveryOptions,
+  FaceDeliveryStats,
+  FrameAnalyzer,
+  FrameAnalyzerResults,
+} from '../types';
+import {
+  mergeResolverWarnings,
+  reportDiagnostics,
+  validateFrameProcessorOptions,
+} from '../utils/validation';
 
 /**
  * Face detection options for useFaceDetector hook
  * Matches the API of react-native-vision-camera-face-detector
  */
-export interface UseFaceDetectorOptions extends FaceDetectionOptions {
+export interface UseFaceDetectorOptions extends DetectionPresetOptions {
   /**
    * Current active camera
    * @default 'front'
@@ -19,6 +43,8 @@ export interface UseFaceDetectorOptions extends FaceDetectionOptions {
    * Should handle auto scale on native side?
    * If disabled, results are relative to frame coordinates, not screen/preview.
    * Don't use this if you want to draw with Skia Frame Processor.
+   * autoMode ignores the preview resizeMode and frame orientation; for exact
+   * overlays keep it disabled and map results with `createCoordinateMapper`.
    * @default false
    */
   autoMode?: boolean;
@@ -34,6 +60,30 @@ export interface UseFaceDetectorOptions extends FaceDetectionOptions {
    * @default 1.0
    */
   windowHeight?: number;
+
+  /**
+   * Temporally smooth bounds, landmarks, contours and angles per trackingId.
+   * Pass `true` for the defaults (One-Euro filter) or smoothing options.
+   * @default false
+   */
+  smoothing?: boolean | FaceSmoothingOptions;
+
+  /**
+   * Callback when detection fails (missing native plugin, failing plugin calls).
+   * Reports are rate-limited; failed frames still return an empty array.
+   */
+  onError?: (error: SmartCameraError) => void;
+
+  /**
+   * Callback when the detector health changes
+   */
+  onHealthChange?: (health: DetectorHealthState) => void;
+
+  /**
+   * Callback when the native detector ran with a new configuration for the first
+   * time (also called once for the initial configuration)
+   */
+  onConfigApplied?: (config: Partial<FrameProcessorOptions>) => void;
 }
 
 /**
@@ -44,6 +94,23 @@ export interface UseFaceDetectorResult {
    * Detect faces in a frame (for use in frame processor)
    */
   detectFaces: (frame: Frame) => Face[];
+
+  /**
+   * Detector health: 'unavailable' without the native plugin,
+   * 'degraded' while detection keeps failing, otherwise 'ready'
+   */
+  health: DetectorHealthState;
+
+  /**
+   * False from an option change until the first frame detected with the new configuration
+   */
+  configApplied: boolean;
+
+  /**
+   * Conflicts found while resolving the preset and detection options
+   * (also logged in development)
+   */
+  optionWarnings: DetectionOptionWarning[];
 }
 
 /**
@@ -52,6 +119,14 @@ export interface UseFaceDetectorResult {
  * This hook provides a `detectFaces` function that can be used directly
  * in a frame processor to detect faces in each frame.
  * 
+ * Detector options may change at runtime (e.g. enabling classification mid-session):
+ * they reach the frame processor through shared values, `detectFaces` keeps its
+ * identity, and `configApplied` / `onConfigApplied` report when the native detector
+ * ran with the new configuration.
+ * 
+ * Start from a `preset` ('blink', 'kyc-capture', ...) and override single options;
+ * conflicting combinations are resolved and reported in `optionWarnings`.
+ * 
  * @param options - Face detection options
  * @returns Object with detectFaces function
  * 
@@ -83,32 +158,135 @@ export interface UseFaceDetectorResult {
  * ```
  */
 export function useFaceDetector(options: UseFaceDetectorOptions = {}): UseFaceDetectorResult {
-  const optionsRef = useRef(options);
+  const {
+    preset,
+    performanceMode,
+    landmarkMode,
+    contourMode,
+    classificationMode,
+    minFaceSize,
+    trackingEnabled,
+    cameraFacing,
+    autoMode,
+    windowWidth,
+    windowHeight,
+    onConfigApplied,
+  } = options;
+  
+  const resolved = useMemo(() => resolveDetectionOptions({
+    preset,
+    performanceMode,
+    landmarkMode,
+    contourMode,
+    classificationMode,
+    minFaceSize,
+    trackingEnabled,
+  }), [
+    preset,
+    performanceMode,
+    landmarkMode,
+    contourMode,
+    classificationMode,
+    minFaceSize,
+    trackingEnabled,
+  ]);
   
-  // Keep options ref updated
+  const detectorConfig = useMemo((): Partial<FrameProcessorOptions> => ({
+    ...resolved.options,
+    cameraFacing,
+    autoMode,
+    windowWidth,
+    windowHeight,
+  }), [resolved, cameraFacing, autoMode, windowWidth, windowHeight]);
+  
+  // Validate options and surface conflicts during development
+  useEffect(() => {
+    if (!__DEV__) {
+      return;
+    }
+    reportDiagnostics(
+      'useFaceDetector',
+      mergeResolverWarnings(resolved.warnings, validateFrameProcessorOptions(detectorConfig))
+    );
+  }, [resolved, detectorConfig]);
+  
+  // Options reach the worklet through shared values; a ref would be a copied snapshot there
+  const config = useSharedValue(detectorConfig);
+  const configVersion = useSharedValue(0);
+  const appliedVersion = useSharedValue(0);
+  const [configApplied, setConfigApplied] = useState(false);
+  const configRef = useRef(detectorConfig);
+  const onConfigAppliedRef = useRef(onConfigApplied);
+  
+  // Keep callback ref updated
+  useEffect(() => {
+    onConfigAppliedRef.current = onConfigApplied;
+  }, [onConfigApplied]);
+  
+  // Publish option changes to the frame processor
   useEffect(() => {
-    optionsRef.current = options;
-  }, [options]);
+    configRef.current = detectorConfig;
+    config.value = detectorConfig;
+    configVersion.value += 1;
+    setConfigApplied(false);
+  }, [detectorConfig, config, configVersion]);
+  
+  const handleConfigApplied = useRunOnJS((version: number) => {
+    // Ignore confirmations of configurations that were replaced meanwhile
+    if (version !== configVersion.value) {
+      return;
+    }
+    setConfigApplied(true);
+    onConfigAppliedRef.current?.(configRef.current);
+  }, [configVersion]);
+  
+  // Recreate the smoother only when the smoothing options change
+  const smoothingKey = options.smoothing
+    ? JSON.stringify(options.smoothing === true ? {} : options.smoothing)
+    : null;
+  const smoother = useMemo(
+    () => (smoothingKey !== null ? createFaceSmoother(JSON.parse(smoothingKey)) : null),
+    [smoothingKey]
+  );
+  
+  const { health, reportAttempt } = useDetectorHealth({
+    onError: options.onError,
+    onHealthChange: options.onHealthChange,
+  });
   
   // Create detect function that uses current options
   const detect = useCallback((frame: Frame): Face[] => {
     'worklet';
-    return detectFaces(frame, {
-      performanceMode: optionsRef.current.performanceMode,
-      landmarkMode: optionsRef.current.landmarkMode,
-      contourMode: optionsRef.current.contourMode,
-      classificationMode: optionsRef.current.classificationMode,
-      minFaceSize: optionsRef.current.minFaceSize,
-      trackingEnabled: optionsRef.current.trackingEnabled,
-      cameraFacing: optionsRef.current.cameraFacing,
-      autoMode: optionsRef.current.autoMode,
-      windowWidth: optionsRef.current.windowWidth,
-      windowHeight: optionsRef.current.windowHeight,
+    const version = configVersion.value;
+    const current = config.value;
+    const attempt = tryDetectFaces(frame, {
+      performanceMode: current.performanceMode,
+      landmarkMode: current.landmarkMode,
+      contourMode: current.contourMode,
+      classificationMode: current.classificationMode,
+      minFaceSize: current.minFaceSize,
+      trackingEnabled: current.trackingEnabled,
+      cameraFacing: current.cameraFacing,
+      autoMode: current.autoMode,
+      windowWidth: current.windowWidth,
+      windowHeight: current.windowHeight,
     });
-  }, []);
+    reportAttempt(attempt);
+    
+    // The native plugin rebuilds its detector when the options change
+    if (attempt.error === null && version !== appliedVersion.value) {
+      appliedVersion.value = version;
+      handleConfigApplied(version);
+    }
+    
+    return smoother ? smoother.smooth(attempt.faces) : attempt.faces;
+  }, [smoother, reportAttempt, config, configVersion, appliedVersion, handleConfigApplied]);
   
   return {
     detectFaces: detect,
+    health,
+    configApplied,
+    optionWarnings: resolved.warnings,
   };
 }
 
@@ -117,21 +295,75 @@ export function useFaceDetector(options: UseFaceDetectorOptions = {}): UseFaceDe
  */
 export type FaceDetectionCallback = (faces: Face[]) => void;
 
+/**
+ * Without analyzers the pipeline has nothing to run
+ */
+const NO_ANALYZERS = {};
+
 /**
  * Options for useFaceDetectorWithCallback hook
  */
-export interface UseFaceDetectorWithCallbackOptions extends UseFaceDetectorOptions {
+export interface UseFaceDetectorWithCallbackOptions<
+  A extends Record<string, FrameAnalyzer<unknown>> = Record<string, never>,
+> extends UseFaceDetectorOptions {
   /**
    * Callback when faces are detected
    */
   onFacesDetected?: FaceDetectionCallback;
+
+  /**
+   * How results cross to the JS thread. By default only the newest result is
+   * kept while the JS thread is busy.
+   * @default { policy: 'latest' }
+   */
+  delivery?: FaceDeliveryOptions;
+
+  /**
+   * Shared value receiving the faces of every frame (worklet-side output)
+   */
+  output?: ISharedValue<Face[]>;
+
+  /**
+   * Analyzers run on the faces of every frame (see `useFaceAnalyzers`), so blink,
+   * pose or quality analysis doesn't need its own `detectFaces` call.
+   * Create them once (e.g. with `useMemo`).
+   */
+  analyzers?: A;
+
+  /**
+   * Callbacks with the delivered analyzer results, by analyzer name
+   */
+  onAnalyzerResults?: UseFaceAnalyzersOptions<A>['onResults'];
+}
+
+/**
+ * Return type for useFaceDetectorWithCallback hook
+ */
+export interface UseFaceDetectorWithCallbackResult<
+  A extends Record<string, FrameAnalyzer<unknown>> = Record<string, never>,
+> extends UseFaceDetectorResult {
+  /**
+   * Delivery counters (delivered, dropped while the JS thread was busy, unchanged)
+   */
+  getDeliveryStats: () => FaceDeliveryStats;
+
+  /**
+   * Latest delivered result of each analyzer
+   */
+  analyzerResults: FrameAnalyzerResults<A>;
+
+  /**
+   * Clear the analyzer results and state
+   */
+  resetAnalyzers: () => void;
 }
 
 /**
  * Hook for face detection with automatic callback handling
  * 
  * This is a convenience hook that wraps useFaceDetector and automatically
- * calls your callback function when faces are detected.
+ * calls your callback function when faces are detected. `analyzers` run on the
+ * same faces, so detection still happens once per frame.
  * 
  * @param options - Face detection options with callback
  * @returns Object with detectFaces function for use in frame processor
@@ -159,33 +391,51 @@ export interface UseFaceDetectorWithCallbackOptions extends UseFaceDetectorOptio
  * }
  * ```
  */
-export function useFaceDetectorWithCallback(
-  options: UseFaceDetectorWithCallbackOptions = {}
-): UseFaceDetectorResult {
-  const { onFacesDetected, ...detectorOptions } = options;
-  const { detectFaces: baseDet } = useFaceDetector(detectorOptions);
-  const callbackRef = useRef(onFacesDetected);
+export function useFaceDetectorWithCallback<
+  A extends Record<string, FrameAnalyzer<unknown>> = Record<string, never>,
+>(
+  options: UseFaceDetectorWithCallbackOptions<A> = {}
+): UseFaceDetectorWithCallbackResult<A> {
+  const {
+    onFacesDetected,
+    delivery = {},
+    output,
+    analyzers = NO_ANALYZERS as A,
+    onAnalyzerResults,
+    ...detectorOptions
+  } = options;
+  const { detectFaces: baseDet, health, configApplied, optionWarnings } =
+    useFaceDetector(detectorOptions);
   
-  useEffect(() => {
-    callbackRef.current = onFacesDetected;
-  }, [onFacesDetected]);
+  // Backpressure-aware delivery to the JS thread
+  const { deliver, getStats } = useFaceDelivery({
+    ...delivery,
+    onFaces: onFacesDetected,
+    output,
+  });
   
-  // Create runOnJS callback
-  const handleFacesDetected = useRunOnJS((faces: Face[]) => {
-    callbackRef.current?.(faces);
-  }, []);
+  const {
+    results: analyzerResults,
+    analyzeFaces,
+    reset: resetAnalyzers,
+  } = useFaceAnalyzers({ analyzers, onResults: onAnalyzerResults });
   
   const detectWithCallback = useCallback((frame: Frame): Face[] => {
     'worklet';
     const faces = baseDet(frame);
-    if (faces.length > 0 || callbackRef.current) {
-      handleFacesDetected(faces);
-    }
+    deliver(faces);
+    analyzeFaces(faces, frame);
     return faces;
-  }, [baseDet, handleFacesDetected]);
+  }, [baseDet, deliver, analyzeFaces]);
   
   return {
     detectFaces: detectWithCallback,
+    health,
+    configApplied,
+    optionWarnings,
+    getDeliveryStats: getStats,
+    analyzerResults,
+    resetAnalyzers,
   };
 }
 
@@ -0,0 +1,182 @@
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+
+import { scoreFaceQuality } from '../detection/faceQuality';
+import type { Face, FaceQualityOptions, FaceQualityResult, Size } from '../types';
+
+/**
+ * Options for useFaceQuality hook
+ */
+export interface UseFaceQualityOptions extends FaceQualityOptions {
+  /** Frame size in the coordinate space of the face bounds. Default: { width: 1, height: 1 } (normalized) */
+  frameSize?: Size;
+
+  /** Whether scoring is enabled. Default: true */
+  enabled?: boolean;
+
+  /** Minimum time between `quality` state updates in milliseconds. Default: 200 */
+  updateIntervalMs?: number;
+
+  /** Callback when the face starts or stops passing the quality criteria */
+  onQualityChange?: (quality: FaceQualityResult | null, face: Face | null) => void;
+}
+
+/**
+ * Return type for useFaceQuality hook
+ */
+export interface UseFaceQualityResult {
+  /** Grade of the best face (null when no face) */
+  quality: FaceQualityResult | null;
+  /** Best-scoring face of the last processed frame */
+  face: Face | null;
+  /** Process detected faces - call this with the faces of every frame */
+  processFaces: (faces: Face[]) => void;
+  /** Clear the current grade */
+  reset: () => void;
+}
+
+/**
+ * Hook for grading faces for selfie/KYC capture
+ *
+ * Scores every detected face with `scoreFaceQuality` and keeps the best one,
+ * so the UI can guide the user ("move closer", "look straight") until the
+ * face is good enough to capture.
+ *
+ * @param options - Face quality options
+ * @returns Quality grade of the best face and controls
+ *
+ * @example
+ * ```tsx
+ * function KycScreen() {
+ *   const { quality, processFaces } = useFaceQuality({ minFaceSize: 0.3 });
+ *
+ *   const { detectFaces } = useFaceDetectorWithCallback({
+ *     landmarkMode: 'all',
+ *     classificationMode: 'all',
+ *     onFacesDetected: processFaces,
+ *   });
+ *
+ *   return <Text>{quality?.passed ? 'Hold still' : quality?.reasons[0]}</Text>;
+ * }
+ * ```
+ */
+export function useFaceQuality(options: UseFaceQualityOptions = {}): UseFaceQualityResult {
+  const {
+    frameSize,
+    enabled = true,
+    updateIntervalMs = 200,
+    onQualityChange,
+    criteria,
+    weights,
+    minFaceSize,
+    maxFaceSize,
+    maxCenterOffset,
+    maxYawAngle,
+    maxPitchAngle,
+    maxRollAngle,
+    minEyeOpenProbability,
+    maxSmilingProbability,
+    requiredLandmarks,
+  } = options;
+
+  const [quality, setQuality] = useState<FaceQualityResult | null>(null);
+  const [face, setFace] = useState<Face | null>(null);
+  const callbackRef = useRef(onQualityChange);
+  const lastUpdateRef = useRef(0);
+  const lastPassedRef = useRef<boolean | null>(null);
+
+  // Keep callback ref updated
+  useEffect(() => {
+    callbackRef.current = onQualityChange;
+  }, [onQualityChange]);
+
+  const frameWidth = frameSize?.width ?? 1;
+  const frameHeight = frameSize?.height ?? 1;
+
+  // Array/object options are compared by content so inline literals don't re-create the config
+  const criteriaKey = criteria ? JSON.stringify(criteria) : null;
+  const weightsKey = weights ? JSON.stringify(weights) : null;
+  const landmarksKey = requiredLandmarks ? JSON.stringify(requiredLandmarks) : null;
+
+  const qualityOptions = useMemo<FaceQualityOptions>(() => ({
+    criteria: criteriaKey !== null ? JSON.parse(criteriaKey) : undefined,
+    weights: weightsKey !== null ? JSON.parse(weightsKey) : undefined,
+    requiredLandmarks: landmarksKey !== null ? JSON.parse(landmarksKey) : undefined,
+    minFaceSize,
+    maxFaceSize,
+    maxCenterOffset,
+    maxYawAngle,
+    maxPitchAngle,
+    maxRollAngle,
+    minEyeOpenProbability,
+    maxSmilingProbability,
+  }), [
+    criteriaKey,
+    weightsKey,
+    landmarksKey,
+    minFaceSize,
+    maxFaceSize,
+    maxCenterOffset,
+    maxYawAngle,
+    maxPitchAngle,
+    maxRollAngle,
+    minEyeOpenProbability,
+    maxSmilingProbability,
+  ]);
+
+  const processFaces = useCallback((faces: Face[]) => {
+    if (!enabled) {
+      return;
+    }
+
+    let bestFace: Face | null = null;
+    let bestQuality: FaceQualityResult | null = null;
+    for (const candidate of faces) {
+      const result = scoreFaceQuality(
+        candidate,
+        { width: frameWidth, height: frameHeight },
+        qualityOptions
+      );
+      if (!bestQuality || result.score > bestQuality.score) {
+        bestFace = candidate;
+        bestQuality = result;
+      }
+    }
+
+    const passed = bestQuality ? bestQuality.passed : null;
+    const passChanged = passed !== lastPassedRef.current;
+    const now = Date.now();
+
+    // Pass/fail transitions are reported immediately, everything else is throttled
+    if (passChanged || now - lastUpdateRef.current >= updateIntervalMs) {
+      lastUpdateRef.current = now;
+      setQuality(bestQuality);
+      setFace(bestFace);
+    }
+
+    if (passChanged) {
+      lastPassedRef.current = passed;
+      callbackRef.current?.(bestQuality, bestFace);
+    }
+  }, [enabled, frameWidth, frameHeight, qualityOptions, updateIntervalMs]);
+
+  const reset = useCallback(() => {
+    lastUpdateRef.current = 0;
+    lastPassedRef.current = null;
+    setQuality(null);
+    setFace(null);
+  }, []);
+
+  // Reset on disable
+  useEffect(() => {
+    if (!enabled) {
+      reset();
+    }
+  }, [enabled, reset]);
+
+  return {
+    quality,
+    face,
+    processFaces,
+    reset,
+  };
+}
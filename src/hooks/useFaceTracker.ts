@@ -0,0 +1,99 @@
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+
+import { createFaceTracker } from '../detection/faceTracker';
+import type { Face, FaceTrack, FaceTrackEvent, FaceTrackerOptions } from '../types';
+
+/**
+ * Options for useFaceTracker hook
+ */
+export interface UseFaceTrackerOptions extends FaceTrackerOptions {
+  /** Callback with every track lifecycle event */
+  onTrackEvent?: (event: FaceTrackEvent) => void;
+}
+
+/**
+ * Return type for useFaceTracker hook
+ */
+export interface UseFaceTrackerResult {
+  /** Current tracks (updated on lifecycle events only) */
+  tracks: FaceTrack[];
+  /** Assign stable tracking IDs to the faces of a frame */
+  trackFaces: (faces: Face[]) => Face[];
+  /** Drop all tracks */
+  reset: () => void;
+}
+
+/**
+ * Hook for stable face IDs without native tracking
+ *
+ * Wraps `createFaceTracker`. Pass every frame's faces through `trackFaces` before
+ * handing them to per-face logic such as blink detection or liveness checks.
+ *
+ * @param options - Face tracker options
+ * @returns Tracks and the trackFaces function
+ *
+ * @example
+ * ```tsx
+ * function MultiFaceOverlay() {
+ *   const [faces, setFaces] = useState<Face[]>([]);
+ *   const { trackFaces } = useFaceTracker({
+ *     onTrackEvent: (event) => console.log(event.type, event.trackingId),
+ *   });
+ *
+ *   const { detectFaces } = useFaceDetectorWithCallback({
+ *     contourMode: 'all',
+ *     onFacesDetected: (detected) => setFaces(trackFaces(detected)),
+ *   });
+ *
+ *   return faces.map((face) => <FaceBox key={face.trackingId} face={face} />);
+ * }
+ * ```
+ */
+export function useFaceTracker(options: UseFaceTrackerOptions = {}): UseFaceTrackerResult {
+  const {
+    onTrackEvent,
+    minMatchScore,
+    landmarkWeight,
+    maxLandmarkDistance,
+    maxDropoutMs,
+    useNativeIds,
+  } = options;
+
+  const [tracks, setTracks] = useState<FaceTrack[]>([]);
+  const callbackRef = useRef(onTrackEvent);
+
+  // Keep callback ref updated
+  useEffect(() => {
+    callbackRef.current = onTrackEvent;
+  }, [onTrackEvent]);
+
+  const tracker = useMemo(() => createFaceTracker({
+    minMatchScore,
+    landmarkWeight,
+    maxLandmarkDistance,
+    maxDropoutMs,
+    useNativeIds,
+  }), [minMatchScore, landmarkWeight, maxLandmarkDistance, maxDropoutMs, useNativeIds]);
+
+  const trackFaces = useCallback((faces: Face[]): Face[] => {
+    const { faces: tracked, events } = tracker.update(faces);
+
+    if (events.length > 0) {
+      setTracks(tracker.getTracks());
+      events.forEach((event) => callbackRef.current?.(event));
+    }
+
+    return tracked;
+  }, [tracker]);
+
+  const reset = useCallback(() => {
+    tracker.reset();
+    setTracks([]);
+  }, [tracker]);
+
+  return {
+    tracks,
+    trackFaces,
+    reset,
+  };
+}
@@ -0,0 +1,195 @@
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+
+import { useBlinkDetection, type UseBlinkDetectionOptions } from './useBlinkDetection';
+import { createFatigueMonitor } from '../detection/fatigueMonitor';
+import type {
+  Face,
+  EyeStatusResult,
+  FatigueLevel,
+  FatigueMetrics,
+  FatigueMonitorOptions,
+} from '../types';
+
+/**
+ * Options for useFatigueMonitor hook
+ */
+export interface UseFatigueMonitorOptions extends UseBlinkDetectionOptions, FatigueMonitorOptions {
+  /** Minimum time between `metrics` state updates in milliseconds. Default: 1000 */
+  metricsUpdateIntervalMs?: number;
+
+  /** Callback when the fatigue level changes */
+  onFatigueLevelChange?: (level: FatigueLevel, metrics: FatigueMetrics) => void;
+}
+
+/**
+ * Return type for useFatigueMonitor hook
+ */
+export interface UseFatigueMonitorResult {
+  /** Current eye status (null if no face detected) */
+  eyeStatus: EyeStatusResult | null;
+  /** Latest rolling metrics (null until the first sample) */
+  metrics: FatigueMetrics | null;
+  /** Current fatigue level */
+  fatigueLevel: FatigueLevel;
+  /** Process faces to update eye status and fatigue metrics */
+  processEyeStatus: (faces: Face[]) => void;
+  /** Reset eye status and all collected statistics */
+  reset: () => void;
+}
+
+/**
+ * Hook for monitoring driver fatigue from eye status
+ *
+ * Builds on `useBlinkDetection`: every `EyeStatusResult` is added to a sliding window
+ * from which blinks per minute, mean blink duration, inter-blink interval and PERCLOS
+ * (percentage of time the eyes are closed) are computed. The fatigue level moves between
+ * 'alert', 'drowsy' and 'asleep' with separate enter/exit thresholds so it doesn't flap.
+ *
+ * @param options - Eye tracking and fatigue monitor options
+ * @returns Eye status, fatigue metrics and controls
+ *
+ * @example
+ * ```tsx
+ * function DriverMonitor() {
+ *   const { fatigueLevel, metrics, processEyeStatus } = useFatigueMonitor({
+ *     eyeClosedThreshold: 0.3,
+ *     onFatigueLevelChange: (level) => {
+ *       if (level === 'asleep') {
+ *         playAlarm();
+ *       }
+ *     },
+ *   });
+ *
+ *   // In your face detection callback:
+ *   const handleFaces = (faces: Face[]) => {
+ *     processEyeStatus(faces);
+ *   };
+ *
+ *   return (
+ *     <View>
+ *       <Text>Level: {fatigueLevel}</Text>
+ *       <Text>PERCLOS: {((metrics?.perclos ?? 0) * 100).toFixed(1)}%</Text>
+ *       <Text>Blinks/min: {metrics?.blinksPerMinute.toFixed(1)}</Text>
+ *     </View>
+ *   );
+ * }
+ * ```
+ */
+export function useFatigueMonitor(
+  options: UseFatigueMonitorOptions = {}
+): UseFatigueMonitorResult {
+  const {
+    enabled = true,
+    eyeClosedThreshold,
+    primaryFace,
+    onEyeStatusChange,
+    metricsUpdateIntervalMs = 1000,
+    onFatigueLevelChange,
+    windowMs,
+    maxBlinkDurationMs,
+    maxSampleGapMs,
+    minObservationMs,
+    drowsyPerclosEnter,
+    drowsyPerclosExit,
+    asleepPerclosEnter,
+    asleepPerclosExit,
+    asleepClosureMs,
+  } = options;
+
+  const [metrics, setMetrics] = useState<FatigueMetrics | null>(null);
+  const [fatigueLevel, setFatigueLevel] = useState<FatigueLevel>('alert');
+  const callbacksRef = useRef({ onEyeStatusChange, onFatigueLevelChange });
+  const lastMetricsUpdateRef = useRef(0);
+  const levelRef = useRef<FatigueLevel>('alert');
+
+  // Keep callback refs updated
+  useEffect(() => {
+    callbacksRef.current = { onEyeStatusChange, onFatigueLevelChange };
+  }, [onEyeStatusChange, onFatigueLevelChange]);
+
+  const monitor = useMemo(() => createFatigueMonitor({
+    windowMs,
+    maxBlinkDurationMs,
+    maxSampleGapMs,
+    minObservationMs,
+    drowsyPerclosEnter,
+    drowsyPerclosExit,
+    asleepPerclosEnter,
+    asleepPerclosExit,
+    asleepClosureMs,
+  }), [
+    windowMs,
+    maxBlinkDurationMs,
+    maxSampleGapMs,
+    minObservationMs,
+    drowsyPerclosEnter,
+    drowsyPerclosExit,
+    asleepPerclosEnter,
+    asleepPerclosExit,
+    asleepClosureMs,
+  ]);
+
+  // Feed every eye status into the monitor
+  const handleEyeStatus = useCallback((status: EyeStatusResult) => {
+    callbacksRef.current.onEyeStatusChange?.(status);
+
+    const nextMetrics = monitor.addSample(status);
+    const levelChanged = nextMetrics.level !== levelRef.current;
+
+    if (levelChanged) {
+      levelRef.current = nextMetrics.level;
+      setFatigueLevel(nextMetrics.level);
+      callbacksRef.current.onFatigueLevelChange?.(nextMetrics.level, nextMetrics);
+    }
+
+    // Throttle metric state updates, but never hide a level change
+    if (levelChanged || status.timestamp - lastMetricsUpdateRef.current >= metricsUpdateIntervalMs) {
+      lastMetricsUpdateRef.current = status.timestamp;
+      setMetrics(nextMetrics);
+    }
+  }, [monitor, metricsUpdateIntervalMs]);
+
+  const {
+    eyeStatus,
+    processEyeStatus,
+    reset: resetEyeStatus,
+  } = useBlinkDetection({
+    enabled,
+    eyeClosedThreshold,
+    primaryFace,
+    onEyeStatusChange: handleEyeStatus,
+  });
+
+  // Reset statistics and eye status
+  const reset = useCallback(() => {
+    monitor.reset();
+    resetEyeStatus();
+    levelRef.current = 'alert';
+    lastMetricsUpdateRef.current = 0;
+    setFatigueLevel('alert');
+    setMetrics(null);
+  }, [monitor, resetEyeStatus]);
+
+  // A new monitor starts without samples, so the level starts over too
+  useEffect(() => {
+    levelRef.current = 'alert';
+    lastMetricsUpdateRef.current = 0;
+    setFatigueLevel('alert');
+    setMetrics(null);
+  }, [monitor]);
+
+  // Reset on disable
+  useEffect(() => {
+    if (!enabled) {
+      reset();
+    }
+  }, [enabled, reset]);
+
+  return {
+    eyeStatus,
+    metrics,
+    fatigueLevel,
+    processEyeStatus,
+    reset,
+  };
+}
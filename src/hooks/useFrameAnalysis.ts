@@ -0,0 +1,107 @@
+import { useCallback } from 'react';
+import type { Frame } from 'react-native-vision-camera';
+
+import { useFaceAnalyzers, type UseFaceAnalyzersOptions } from './useFaceAnalyzers';
+import { useFaceDetector, type UseFaceDetectorOptions } from './useFaceDetector';
+import type { Face, FrameAnalyzer, FrameAnalyzerResults } from '../types';
+
+/**
+ * Options for useFrameAnalysis hook
+ */
+export interface UseFrameAnalysisOptions<A extends Record<string, FrameAnalyzer<unknown>>> {
+  /**
+   * Analyzers by name. Create them once (e.g. with `useMemo`); a new object
+   * rebuilds the pipeline and its analyzer state.
+   */
+  analyzers: A;
+
+  /** Face detection options (detection runs once per frame for all analyzers) */
+  detection?: UseFaceDetectorOptions;
+
+  /** Whether analysis is enabled. Default: true */
+  enabled?: boolean;
+
+  /** Callbacks with the delivered results, by analyzer name */
+  onResults?: UseFaceAnalyzersOptions<A>['onResults'];
+}
+
+/**
+ * Return type for useFrameAnalysis hook
+ */
+export interface UseFrameAnalysisResult<A extends Record<string, FrameAnalyzer<unknown>>> {
+  /** Latest delivered result of each analyzer */
+  results: FrameAnalyzerResults<A>;
+  /** Detect faces once and run all analyzers (for use in frame processor) */
+  processFrame: (frame: Frame) => Face[];
+  /** Clear the results and the analyzer state */
+  reset: () => void;
+}
+
+/**
+ * Hook running one face detection per frame for several analyzers
+ *
+ * Instead of every feature calling `detectFaces` on its own, the faces of each
+ * frame are fanned out to the registered analyzers (`createBlinkAnalyzer`,
+ * `createPoseAnalyzer`, `createQualityAnalyzer` or your own `FrameAnalyzer`).
+ * Each analyzer throttles its own delivery to the JS thread, and results are
+ * typed by analyzer name. To analyze faces your frame processor already detects,
+ * use `useFaceAnalyzers` or the `analyzers` option of `useFaceDetectorWithCallback`.
+ *
+ * @param options - Analyzers, detection options and callbacks
+ * @returns Latest results and the processFrame function
+ *
+ * @example
+ * ```tsx
+ * function Session() {
+ *   const analyzers = useMemo(() => ({
+ *     blink: createBlinkAnalyzer({ primaryFace: 'sticky' }),
+ *     pose: createPoseAnalyzer(),
+ *     faceCount: {
+ *       throttleMs: 500,
+ *       analyze: (faces: Face[]) => {
+ *         'worklet';
+ *         return faces.length;
+ *       },
+ *     },
+ *   }), []);
+ *
+ *   const { results, processFrame } = useFrameAnalysis({
+ *     analyzers,
+ *     detection: { classificationMode: 'all', trackingEnabled: true },
+ *     onResults: { blink: (events) => console.log(events[0].kind) },
+ *   });
+ *
+ *   const frameProcessor = useFrameProcessor((frame) => {
+ *     'worklet';
+ *     processFrame(frame);
+ *   }, [processFrame]);
+ *
+ *   return <Text>Yaw: {results.pose?.yaw.toFixed(0)} Faces: {results.faceCount}</Text>;
+ * }
+ * ```
+ */
+export function useFrameAnalysis<A extends Record<string, FrameAnalyzer<unknown>>>(
+  options: UseFrameAnalysisOptions<A>
+): UseFrameAnalysisResult<A> {
+  const { analyzers, detection = {}, enabled = true, onResults } = options;
+
+  const { detectFaces } = useFaceDetector(detection);
+  const { results, analyzeFaces, reset } = useFaceAnalyzers({ analyzers, enabled, onResults });
+
+  const processFrame = useCallback((frame: Frame): Face[] => {
+    'worklet';
+    if (!enabled) {
+      return [];
+    }
+
+    const faces = detectFaces(frame);
+    analyzeFaces(faces, frame);
+    return faces;
+  }, [enabled, detectFaces, analyzeFaces]);
+
+  return {
+    results,
+    processFrame,
+    reset,
+  };
+}
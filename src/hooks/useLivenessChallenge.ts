@@ -0,0 +1,202 @@
+import { useState, useCallback, useRef, useEffect } from 'react';
+
+import { createLivenessChallenge, type LivenessSessionStatus } from '../detection/livenessChallenge';
+import type {
+  Face,
+  LivenessChallengeOptions,
+  LivenessChallengeType,
+  LivenessResult,
+  LivenessStepResult,
+} from '../types';
+
+/**
+ * How often step and face-lost deadlines are checked between frames
+ */
+const DEADLINE_CHECK_INTERVAL_MS = 250;
+
+/**
+ * Options for useLivenessChallenge hook
+ */
+export interface UseLivenessChallengeOptions extends LivenessChallengeOptions {
+  /** Callback when a new step becomes active */
+  onStepChange?: (challenge: LivenessChallengeType, stepIndex: number) => void;
+
+  /** Callback when the session passed or failed */
+  onComplete?: (result: LivenessResult) => void;
+}
+
+/**
+ * Return type for useLivenessChallenge hook
+ */
+export interface UseLivenessChallengeResult {
+  /** Session status */
+  status: LivenessSessionStatus;
+  /** Challenge the user currently has to perform (null when not running) */
+  currentChallenge: LivenessChallengeType | null;
+  /** Index of the active step */
+  currentStepIndex: number;
+  /** Per-step results so far */
+  steps: LivenessStepResult[];
+  /** Final result (null until the session finished) */
+  result: LivenessResult | null;
+  /** Start a new session with a fresh challenge sequence */
+  start: () => void;
+  /** Cancel the running session */
+  cancel: () => void;
+  /** Process detected faces - call this with the faces of every frame */
+  processFaces: (faces: Face[]) => void;
+}
+
+/**
+ * Hook for active liveness verification (KYC)
+ *
+ * Asks the user to perform a randomized sequence of challenges (blink, turn left/right,
+ * nod, smile) and verifies each against the detected `Face`. Detection must run with
+ * `classificationMode: 'all'` and `trackingEnabled: true`.
+ *
+ * @param options - Liveness challenge options
+ * @returns Session state and controls
+ *
+ * @example
+ * ```tsx
+ * function LivenessCheck() {
+ *   const { status, currentChallenge, start, processFaces } = useLivenessChallenge({
+ *     challengeCount: 3,
+ *     onComplete: (result) => submitKyc(result),
+ *   });
+ *
+ *   const { detectFaces } = useFaceDetectorWithCallback({
+ *     classificationMode: 'all',
+ *     trackingEnabled: true,
+ *     onFacesDetected: processFaces,
+ *   });
+ *
+ *   return (
+ *     <View>
+ *       <Text>{currentChallenge ?? status}</Text>
+ *       <Button title="Start" onPress={start} />
+ *     </View>
+ *   );
+ * }
+ * ```
+ */
+export function useLivenessChallenge(
+  options: UseLivenessChallengeOptions = {}
+): UseLivenessChallengeResult {
+  const { onStepChange, onComplete, ...challengeOptions } = options;
+
+  const [status, setStatus] = useState<LivenessSessionStatus>('idle');
+  const [currentStepIndex, setCurrentStepIndex] = useState(0);
+  const [steps, setSteps] = useState<LivenessStepResult[]>([]);
+  const [result, setResult] = useState<LivenessResult | null>(null);
+
+  const sessionRef = useRef<ReturnType<typeof createLivenessChallenge> | null>(null);
+  const optionsRef = useRef(challengeOptions);
+  const callbacksRef = useRef({ onStepChange, onComplete });
+
+  // Keep refs updated
+  useEffect(() => {
+    optionsRef.current = challengeOptions;
+  });
+
+  useEffect(() => {
+    callbacksRef.current = { onStepChange, onComplete };
+  }, [onStepChange, onComplete]);
+
+  const syncState = useCallback(() => {
+    const session = sessionRef.current;
+    if (!session) {
+      return;
+    }
+    setStatus(session.getStatus());
+    setCurrentStepIndex(session.getCurrentStepIndex());
+    setSteps(session.getSteps());
+    setResult(session.getResult());
+  }, []);
+
+  const complete = useCallback((sessionResult: LivenessResult) => {
+    syncState();
+    callbacksRef.current.onComplete?.(sessionResult);
+  }, [syncState]);
+
+  // Start a new session (a new random sequence each time)
+  const start = useCallback(() => {
+    const session = createLivenessChallenge(optionsRef.current);
+    sessionRef.current = session;
+    session.start();
+    syncState();
+
+    const challenge = session.getCurrentChallenge();
+    if (challenge) {
+      callbacksRef.current.onStepChange?.(challenge, 0);
+    } else {
+      const sessionResult = session.getResult();
+      if (sessionResult) {
+        complete(sessionResult);
+      }
+    }
+  }, [syncState, complete]);
+
+  const cancel = useCallback(() => {
+    const sessionResult = sessionRef.current?.cancel();
+    if (sessionResult) {
+      complete(sessionResult);
+    }
+  }, [complete]);
+
+  const processFaces = useCallback((faces: Face[]) => {
+    const session = sessionRef.current;
+    if (!session || session.getStatus() !== 'running') {
+      return;
+    }
+
+    const previousIndex = session.getCurrentStepIndex();
+    const sessionResult = session.processFaces(faces);
+
+    if (sessionResult) {
+      complete(sessionResult);
+      return;
+    }
+
+    const index = session.getCurrentStepIndex();
+    if (index !== previousIndex) {
+      syncState();
+      const challenge = session.getCurrentChallenge();
+      if (challenge) {
+        callbacksRef.current.onStepChange?.(challenge, index);
+      }
+    }
+  }, [syncState, complete]);
+
+  // Check deadlines on a timer so a stalled camera still times out
+  useEffect(() => {
+    if (status !== 'running') {
+      return;
+    }
+    const interval = setInterval(() => {
+      const sessionResult = sessionRef.current?.checkDeadlines();
+      if (sessionResult) {
+        complete(sessionResult);
+      }
+    }, DEADLINE_CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [status, complete]);
+
+  // Cancel a running session on unmount
+  useEffect(() => {
+    return () => {
+      sessionRef.current?.cancel();
+    };
+  }, []);
+
+  return {
+    status,
+    currentChallenge: status === 'running' ? steps[currentStepIndex]?.challenge ?? null : null,
+    currentStepIndex,
+    steps,
+    result,
+    start,
+    cancel,
+    processFaces,
+  };
+}
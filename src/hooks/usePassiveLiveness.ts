@@ -0,0 +1,156 @@
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+
+import { createPassiveLivenessEstimator } from '../detection/passiveLiveness';
+import type { Face, PassiveLivenessOptions, PassiveLivenessResult } from '../types';
+
+/**
+ * Options for usePassiveLiveness hook
+ */
+export interface UsePassiveLivenessOptions extends PassiveLivenessOptions {
+  /** Whether the estimator is enabled. Default: true */
+  enabled?: boolean;
+
+  /** Minimum time between `result` state updates in milliseconds. Default: 500 */
+  updateIntervalMs?: number;
+
+  /** Callback with every state update of the estimate */
+  onResult?: (result: PassiveLivenessResult) => void;
+}
+
+/**
+ * Return type for usePassiveLiveness hook
+ */
+export interface UsePassiveLivenessResult {
+  /** Latest liveness estimate (null until the first face) */
+  result: PassiveLivenessResult | null;
+  /** Process detected faces - call this with the faces of every frame */
+  processFaces: (faces: Face[]) => void;
+  /** Clear all samples */
+  reset: () => void;
+}
+
+/**
+ * Hook for passive liveness estimation
+ *
+ * Scores how live the face in front of the camera looks from landmark micro-motion,
+ * spontaneous blinks and pose jitter, without asking the user to do anything.
+ * Detection should run with `landmarkMode: 'all'` and `classificationMode: 'all'`.
+ *
+ * @param options - Passive liveness options
+ * @returns Liveness estimate and controls
+ *
+ * @example
+ * ```tsx
+ * function SelfieScreen() {
+ *   const { result, processFaces } = usePassiveLiveness({
+ *     onResult: (estimate) => {
+ *       if (estimate.isReliable && !estimate.isLive) {
+ *         console.warn('Possible photo attack', estimate.factors);
+ *       }
+ *     },
+ *   });
+ *
+ *   const { detectFaces } = useFaceDetectorWithCallback({
+ *     landmarkMode: 'all',
+ *     classificationMode: 'all',
+ *     trackingEnabled: true,
+ *     onFacesDetected: processFaces,
+ *   });
+ *
+ *   return <Text>Liveness: {result?.score.toFixed(2)}</Text>;
+ * }
+ * ```
+ */
+export function usePassiveLiveness(
+  options: UsePassiveLivenessOptions = {}
+): UsePassiveLivenessResult {
+  const {
+    enabled = true,
+    updateIntervalMs = 500,
+    onResult,
+    windowMs,
+    minObservationMs,
+    liveThreshold,
+    weights,
+    rigidLandmarkMotion,
+    liveLandmarkMotion,
+    expectedBlinks,
+    rigidPoseJitter,
+    livePoseJitter,
+  } = options;
+
+  const [result, setResult] = useState<PassiveLivenessResult | null>(null);
+  const callbackRef = useRef(onResult);
+  const lastUpdateRef = useRef(0);
+
+  // Keep callback ref updated
+  useEffect(() => {
+    callbackRef.current = onResult;
+  }, [onResult]);
+
+  const landmarkWeight = weights?.landmarkMotion;
+  const blinkWeight = weights?.blink;
+  const poseWeight = weights?.poseJitter;
+
+  const estimator = useMemo(() => createPassiveLivenessEstimator({
+    windowMs,
+    minObservationMs,
+    liveThreshold,
+    weights: {
+      landmarkMotion: landmarkWeight,
+      blink: blinkWeight,
+      poseJitter: poseWeight,
+    },
+    rigidLandmarkMotion,
+    liveLandmarkMotion,
+    expectedBlinks,
+    rigidPoseJitter,
+    livePoseJitter,
+  }), [
+    windowMs,
+    minObservationMs,
+    liveThreshold,
+    landmarkWeight,
+    blinkWeight,
+    poseWeight,
+    rigidLandmarkMotion,
+    liveLandmarkMotion,
+    expectedBlinks,
+    rigidPoseJitter,
+    livePoseJitter,
+  ]);
+
+  const processFaces = useCallback((faces: Face[]) => {
+    if (!enabled) {
+      return;
+    }
+
+    const now = Date.now();
+    const estimate = estimator.addFaces(faces, now);
+
+    if (now - lastUpdateRef.current >= updateIntervalMs) {
+      lastUpdateRef.current = now;
+      setResult(estimate);
+      callbackRef.current?.(estimate);
+    }
+  }, [enabled, estimator, updateIntervalMs]);
+
+  const reset = useCallback(() => {
+    estimator.reset();
+    lastUpdateRef.current = 0;
+    setResult(null);
+  }, [estimator]);
+
+  // Reset on disable
+  useEffect(() => {
+    if (!enabled) {
+      reset();
+    }
+  }, [enabled, reset]);
+
+  return {
+    result,
+    processFaces,
+    reset,
+  };
+}
@@ -10,6 +10,12 @@
  */
 
 import { useState, useCallback, useRef, useEffect } from 'react';
+
+import {
+  reportDiagnostics,
+  validateMediaConstraints,
+  validatePeerConnectionConfig,
+} from '../utils/validation';
 import {
   WebRTCManager,
   isWebRTCAvailable,
@@ -155,6 +161,27 @@ export function useWebRTC(options: UseWebRTCOptions = {}): UseWebRTCResult {
     onError,
   ]);
 
+  // Validate configuration during development, only when the contents change
+  const configKey = JSON.stringify(config ?? null);
+  const mediaConstraintsKey = JSON.stringify(mediaConstraints ?? null);
+  useEffect(() => {
+    if (__DEV__) {
+      reportDiagnostics(
+        'useWebRTC config',
+        validatePeerConnectionConfig(JSON.parse(configKey) ?? undefined)
+      );
+    }
+  }, [configKey]);
+
+  useEffect(() => {
+    if (__DEV__) {
+      reportDiagnostics(
+        'useWebRTC mediaConstraints',
+        validateMediaConstraints(JSON.parse(mediaConstraintsKey) ?? undefined)
+      );
+    }
+  }, [mediaConstraintsKey]);
+
   // Initialize manager
   useEffect(() => {
     if (!isWebRTCAvailable()) {
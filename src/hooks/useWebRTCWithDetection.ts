@@ -10,13 +10,19 @@
  * - Track eye status for blink detection
  */
 
-import { useState, useCallback, useRef, useEffect } from 'react';
-import { useRunOnJS } from 'react-native-worklets-core';
+import { useState, useCallback } from 'react';
 import type { Frame } from 'react-native-vision-camera';
-import { useWebRTC } from './useWebRTC';
-import { useFaceDetector } from './useFaceDetector';
+
 import { useBlinkDetection } from './useBlinkDetection';
-import type { Face, EyeStatusResult } from '../types';
+import { useFaceDetectorWithCallback } from './useFaceDetector';
+import { useWebRTC } from './useWebRTC';
+import type {
+  Face,
+  EyeStatusResult,
+  DetectionOptionWarning,
+  FrameAnalyzer,
+  FrameAnalyzerResults,
+} from '../types';
 import type {
   UseWebRTCOptions,
   UseWebRTCResult,
@@ -29,12 +35,18 @@ export type { UseWebRTCWithDetectionOptions } from '../webrtc/types';
 /**
  * Result type for useWebRTCWithDetection hook
  */
-export interface UseWebRTCWithDetectionResult extends UseWebRTCResult {
+export interface UseWebRTCWithDetectionResult<
+  A extends Record<string, FrameAnalyzer<unknown>> = Record<string, never>,
+> extends UseWebRTCResult {
   // Face detection
   /** Currently detected faces */
   faces: Face[];
-  /** Detect faces in a frame (for use in VisionCamera frame processor) */
+  /** Detect faces in a frame and update faces, eye status and analyzers (for use in frame processor) */
   detectFaces: (frame: Frame) => Face[];
+  /** Conflicts found while resolving the face detection options */
+  detectionWarnings: DetectionOptionWarning[];
+  /** Latest delivered result of each analyzer */
+  analyzerResults: FrameAnalyzerResults<A>;
   
   // Eye tracking
   /** Current eye status */
@@ -52,6 +64,9 @@ export interface UseWebRTCWithDetectionResult extends UseWebRTCResult {
 /**
  * Hook combining WebRTC video calling with face detection and eye tracking
  * 
+ * Faces are detected once per frame and shared by eye tracking and the
+ * `analyzers` option, so adding analysis doesn't add ML Kit runs.
+ * 
  * @param options - Configuration options
  * @returns Combined WebRTC, face detection, and eye tracking controls
  * 
@@ -104,12 +119,16 @@ export interface UseWebRTCWithDetectionResult extends UseWebRTCResult {
  * }
  * ```
  */
-export function useWebRTCWithDetection(
-  options: UseWebRTCWithDetectionOptions = {}
-): UseWebRTCWithDetectionResult {
+export function useWebRTCWithDetection<
+  A extends Record<string, FrameAnalyzer<unknown>> = Record<string, never>,
+>(
+  options: UseWebRTCWithDetectionOptions<A> = {}
+): UseWebRTCWithDetectionResult<A> {
   const {
     faceDetection = {},
     eyeTracking = {},
+    analyzers,
+    onAnalyzerResults,
     ...webrtcOptions
   } = options;
 
@@ -119,14 +138,6 @@ export function useWebRTCWithDetection(
   // Face detection state
   const [faces, setFaces] = useState<Face[]>([]);
 
-  // Face detector hook
-  const { detectFaces } = useFaceDetector({
-    performanceMode: faceDetection.performanceMode || 'fast',
-    landmarkMode: faceDetection.landmarkMode || 'none',
-    classificationMode: faceDetection.classificationMode || 'all', // Needed for eye tracking
-    trackingEnabled: true,
-  });
-
   // Blink detection hook
   const {
     eyeStatus,
@@ -135,10 +146,12 @@ export function useWebRTCWithDetection(
   } = useBlinkDetection({
     enabled: eyeTracking.enabled !== false,
     eyeClosedThreshold: eyeTracking.eyeClosedThreshold ?? 0.5,
+    // Tracking is on by default, so the caller keeps the session
+    primaryFace: eyeTracking.primaryFace ?? 'sticky',
   });
 
   // Handle detected faces on JS thread
-  const handleFaces = useRunOnJS((detectedFaces: Face[]) => {
+  const handleFaces = useCallback((detectedFaces: Face[]) => {
     setFaces(detectedFaces);
     
     // Process for eye tracking if enabled
@@ -147,6 +160,25 @@ export function useWebRTCWithDetection(
     }
   }, [processEyeStatus, eyeTracking.enabled]);
 
+  // Face detector hook; without a preset, eye tracking needs classification and tracking
+  const {
+    detectFaces,
+    optionWarnings: detectionWarnings,
+    analyzerResults,
+  } = useFaceDetectorWithCallback<A>({
+    preset: faceDetection.preset,
+    performanceMode: faceDetection.performanceMode,
+    landmarkMode: faceDetection.landmarkMode,
+    contourMode: faceDetection.contourMode,
+    classificationMode:
+      faceDetection.classificationMode ?? (faceDetection.preset ? undefined : 'all'),
+    minFaceSize: faceDetection.minFaceSize,
+    trackingEnabled: faceDetection.trackingEnabled ?? (faceDetection.preset ? undefined : true),
+    onFacesDetected: handleFaces,
+    analyzers,
+    onAnalyzerResults,
+  });
+
   // Combined frame processor function
   const processFrame = useCallback((frame: Frame) => {
     'worklet';
@@ -155,9 +187,8 @@ export function useWebRTCWithDetection(
       return;
     }
     
-    const detectedFaces = detectFaces(frame);
-    handleFaces(detectedFaces);
-  }, [detectFaces, handleFaces, faceDetection.enabled]);
+    detectFaces(frame);
+  }, [detectFaces, faceDetection.enabled]);
 
   return {
     // WebRTC
@@ -166,6 +197,8 @@ export function useWebRTCWithDetection(
     // Face detection
     faces,
     detectFaces,
+    detectionWarnings,
+    analyzerResults,
     
     // Eye tracking
     eyeStatus,
@@ -9,8 +9,22 @@
 // PRIMARY EXPORTS (matching react-native-vision-camera-face-detector API)
 // =============================================================================
 
+// Camera component with built-in face/blink detection
+export { SmartCamera } from './SmartCamera';
+
 // Frame processor function - use directly in useFrameProcessor
-export { detectFaces, isFaceDetectorAvailable } from './detection/faceDetector';
+export {
+  detectFaces,
+  tryDetectFaces,
+  isFaceDetectorAvailable,
+  type FaceDetectionAttempt,
+} from './detection/faceDetector';
+
+// Validation and normalization of native face results
+export {
+  normalizeFaces,
+  type NormalizeFacesResult,
+} from './detection/faceNormalizer';
 
 // Hook for face detection (matches reference package API)
 export { 
@@ -19,9 +33,24 @@ export {
   type UseFaceDetectorOptions,
   type UseFaceDetectorResult,
   type UseFaceDetectorWithCallbackOptions,
+  type UseFaceDetectorWithCallbackResult,
   type FaceDetectionCallback,
 } from './hooks/useFaceDetector';
 
+// Backpressure-aware delivery of results to the JS thread
+export {
+  useFaceDelivery,
+  type UseFaceDeliveryOptions,
+  type UseFaceDeliveryResult,
+} from './hooks/useFaceDelivery';
+
+// Detector health and error reporting
+export {
+  useDetectorHealth,
+  type UseDetectorHealthOptions,
+  type UseDetectorHealthResult,
+} from './hooks/useDetectorHealth';
+
 // =============================================================================
 // TYPES (matching react-native-vision-camera-face-detector API)
 // =============================================================================
@@ -36,20 +65,78 @@ export type {
   FaceDetectionOptions,
   FrameProcessorOptions,
   StaticImageOptions,
+  StaticImageCoordinateSpace,
+  ExifOrientation,
+  ResolvedImageSource,
+  StaticFaceDetectionOutput,
+  StaticFaceDetectorBackend,
   FaceDetectionConfig,
 
+  // Detection Presets
+  DetectionPresetName,
+  DetectionPresetOptions,
+  DetectionOptionWarningCode,
+  DetectionOptionWarning,
+  ResolvedDetectionOptions,
+
   // Face Detection Results
   Point,
   Bounds,
+  Size,
   FaceLandmarks,
   ContourType,
   FaceContours,
   Face,
+  FaceSchemaIssue,
 
   // Blink/Eye Detection
+  BlinkKind,
+  BlinkEventThresholds,
+  BlinkClassifierOptions,
   BlinkEvent,
   EyeStatus,
   EyeStatusResult,
+  FatigueLevel,
+  FatigueMetrics,
+  FatigueMonitorOptions,
+
+  // Face Tracking
+  FaceTrackEventType,
+  FaceTrackEvent,
+  FaceTrack,
+  FaceTrackerOptions,
+
+  // Smoothing
+  SmoothingFilterType,
+  FaceSmoothingOptions,
+
+  // Face Quality
+  FaceQualityCriterion,
+  FaceQualityCriterionResult,
+  FaceQualityResult,
+  FaceQualityOptions,
+
+  // Auto Capture
+  AutoCaptureStatus,
+  AutoCaptureResult,
+
+  // Best Frame
+  BestFrameFactorName,
+  BestFrameMoment,
+  BestFramePickerOptions,
+  BestFrameCapture,
+
+  // Liveness
+  LivenessChallengeType,
+  LivenessFailureReason,
+  LivenessEvidence,
+  LivenessStepResult,
+  LivenessResult,
+  LivenessChallengeOptions,
+  PassiveLivenessFactorName,
+  PassiveLivenessFactor,
+  PassiveLivenessResult,
+  PassiveLivenessOptions,
 
   // WebRTC (from main types)
   WebRTCMode,
@@ -62,10 +149,12 @@ export type {
   // Error Handling
   SmartCameraErrorCode,
   SmartCameraError,
+  DetectorHealthState,
 
   // Hook Return Types
   UseSmartCameraWebRTCResult,
   UseFaceDetectionResult,
+  FaceChangePolicy,
   UseBlinkDetectionResult,
   UseSmartCameraResult,
 
@@ -75,22 +164,189 @@ export type {
   // Orientation
   Orientation,
   OutputOrientation,
+
+  // Primary Face Selection
+  PrimaryFaceStrategyType,
+  PrimaryFaceStrategyOptions,
+  PrimaryFaceStrategy,
+
+  // Result Delivery
+  FaceDeliveryPolicy,
+  FaceDeliveryOptions,
+  FaceDeliveryStats,
+
+  // Frame Analysis
+  FrameAnalysisContext,
+  FrameAnalyzer,
+  FrameAnalyzerResult,
+  FrameAnalyzerResults,
+  FacePose,
+  BaseFrameAnalyzerOptions,
+  BlinkAnalyzerOptions,
+  PoseAnalyzerOptions,
+  QualityAnalyzerOptions,
+
+  // Detection Scheduling
+  SceneActivity,
+  DetectionSchedulerOptions,
+  DetectionSchedulerState,
+  FacePredictorOptions,
+
+  // Coordinate Mapping
+  PreviewResizeMode,
+  CoordinateMapperOptions,
+
+  // Validation
+  ValidationSeverity,
+  ValidationCode,
+  ValidationDiagnostic,
 } from './types';
 
 // =============================================================================
 // ADDITIONAL FEATURES (our package only)
 // =============================================================================
 
+// Detection presets and option resolution
+export {
+  resolveDetectionOptions,
+  DETECTION_PRESETS,
+  DEFAULT_FACE_DETECTION_OPTIONS,
+} from './detection/detectionPresets';
+
+// Frame analysis pipeline (one detection per frame, many analyzers)
+export {
+  useFrameAnalysis,
+  type UseFrameAnalysisOptions,
+  type UseFrameAnalysisResult,
+} from './hooks/useFrameAnalysis';
+export {
+  useFaceAnalyzers,
+  type UseFaceAnalyzersOptions,
+  type UseFaceAnalyzersResult,
+} from './hooks/useFaceAnalyzers';
+export {
+  createFrameAnalysisPipeline,
+  createBlinkAnalyzer,
+  createPoseAnalyzer,
+  createQualityAnalyzer,
+} from './detection/frameAnalysis';
+
+// Primary face selection
+export {
+  selectPrimaryFace,
+  createPrimaryFaceSelector,
+  DEFAULT_PRIMARY_FACE_STRATEGY,
+} from './detection/primaryFace';
+
+// Face tracking (works without native trackingEnabled)
+export {
+  useFaceTracker,
+  type UseFaceTrackerOptions,
+  type UseFaceTrackerResult,
+} from './hooks/useFaceTracker';
+export {
+  createFaceTracker,
+  boundsIoU,
+  DEFAULT_FACE_TRACKER_OPTIONS,
+  type FaceTrackerUpdate,
+} from './detection/faceTracker';
+
+// Temporal smoothing
+export { createFaceSmoother, DEFAULT_FACE_SMOOTHING_OPTIONS } from './detection/faceSmoothing';
+
+// Adaptive detection rate
+export {
+  createDetectionScheduler,
+  DEFAULT_DETECTION_SCHEDULER_OPTIONS,
+} from './detection/detectionScheduler';
+export { createFacePredictor, DEFAULT_FACE_PREDICTOR_OPTIONS } from './detection/facePredictor';
+
 // Blink/Eye detection
 export { useBlinkDetection, type UseBlinkDetectionOptions } from './hooks/useBlinkDetection';
-export { processBlinkFromFaces, resetBlinkStates, getEyeState } from './detection/blinkProcessor';
+
+// Fatigue (PERCLOS) monitoring
+export {
+  useFatigueMonitor,
+  type UseFatigueMonitorOptions,
+  type UseFatigueMonitorResult,
+} from './hooks/useFatigueMonitor';
+export { createFatigueMonitor, DEFAULT_FATIGUE_MONITOR_OPTIONS } from './detection/fatigueMonitor';
+
+// Face capture quality
+export {
+  useFaceQuality,
+  type UseFaceQualityOptions,
+  type UseFaceQualityResult,
+} from './hooks/useFaceQuality';
+export { scoreFaceQuality, DEFAULT_FACE_QUALITY_OPTIONS } from './detection/faceQuality';
+
+// Auto-capture
+export {
+  useAutoCapture,
+  type UseAutoCaptureOptions,
+  type UseAutoCaptureResult,
+} from './hooks/useAutoCapture';
+
+// Best-frame picking
+export {
+  useBestFramePicker,
+  type UseBestFramePickerOptions,
+  type UseBestFramePickerResult,
+} from './hooks/useBestFramePicker';
+export {
+  createBestFramePicker,
+  scoreMoment,
+  DEFAULT_BEST_FRAME_PICKER_OPTIONS,
+} from './detection/bestFramePicker';
+
+// Active liveness challenges
+export {
+  useLivenessChallenge,
+  type UseLivenessChallengeOptions,
+  type UseLivenessChallengeResult,
+} from './hooks/useLivenessChallenge';
+export {
+  createLivenessChallenge,
+  generateChallengeSequence,
+  DEFAULT_LIVENESS_CHALLENGE_OPTIONS,
+  type LivenessSessionStatus,
+} from './detection/livenessChallenge';
+
+// Passive liveness
+export {
+  usePassiveLiveness,
+  type UsePassiveLivenessOptions,
+  type UsePassiveLivenessResult,
+} from './hooks/usePassiveLiveness';
+export {
+  createPassiveLivenessEstimator,
+  DEFAULT_PASSIVE_LIVENESS_OPTIONS,
+} from './detection/passiveLiveness';
+export {
+  processBlinkFromFaces,
+  createBlinkClassifier,
+  resetBlinkStates,
+  getEyeState,
+  DEFAULT_BLINK_CLASSIFIER_OPTIONS,
+} from './detection/blinkProcessor';
 
 // Camera management hooks
 export { useSmartCamera, getAvailableCameras } from './hooks/useSmartCamera';
 export { useFaceDetection, type UseFaceDetectionOptions } from './hooks/useFaceDetection';
 
 // Static image detection
-export { detectFacesInImage } from './detection/staticImageDetector';
+export {
+  detectFacesInImage,
+  resolveImageSource,
+  registerStaticFaceDetectorBackend,
+  getStaticFaceDetectorBackend,
+  nativeStaticFaceDetectorBackend,
+} from './detection/staticImageDetector';
+export {
+  readExifOrientation,
+  createExifOrientationTransform,
+  type ExifOrientationTransform,
+} from './utils/exifOrientation';
 
 // Utilities
 export {
@@ -98,11 +354,21 @@ export {
   debounce,
   throttle,
   createObjectPool,
+  createRingBuffer,
   createSmartCameraError,
   safeExecute,
   validateFaceDetectionOptions,
   createPerformanceMonitor,
+  type PerformanceMonitor,
 } from './utils';
+export { createCoordinateMapper, type CoordinateMapper } from './utils/coordinateMapper';
+export {
+  validateFrameProcessorOptions,
+  validatePeerConnectionConfig,
+  validateIceServer,
+  validateMediaConstraints,
+  hasValidationErrors,
+} from './utils/validation';
 
 // =============================================================================
 // WEBRTC VIDEO CALLING (requires react-native-webrtc)
@@ -1,4 +1,5 @@
 import type { ViewStyle } from 'react-native';
+import type { Frame, PhotoFile } from 'react-native-vision-camera';
 
 // ============================================================================
 // Face Detection Options
@@ -83,6 +84,66 @@ export interface FaceDetectionOptions {
   trackingEnabled?: boolean;
 }
 
+/**
+ * Named face detection option combinations
+ * - 'blink': Eye classification with tracking for blink and wink detection
+ * - 'kyc-capture': Accurate landmarks and classification of one large face
+ * - 'multi-face-tracking': Tracking IDs for several, also smaller faces
+ * - 'overlay-contours': Contours and landmarks for drawing face overlays
+ * - 'low-power': Bounds only, for presence detection on a battery budget
+ */
+export type DetectionPresetName =
+  | 'blink'
+  | 'kyc-capture'
+  | 'multi-face-tracking'
+  | 'overlay-contours'
+  | 'low-power';
+
+/**
+ * Face detection options based on a preset; explicit options override the preset
+ */
+export interface DetectionPresetOptions extends FaceDetectionOptions {
+  /** Preset to start from */
+  preset?: DetectionPresetName;
+}
+
+/**
+ * Problem found while resolving face detection options
+ * - 'CONTOURS_WITH_TRACKING': Contours limit detection to one face, so tracking is not useful
+ * - 'PRESET_CAPABILITY_DISABLED': An override disables something the preset exists for
+ * - 'MIN_FACE_SIZE_OUT_OF_RANGE': minFaceSize was clamped to 0-1
+ * - 'UNKNOWN_PRESET': The preset name is not known and was ignored
+ */
+export type DetectionOptionWarningCode =
+  | 'CONTOURS_WITH_TRACKING'
+  | 'PRESET_CAPABILITY_DISABLED'
+  | 'MIN_FACE_SIZE_OUT_OF_RANGE'
+  | 'UNKNOWN_PRESET';
+
+/**
+ * Structured face detection option warning
+ */
+export interface DetectionOptionWarning {
+  /** Warning code */
+  code: DetectionOptionWarningCode;
+  /** Option the warning is about, e.g. `trackingEnabled` */
+  path: string;
+  /** Human-readable description, including what the resolver changed */
+  message: string;
+}
+
+/**
+ * Result of resolving face detection options
+ */
+export interface ResolvedDetectionOptions {
+  /** Effective options with every value set */
+  options: Required<FaceDetectionOptions>;
+  /** Preset the options are based on */
+  preset: DetectionPresetName | null;
+  /** Conflicts and adjustments */
+  warnings: DetectionOptionWarning[];
+}
+
 /**
  * Frame processor specific options
  */
@@ -126,6 +187,82 @@ export interface StaticImageOptions extends FaceDetectionOptions {
    * Can be a require() result (number), a URI string, or an object with uri.
    */
   image: number | string | { uri: string };
+
+  /**
+   * Coordinate space of the results:
+   * - 'display': Upright as the image is displayed, with its EXIF orientation applied
+   * - 'sensor': As the pixels are stored in the file (the detector's own coordinates)
+   * @default 'display'
+   */
+  coordinateSpace?: StaticImageCoordinateSpace;
+
+  /**
+   * EXIF orientation of the image, when already known (e.g. from an image picker).
+   * By default the backend reports it.
+   */
+  orientation?: ExifOrientation;
+}
+
+/**
+ * Coordinate space of static image results
+ */
+export type StaticImageCoordinateSpace = 'display' | 'sensor';
+
+/**
+ * EXIF orientation tag value, i.e. how the stored pixels are transformed for display
+ * - 1: Unchanged
+ * - 2: Mirrored horizontally
+ * - 3: Rotated 180°
+ * - 4: Mirrored vertically
+ * - 5: Mirrored horizontally, then rotated 90° counter-clockwise
+ * - 6: Rotated 90° clockwise (portrait photos from most phones)
+ * - 7: Mirrored horizontally, then rotated 90° clockwise
+ * - 8: Rotated 90° counter-clockwise
+ */
+export type ExifOrientation = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8;
+
+/**
+ * Image source resolved to a URI (require() assets via `Image.resolveAssetSource`)
+ */
+export interface ResolvedImageSource {
+  /** file://, content://, http(s):// URI, or a bundled resource name in release builds */
+  uri: string;
+  /** Width in pixels, when known from the asset */
+  width?: number;
+  /** Height in pixels, when known from the asset */
+  height?: number;
+}
+
+/**
+ * Raw result of a static face detector backend
+ */
+export interface StaticFaceDetectionOutput {
+  /** Detected faces in pixel coordinates of the stored image (normalized to `Face` afterwards) */
+  faces: unknown[];
+  /** Width of the stored image in pixels */
+  width: number;
+  /** Height of the stored image in pixels */
+  height: number;
+  /** EXIF orientation of the stored image (1 when it has no orientation tag), when the backend can read it */
+  orientation?: ExifOrientation;
+}
+
+/**
+ * Backend detecting faces in still images
+ *
+ * The default backend is the native ML Kit module. Register another one with
+ * `registerStaticFaceDetectorBackend`, e.g. for tests or server-side rendering.
+ */
+export interface StaticFaceDetectorBackend {
+  /** Backend name, used in error messages */
+  name: string;
+  /** Whether the backend can be used in this environment */
+  isAvailable: () => boolean;
+  /** Detect faces in the image with fully resolved detection options */
+  detect: (
+    source: ResolvedImageSource,
+    options: Required<FaceDetectionOptions>
+  ) => Promise<StaticFaceDetectionOutput>;
 }
 
 // ============================================================================
@@ -150,6 +287,14 @@ export interface Bounds {
   height: number;
 }
 
+/**
+ * Width and height, in the same coordinate space as the face bounds
+ */
+export interface Size {
+  width: number;
+  height: number;
+}
+
 /**
  * Facial landmarks detected by ML Kit
  */
@@ -189,9 +334,7 @@ export type ContourType =
 /**
  * Facial contours detected by ML Kit
  */
-export interface FaceContours {
-  [key: string]: Point[];
-}
+export type FaceContours = Partial<Record<ContourType, Point[]>>;
 
 /**
  * Detected face data
@@ -204,6 +347,9 @@ export interface Face {
 
   /**
    * Roll angle of the face (rotation around front-to-back axis)
+   *
+   * Angles are in degrees and follow ML Kit's convention for the unmirrored frame,
+   * also when autoMode mirrors the coordinates of the front camera.
    */
   rollAngle?: number;
 
@@ -249,12 +395,100 @@ export interface Face {
    * Tracking ID for this face (when trackingEnabled is true)
    */
   trackingId?: number;
+
+  /**
+   * True when the face was extrapolated from earlier detections instead of
+   * detected in this frame (see `createFacePredictor`)
+   */
+  predicted?: boolean;
+}
+
+/**
+ * Problem found while normalizing native face results
+ */
+export interface FaceSchemaIssue {
+  /** Path of the offending value, e.g. `[0].landmarks.mouthTop` */
+  path: string;
+  /** What is wrong */
+  message: string;
 }
 
 // ============================================================================
 // Blink Detection
 // ============================================================================
 
+/**
+ * Kind of eye closure event
+ * - 'blink': Both eyes closed and reopened quickly
+ * - 'left-wink': Only the left eye closed and reopened
+ * - 'right-wink': Only the right eye closed and reopened
+ * - 'long-blink': Both eyes closed longer than a normal blink, then reopened
+ * - 'eyes-closed': Both eyes have been held closed (emitted once while still closed)
+ */
+export type BlinkKind = 'blink' | 'left-wink' | 'right-wink' | 'long-blink' | 'eyes-closed';
+
+/**
+ * Eye probability thresholds and closure duration limits for one kind of event
+ */
+export interface BlinkEventThresholds {
+  /**
+   * Eye open probability below which an eye counts as closed
+   */
+  closedThreshold?: number;
+
+  /**
+   * Eye open probability above which an eye counts as open again
+   */
+  openThreshold?: number;
+
+  /**
+   * Minimum closure duration in milliseconds
+   */
+  minDurationMs?: number;
+
+  /**
+   * Maximum closure duration in milliseconds
+   */
+  maxDurationMs?: number;
+}
+
+/**
+ * Blink classifier configuration
+ */
+export interface BlinkClassifierOptions {
+  /**
+   * Both eyes closed and reopened. The thresholds also decide when both eyes
+   * count as closed for 'long-blink' and 'eyes-closed'.
+   * @default { closedThreshold: 0.4, openThreshold: 0.6, minDurationMs: 0, maxDurationMs: 400 }
+   */
+  blink?: BlinkEventThresholds;
+
+  /**
+   * One eye closed while the other stays open
+   * @default { closedThreshold: 0.3, openThreshold: 0.7, minDurationMs: 100, maxDurationMs: 1000 }
+   */
+  wink?: BlinkEventThresholds;
+
+  /**
+   * Closures longer than `blink.maxDurationMs` and up to `maxDurationMs`
+   * @default { maxDurationMs: 1500 }
+   */
+  longBlink?: Pick<BlinkEventThresholds, 'maxDurationMs'>;
+
+  /**
+   * Eyes held closed for at least `minDurationMs`
+   * @default { minDurationMs: 1500 }
+   */
+  eyesClosed?: Pick<BlinkEventThresholds, 'minDurationMs'>;
+
+  /**
+   * Minimum time between events of the same face in milliseconds
+   * (does not apply to 'eyes-closed')
+   * @default 300
+   */
+  debounceMs?: number;
+}
+
 /**
  * Blink detection event
  */
@@ -264,6 +498,16 @@ export interface BlinkEvent {
    */
   timestamp: number;
 
+  /**
+   * Kind of eye closure
+   */
+  kind: BlinkKind;
+
+  /**
+   * How long the eye(s) were closed in milliseconds
+   */
+  durationMs: number;
+
   /**
    * Left eye open probability (0.0 - 1.0)
    */
@@ -275,7 +519,7 @@ export interface BlinkEvent {
   rightEyeOpen: number;
 
   /**
-   * Whether a blink was detected
+   * Whether a blink was detected ('blink' or 'long-blink')
    */
   isBlink: boolean;
 
@@ -338,7 +582,7 @@ export interface WebRTCConfig {
 /**
  * Face detection configuration for SmartCamera component
  */
-export interface FaceDetectionConfig extends FaceDetectionOptions {
+export interface FaceDetectionConfig extends DetectionPresetOptions {
   /**
    * Whether face detection is enabled
    * @default false
@@ -401,7 +645,18 @@ export interface SmartCameraProps {
   blinkDetection?: boolean;
 
   /**
-   * Callback when a blink is detected
+   * Blink classifier configuration (thresholds and durations per event kind)
+   */
+  blinkClassifier?: BlinkClassifierOptions;
+
+  /**
+   * Only report blinks of the primary face (use 'sticky' with `trackingEnabled`
+   * so a passer-by can't take over). Blinks of every face are reported when unset.
+   */
+  primaryFace?: PrimaryFaceStrategy;
+
+  /**
+   * Callback when a blink, wink, long blink or eyes-held-closed event is detected
    */
   onBlinkDetected?: (event: BlinkEvent) => void;
 
@@ -467,6 +722,724 @@ export interface SmartCameraError {
   nativeError?: Error;
 }
 
+/**
+ * Face detector health
+ * - 'ready': The native plugin is available and detection succeeds
+ * - 'degraded': Detection failed for several consecutive frames
+ * - 'unavailable': The native plugin is not registered (misconfigured build)
+ */
+export type DetectorHealthState = 'ready' | 'degraded' | 'unavailable';
+
+// ============================================================================
+// Face Tracking
+// ============================================================================
+
+/**
+ * Face track lifecycle event
+ * - 'start': A new face appeared
+ * - 'lost': The face was not matched in a frame (the track is kept for a short dropout)
+ * - 'recovered': A lost face was matched again
+ * - 'end': The face stayed lost longer than the dropout tolerance
+ */
+export type FaceTrackEventType = 'start' | 'lost' | 'recovered' | 'end';
+
+/**
+ * Face track lifecycle event
+ */
+export interface FaceTrackEvent {
+  /** Event type */
+  type: FaceTrackEventType;
+  /** Stable track ID */
+  trackingId: number;
+  /** Time of the event */
+  timestamp: number;
+  /** Last matched face of the track */
+  face: Face;
+  /** Time since the track started in milliseconds */
+  durationMs: number;
+}
+
+/**
+ * Face followed across frames
+ */
+export interface FaceTrack {
+  /** Stable track ID */
+  trackingId: number;
+  /** Last matched face */
+  face: Face;
+  /** Time the track started */
+  firstSeen: number;
+  /** Time the face was last matched */
+  lastSeen: number;
+  /** Number of frames the face was matched in */
+  hits: number;
+  /** Whether the face is currently missing (dropout) */
+  isLost: boolean;
+}
+
+/**
+ * Face tracker configuration
+ */
+export interface FaceTrackerOptions {
+  /** Minimum match score (0-1) to continue a track. Default: 0.3 */
+  minMatchScore?: number;
+  /** Weight of the landmark similarity in the match score (the rest is bounds IoU). Default: 0.3 */
+  landmarkWeight?: number;
+  /** Mean landmark distance, relative to the face width, at which landmark similarity reaches 0. Default: 0.5 */
+  maxLandmarkDistance?: number;
+  /** How long a track survives without a match in milliseconds. Default: 500 */
+  maxDropoutMs?: number;
+  /** Match faces with equal native `trackingId` regardless of their score. Default: true */
+  useNativeIds?: boolean;
+}
+
+// ============================================================================
+// Smoothing
+// ============================================================================
+
+/**
+ * Temporal smoothing filter
+ * - 'one-euro': Adaptive low-pass filter; smooth when still, responsive when moving
+ * - 'exponential': Fixed exponential moving average
+ * - 'kalman': Constant-velocity Kalman filter
+ */
+export type SmoothingFilterType = 'one-euro' | 'exponential' | 'kalman';
+
+/**
+ * Face smoothing configuration
+ *
+ * Positions are filtered relative to the face width and angles relative to 45°,
+ * so the same parameters work for normalized, pixel and view coordinates.
+ */
+export interface FaceSmoothingOptions {
+  /** Filter type. Default: 'one-euro' */
+  filter?: SmoothingFilterType;
+  /** Smoothing factor of the exponential filter (0-1, higher follows faster). Default: 0.5 */
+  alpha?: number;
+  /** One-Euro minimum cutoff frequency in Hz (lower is smoother). Default: 1 */
+  minCutoff?: number;
+  /** One-Euro speed coefficient (higher reduces lag when moving). Default: 2 */
+  beta?: number;
+  /** One-Euro cutoff frequency for the speed estimate in Hz. Default: 1 */
+  derivativeCutoff?: number;
+  /** Kalman process noise (higher follows faster). Default: 0.1 */
+  processNoise?: number;
+  /** Kalman measurement noise (higher is smoother). Default: 0.0005 */
+  measurementNoise?: number;
+  /** Center jump relative to the face width beyond which the filter snaps to the new position. Default: 0.5 */
+  snapThreshold?: number;
+  /** Smooth `bounds`. Default: true */
+  smoothBounds?: boolean;
+  /** Smooth `landmarks`. Default: true */
+  smoothLandmarks?: boolean;
+  /** Smooth `contours`. Default: true */
+  smoothContours?: boolean;
+  /** Smooth yaw, pitch and roll. Default: true */
+  smoothAngles?: boolean;
+  /** Time after which the state of an unseen face is dropped in milliseconds. Default: 1000 */
+  stateExpiryMs?: number;
+}
+
+// ============================================================================
+// Primary Face Selection
+// ============================================================================
+
+/**
+ * How the primary face is chosen when several faces are detected
+ * - 'largest': Largest bounds area
+ * - 'most-centered': Center closest to the frame center
+ * - 'closest-to-region': Center closest to the center of a target region
+ * - 'sticky': Keeps the last chosen `trackingId` and only hands off to another
+ *   face after it has been gone for a while
+ */
+export type PrimaryFaceStrategyType = 'largest' | 'most-centered' | 'closest-to-region' | 'sticky';
+
+/**
+ * Primary face strategy with parameters
+ */
+export interface PrimaryFaceStrategyOptions {
+  /** Strategy type */
+  type: PrimaryFaceStrategyType;
+  /** Frame size in the coordinate space of the face bounds. Default: 1 x 1 (normalized coordinates) */
+  frameSize?: Size;
+  /** Target region for 'closest-to-region'. Default: the whole frame */
+  region?: Bounds;
+  /** How 'sticky' chooses a new face. Default: 'largest' */
+  fallback?: Exclude<PrimaryFaceStrategyType, 'sticky'>;
+  /** Time the chosen face may be missing before 'sticky' hands off, in milliseconds. Default: 500 */
+  handOffDelayMs?: number;
+}
+
+/**
+ * Primary face strategy, by name (default parameters) or with parameters
+ */
+export type PrimaryFaceStrategy = PrimaryFaceStrategyType | PrimaryFaceStrategyOptions;
+
+// ============================================================================
+// Detection Scheduling
+// ============================================================================
+
+/**
+ * Scene activity used to pick the detection rate
+ * - 'moving': Faces moved, appeared or disappeared recently
+ * - 'static': Faces are present and still
+ * - 'empty': No faces
+ */
+export type SceneActivity = 'moving' | 'static' | 'empty';
+
+/**
+ * Adaptive detection scheduler configuration
+ */
+export interface DetectionSchedulerOptions {
+  /** Lowest detection rate. Default: 2 */
+  minFps?: number;
+  /** Highest detection rate (usually the camera FPS). Default: 30 */
+  maxFps?: number;
+  /** Detection rate while faces are still. Default: 10 */
+  staticFps?: number;
+  /** Detection rate while no face is visible. Default: 4 */
+  emptyFps?: number;
+  /** Share of wall-clock time detection may use (0-1). Default: 0.5 */
+  cpuBudget?: number;
+  /** Average detection time above which the rate is lowered, in milliseconds. Default: 50 */
+  maxLatencyMs?: number;
+  /** Face center speed, in face widths per second, above which faces count as moving. Default: 0.3 */
+  motionThreshold?: number;
+  /** Time without motion before the scene counts as static or empty, in milliseconds. Default: 500 */
+  settleMs?: number;
+  /** Smoothing factor of the measured detection time (0-1, higher follows faster). Default: 0.2 */
+  costSmoothing?: number;
+}
+
+/**
+ * Current decision of a detection scheduler
+ */
+export interface DetectionSchedulerState {
+  /** Detection rate currently aimed for */
+  targetFps: number;
+  /** Rate the scene activity asks for before the budget is applied */
+  activityFps: number;
+  /** Highest rate the CPU/latency budget allows */
+  budgetFps: number;
+  /** Scene activity */
+  activity: SceneActivity;
+  /** Smoothed detection time in milliseconds */
+  averageCostMs: number;
+  /** Frames that ran detection */
+  detectedFrames: number;
+  /** Frames skipped by the scheduler */
+  skippedFrames: number;
+}
+
+// ============================================================================
+// Motion Prediction
+// ============================================================================
+
+/**
+ * Face motion predictor configuration
+ */
+export interface FacePredictorOptions {
+  /** Longest time after the last detection that a face is extrapolated, in milliseconds. Default: 300 */
+  maxPredictionMs?: number;
+  /** Smoothing factor of the velocity estimate (0-1, higher follows faster). Default: 0.6 */
+  velocitySmoothing?: number;
+  /** Time after which an undetected face is dropped, in milliseconds. Default: 500 */
+  stateExpiryMs?: number;
+  /** Extrapolate landmarks. Default: true */
+  predictLandmarks?: boolean;
+  /** Move contours with the predicted bounds. Default: true */
+  predictContours?: boolean;
+}
+
+// ============================================================================
+// Frame Analysis
+// ============================================================================
+
+/**
+ * Per-frame information passed to frame analyzers
+ */
+export interface FrameAnalysisContext {
+  /** Processing time of the frame in milliseconds */
+  timestamp: number;
+  /** Frame width in pixels */
+  frameWidth: number;
+  /** Frame height in pixels */
+  frameHeight: number;
+}
+
+/**
+ * Analyzer plugged into a frame analysis pipeline
+ *
+ * `analyze` runs in the frame processor for every frame with the detected faces;
+ * only the delivery of its results to the JS thread is throttled.
+ */
+export interface FrameAnalyzer<TResult> {
+  /** Analyze the faces of a frame (worklet). Return undefined when there is nothing to report */
+  analyze: (faces: Face[], context: FrameAnalysisContext) => TResult | undefined;
+  /** Minimum time between two deliveries to the JS thread in milliseconds. Default: 0 */
+  throttleMs?: number;
+  /** Clear the analyzer state (worklet) */
+  reset?: () => void;
+}
+
+/**
+ * Result type of a frame analyzer
+ */
+export type FrameAnalyzerResult<A> = A extends FrameAnalyzer<infer R> ? R : never;
+
+/**
+ * Latest results of a set of named frame analyzers
+ */
+export type FrameAnalyzerResults<A extends Record<string, FrameAnalyzer<unknown>>> = {
+  [K in keyof A]?: FrameAnalyzerResult<A[K]>;
+};
+
+/**
+ * Head pose of a face in degrees
+ */
+export interface FacePose {
+  yaw: number;
+  pitch: number;
+  roll: number;
+  trackingId?: number;
+}
+
+/**
+ * Options shared by the built-in frame analyzers
+ */
+export interface BaseFrameAnalyzerOptions {
+  /** Minimum time between two deliveries to the JS thread in milliseconds */
+  throttleMs?: number;
+  /** Which face to analyze when several are detected */
+  primaryFace?: PrimaryFaceStrategy;
+}
+
+/**
+ * Blink analyzer configuration (reports events of every face unless `primaryFace` is set)
+ */
+export interface BlinkAnalyzerOptions extends BaseFrameAnalyzerOptions, BlinkClassifierOptions {}
+
+/**
+ * Pose analyzer configuration (default `primaryFace`: 'largest', `throttleMs`: 100)
+ */
+export type PoseAnalyzerOptions = BaseFrameAnalyzerOptions;
+
+/**
+ * Quality analyzer configuration (default `primaryFace`: 'largest', `throttleMs`: 200)
+ */
+export interface QualityAnalyzerOptions extends BaseFrameAnalyzerOptions, FaceQualityOptions {
+  /** Frame size in the coordinate space of the face bounds. Default: { width: 1, height: 1 } (normalized) */
+  frameSize?: Size;
+}
+
+// ============================================================================
+// Result Delivery
+// ============================================================================
+
+/**
+ * How detection results are delivered from the frame processor to the JS thread
+ * - 'latest': At most one delivery in flight; while the JS thread is busy only the newest result is kept
+ * - 'max-rate': Like 'latest', limited to `maxRate` deliveries per second
+ * - 'change-only': Like 'latest', only when the faces changed according to `changePolicy`
+ * - 'every': Every frame is delivered (queues work when the JS thread falls behind)
+ */
+export type FaceDeliveryPolicy = 'latest' | 'max-rate' | 'change-only' | 'every';
+
+/**
+ * Result delivery configuration
+ */
+export interface FaceDeliveryOptions {
+  /** Delivery policy. Default: 'latest' */
+  policy?: FaceDeliveryPolicy;
+  /** Maximum deliveries per second for 'max-rate'. Default: 15 */
+  maxRate?: number;
+  /** When faces count as changed for 'change-only'. Default: 'bounds' */
+  changePolicy?: FaceChangePolicy;
+  /** Movement/resize tolerance for the 'bounds' change policy, relative to the face size. Default: 0.05 */
+  boundsTolerance?: number;
+}
+
+/**
+ * Result delivery counters
+ */
+export interface FaceDeliveryStats {
+  /** Results handed to the JS callback */
+  delivered: number;
+  /** Results dropped because the JS thread was busy or the rate limit was reached */
+  dropped: number;
+  /** Results skipped by 'change-only' because nothing changed */
+  unchanged: number;
+}
+
+// ============================================================================
+// Face Quality
+// ============================================================================
+
+/**
+ * Face capture quality criterion
+ * - 'size': Face width relative to the frame width
+ * - 'centering': Face center distance from the frame center
+ * - 'pose': Frontal pose from yaw, pitch and roll
+ * - 'eyesOpen': Both eyes open
+ * - 'neutralExpression': Not smiling
+ * - 'landmarks': All required landmarks detected
+ */
+export type FaceQualityCriterion =
+  | 'size'
+  | 'centering'
+  | 'pose'
+  | 'eyesOpen'
+  | 'neutralExpression'
+  | 'landmarks';
+
+/**
+ * Result of one quality criterion
+ */
+export interface FaceQualityCriterionResult {
+  /** Whether the criterion is met */
+  passed: boolean;
+  /** Criterion score (0-1) */
+  score: number;
+  /** Raw measurement the score was derived from */
+  value: number;
+  /** Why the criterion failed */
+  reason?: string;
+}
+
+/**
+ * Overall face quality grade
+ */
+export interface FaceQualityResult {
+  /** Weighted mean of the criterion scores (0-1) */
+  score: number;
+  /** Whether every evaluated criterion passed */
+  passed: boolean;
+  /** Results of the evaluated criteria */
+  criteria: Partial<Record<FaceQualityCriterion, FaceQualityCriterionResult>>;
+  /** Reasons of all failed criteria */
+  reasons: string[];
+}
+
+/**
+ * Face quality scoring configuration
+ */
+export interface FaceQualityOptions {
+  /** Criteria to evaluate. Default: all */
+  criteria?: FaceQualityCriterion[];
+  /** Criterion weights in the overall score. Default: 1 each */
+  weights?: Partial<Record<FaceQualityCriterion, number>>;
+  /** Minimum face width relative to the frame width. Default: 0.2 */
+  minFaceSize?: number;
+  /** Maximum face width relative to the frame width. Default: 0.8 */
+  maxFaceSize?: number;
+  /** Maximum horizontal/vertical offset of the face center from the frame center, relative to the frame size. Default: 0.15 */
+  maxCenterOffset?: number;
+  /** Maximum absolute yaw in degrees. Default: 15 */
+  maxYawAngle?: number;
+  /** Maximum absolute pitch in degrees. Default: 15 */
+  maxPitchAngle?: number;
+  /** Maximum absolute roll in degrees. Default: 15 */
+  maxRollAngle?: number;
+  /** Minimum open probability of both eyes. Default: 0.6 */
+  minEyeOpenProbability?: number;
+  /** Maximum smiling probability for a neutral expression. Default: 0.5 */
+  maxSmilingProbability?: number;
+  /** Landmarks that must be detected. Default: eyes, nose base and mouth */
+  requiredLandmarks?: (keyof FaceLandmarks)[];
+}
+
+// ============================================================================
+// Auto Capture
+// ============================================================================
+
+/**
+ * Auto-capture state
+ * - 'idle': Disabled
+ * - 'waiting': Waiting for a face that meets the quality criteria
+ * - 'stabilizing': Criteria met, waiting for them to hold
+ * - 'countdown': Criteria held, counting down to the capture
+ * - 'capturing': Taking the photo
+ * - 'cooldown': Waiting before the next attempt
+ * - 'done': Maximum number of attempts reached
+ */
+export type AutoCaptureStatus =
+  | 'idle'
+  | 'waiting'
+  | 'stabilizing'
+  | 'countdown'
+  | 'capturing'
+  | 'cooldown'
+  | 'done';
+
+/**
+ * Photo taken by auto-capture
+ */
+export interface AutoCaptureResult {
+  /** Captured photo */
+  photo: PhotoFile;
+  /** Face that triggered the capture */
+  face: Face;
+  /** Quality grade of the triggering face */
+  quality: FaceQualityResult;
+  /** Attempt number (1-based) */
+  attempt: number;
+  /** Time the capture was triggered */
+  timestamp: number;
+}
+
+// ============================================================================
+// Best Frame
+// ============================================================================
+
+/**
+ * Factor of a best-frame moment score
+ * - 'eyesOpen': Eyes of every face open
+ * - 'smiling': Faces smiling
+ * - 'frontal': Every face looking at the camera
+ * - 'sharpness': Faces holding still (less motion blur)
+ */
+export type BestFrameFactorName = 'eyesOpen' | 'smiling' | 'frontal' | 'sharpness';
+
+/**
+ * Scored face detection result of one frame
+ */
+export interface BestFrameMoment {
+  /** Frame time */
+  timestamp: number;
+  /** Faces detected in the frame */
+  faces: Face[];
+  /** Weighted mean of the available factor scores (0-1) */
+  score: number;
+  /** Factor scores (0-1); factors without data are missing */
+  factors: Partial<Record<BestFrameFactorName, number>>;
+}
+
+/**
+ * Best-frame picker configuration
+ */
+export interface BestFramePickerOptions {
+  /** Number of recent frames kept. Default: 90 */
+  bufferSize?: number;
+  /** Factor weights in the moment score. Default: eyesOpen 0.4, smiling 0.2, frontal 0.2, sharpness 0.2 */
+  weights?: Partial<Record<BestFrameFactorName, number>>;
+  /** Frames with fewer faces score 0. Default: 1 */
+  minFaces?: number;
+  /** Head angle in degrees at which the frontal score reaches 0. Default: 30 */
+  maxAngle?: number;
+  /** Face center movement between frames, relative to the face width, at which the sharpness score reaches 0. Default: 0.1 */
+  maxMotion?: number;
+}
+
+/**
+ * Photo kept by the best-frame picker
+ */
+export interface BestFrameCapture {
+  /** Photo or snapshot of the best captured moment */
+  photo: PhotoFile;
+  /** Moment the photo was taken at */
+  moment: BestFrameMoment;
+  /** Best moment seen in the capture window (may score higher than the photographed one) */
+  bestMoment: BestFrameMoment;
+  /** Number of photos taken during the window */
+  shotCount: number;
+}
+
+// ============================================================================
+// Liveness
+// ============================================================================
+
+/**
+ * Active liveness challenge the user has to perform
+ * - 'blink': Blink both eyes
+ * - 'turn-left': Turn the head to the left
+ * - 'turn-right': Turn the head to the right
+ * - 'nod': Tilt the head up or down and back
+ * - 'smile': Smile after a neutral expression
+ */
+export type LivenessChallengeType = 'blink' | 'turn-left' | 'turn-right' | 'nod' | 'smile';
+
+/**
+ * Why a liveness session failed
+ * - 'timeout': The current step was not completed in time
+ * - 'face-lost': No face was visible for too long
+ * - 'face-changed': A different face appeared mid-challenge
+ * - 'multiple-faces': More than one face was visible for too long
+ * - 'tracking-unavailable': Faces had no tracking ID (detection must run with `trackingEnabled`)
+ * - 'cancelled': The session was cancelled by the app
+ */
+export type LivenessFailureReason =
+  | 'timeout'
+  | 'face-lost'
+  | 'face-changed'
+  | 'multiple-faces'
+  | 'tracking-unavailable'
+  | 'cancelled';
+
+/**
+ * Face measurements recorded as evidence for a liveness step
+ */
+export interface LivenessEvidence {
+  /** Timestamp of the measurement */
+  timestamp: number;
+  /** Face tracking ID */
+  trackingId?: number;
+  /** Yaw angle in degrees */
+  yawAngle?: number;
+  /** Pitch angle in degrees */
+  pitchAngle?: number;
+  /** Smiling probability (0-1) */
+  smilingProbability?: number;
+  /** Left eye open probability (0-1) */
+  leftEyeOpenProbability?: number;
+  /** Right eye open probability (0-1) */
+  rightEyeOpenProbability?: number;
+}
+
+/**
+ * Result of a single liveness step
+ */
+export interface LivenessStepResult {
+  /** Challenge of this step */
+  challenge: LivenessChallengeType;
+  /** Step status */
+  status: 'pending' | 'active' | 'passed' | 'failed';
+  /** When the step became active */
+  startedAt?: number;
+  /** When the step passed or failed */
+  completedAt?: number;
+  /** Measurement in the neutral pose before the action (not used for blink) */
+  baseline?: LivenessEvidence;
+  /** Measurement that completed the action */
+  evidence?: LivenessEvidence;
+  /** Why the step failed */
+  failureReason?: LivenessFailureReason;
+}
+
+/**
+ * Final result of a liveness session
+ */
+export interface LivenessResult {
+  /** Whether every step passed */
+  passed: boolean;
+  /** Per-step results and evidence */
+  steps: LivenessStepResult[];
+  /** Why the session failed */
+  failureReason?: LivenessFailureReason;
+  /** Tracking ID of the face that performed the challenge */
+  trackingId?: number;
+  /** Session start timestamp */
+  startedAt: number;
+  /** Session end timestamp */
+  completedAt: number;
+}
+
+/**
+ * Liveness challenge configuration
+ */
+export interface LivenessChallengeOptions {
+  /** Challenges to perform, in order. Default: a random sequence of `challengeCount` */
+  challenges?: LivenessChallengeType[];
+  /** Number of random challenges when `challenges` is not set. Default: 3 */
+  challengeCount?: number;
+  /** Time allowed per step in milliseconds. Default: 5000 */
+  stepTimeoutMs?: number;
+  /** How long the face may be missing before the session fails. Default: 1000 */
+  faceLostToleranceMs?: number;
+  /** How long extra faces may be visible before the session fails. Default: 500 */
+  multipleFacesToleranceMs?: number;
+  /** Yaw (degrees) the head must reach for a turn. Default: 25 */
+  turnYawThreshold?: number;
+  /** Pitch change (degrees) the head must reach for a nod. Default: 15 */
+  nodPitchThreshold?: number;
+  /** Maximum yaw/pitch (degrees) that counts as facing the camera. Default: 10 */
+  neutralAngleThreshold?: number;
+  /** Smiling probability a smile must reach. Default: 0.7 */
+  smileThreshold?: number;
+  /** Smiling probability below which the expression counts as neutral. Default: 0.3 */
+  neutralSmileThreshold?: number;
+  /**
+   * Set when your pipeline reports positive yaw for a head turned to the user's right
+   * (ML Kit reports positive yaw for a turn to the user's left). Default: false
+   */
+  invertYaw?: boolean;
+  /**
+   * Maximum movement of the face center between frames, relative to the face width,
+   * before it counts as a different face. Default: 0.5
+   */
+  maxFaceJumpRatio?: number;
+}
+
+/**
+ * Signal contributing to the passive liveness score
+ * - 'landmarkMotion': Non-rigid micro-movement of landmarks relative to the face bounds
+ * - 'blink': Spontaneous blinks
+ * - 'poseJitter': Small natural variation of the head pose
+ */
+export type PassiveLivenessFactorName = 'landmarkMotion' | 'blink' | 'poseJitter';
+
+/**
+ * One contributing factor of the passive liveness score
+ */
+export interface PassiveLivenessFactor {
+  /** Factor name */
+  name: PassiveLivenessFactorName;
+  /** Factor score (0 = looks like a static image, 1 = looks live) */
+  score: number;
+  /** Weight of the factor in the overall score */
+  weight: number;
+  /** Raw measurement the score was derived from */
+  value: number;
+  /** Whether the face data needed for this factor was available */
+  available: boolean;
+}
+
+/**
+ * Passive liveness estimate over the analysis window
+ */
+export interface PassiveLivenessResult {
+  /** Overall liveness score (0-1) */
+  score: number;
+  /** Whether the score is above the live threshold (always false until reliable) */
+  isLive: boolean;
+  /** Whether enough of the window has been observed for the score to be meaningful */
+  isReliable: boolean;
+  /** Contributing factors */
+  factors: PassiveLivenessFactor[];
+  /** Number of samples in the window */
+  sampleCount: number;
+  /** Time span covered by the samples in milliseconds */
+  observedMs: number;
+  /** Tracking ID of the analysed face */
+  faceId?: number;
+}
+
+/**
+ * Passive liveness estimator configuration
+ */
+export interface PassiveLivenessOptions {
+  /** Analysis window in milliseconds. Default: 5000 */
+  windowMs?: number;
+  /** Minimum observed time before the result is reliable. Default: 3000 */
+  minObservationMs?: number;
+  /** Score at or above which the face counts as live. Default: 0.5 */
+  liveThreshold?: number;
+  /** Factor weights (renormalized over the available factors) */
+  weights?: Partial<Record<PassiveLivenessFactorName, number>>;
+  /**
+   * Landmark motion (mean standard deviation of landmark positions relative to the
+   * face bounds) below which the face counts as rigid. Default: 0.002
+   */
+  rigidLandmarkMotion?: number;
+  /** Landmark motion at which the landmark factor scores 1. Default: 0.01 */
+  liveLandmarkMotion?: number;
+  /** Number of blinks in the window for the blink factor to score 1. Default: 1 */
+  expectedBlinks?: number;
+  /** Pose standard deviation (degrees) below which the head counts as static. Default: 0.2 */
+  rigidPoseJitter?: number;
+  /** Pose standard deviation (degrees) at which the pose factor scores 1. Default: 1 */
+  livePoseJitter?: number;
+}
+
 // ============================================================================
 // Hook Return Types
 // ============================================================================
@@ -501,6 +1474,14 @@ export interface UseSmartCameraWebRTCResult {
   isStreaming: boolean;
 }
 
+/**
+ * Policy deciding when a new set of faces counts as a change
+ * - 'trackingId': Number of faces or their tracking IDs changed
+ * - 'bounds': Tracking IDs changed or any face moved/resized beyond the tolerance
+ * - 'always': Every processed frame is treated as a change
+ */
+export type FaceChangePolicy = 'trackingId' | 'bounds' | 'always';
+
 /**
  * Return type for useFaceDetection hook
  */
@@ -514,6 +1495,22 @@ export interface UseFaceDetectionResult {
    * Whether face detection is active/detecting
    */
   isDetecting: boolean;
+
+  /**
+   * Detect faces in a frame and feed them into `faces` (for use in frame processor)
+   */
+  processFrame: (frame: Frame) => Face[];
+
+  /**
+   * Feed faces detected elsewhere (e.g. by `useFaceDetector`) into `faces`
+   */
+  updateFaces: (faces: Face[]) => void;
+
+  /**
+   * Delivery counters of `processFrame` results (delivered, dropped while the JS
+   * thread was busy, unchanged)
+   */
+  getDeliveryStats: () => FaceDeliveryStats;
 }
 
 /**
@@ -540,6 +1537,58 @@ export interface EyeStatusResult {
   timestamp: number;
 }
 
+/**
+ * Driver fatigue level derived from eye closure statistics
+ * - 'alert': Normal blinking
+ * - 'drowsy': Elevated PERCLOS
+ * - 'asleep': Eyes held closed or very high PERCLOS
+ */
+export type FatigueLevel = 'alert' | 'drowsy' | 'asleep';
+
+/**
+ * Rolling eye closure statistics over the monitor window
+ */
+export interface FatigueMetrics {
+  /** Blinks per minute */
+  blinksPerMinute: number;
+  /** Mean blink duration in milliseconds (null until a blink was seen) */
+  meanBlinkDurationMs: number | null;
+  /** Mean time between the starts of consecutive blinks in milliseconds (null until two blinks were seen) */
+  meanInterBlinkIntervalMs: number | null;
+  /** Percentage of time the eyes were closed (0-1) */
+  perclos: number;
+  /** How long the eyes have currently been closed in milliseconds (0 when open) */
+  currentClosureMs: number;
+  /** Time span covered by the samples in the window in milliseconds */
+  observedMs: number;
+  /** Current fatigue level */
+  level: FatigueLevel;
+}
+
+/**
+ * Fatigue monitor configuration
+ */
+export interface FatigueMonitorOptions {
+  /** Sliding window length in milliseconds. Default: 60000 */
+  windowMs?: number;
+  /** Closures longer than this are not counted as blinks. Default: 500 */
+  maxBlinkDurationMs?: number;
+  /** Gaps between samples longer than this (e.g. face lost) are not counted. Default: 500 */
+  maxSampleGapMs?: number;
+  /** Minimum observed time before PERCLOS affects the level. Default: 10000 */
+  minObservationMs?: number;
+  /** PERCLOS at which the level becomes 'drowsy'. Default: 0.15 */
+  drowsyPerclosEnter?: number;
+  /** PERCLOS below which the level leaves 'drowsy'. Default: 0.1 */
+  drowsyPerclosExit?: number;
+  /** PERCLOS at which the level becomes 'asleep'. Default: 0.4 */
+  asleepPerclosEnter?: number;
+  /** PERCLOS below which the level leaves 'asleep' (once the eyes are open). Default: 0.3 */
+  asleepPerclosExit?: number;
+  /** Continuous closure at which the level becomes 'asleep'. Default: 2000 */
+  asleepClosureMs?: number;
+}
+
 /**
  * Return type for useBlinkDetection hook
  */
@@ -634,3 +1683,96 @@ export type Orientation = 'portrait' | 'portrait-upside-down' | 'landscape-left'
  * Camera output orientation
  */
 export type OutputOrientation = Orientation | 'device';
+
+// ============================================================================
+// Coordinate Mapping
+// ============================================================================
+
+/**
+ * How the camera preview fills its view (matches VisionCamera's `resizeMode`)
+ * - 'cover': Fill the view, cropping the frame
+ * - 'contain': Fit the frame inside the view, letterboxing it
+ */
+export type PreviewResizeMode = 'cover' | 'contain';
+
+/**
+ * Coordinate mapper configuration
+ */
+export interface CoordinateMapperOptions {
+  /** Frame size in pixels, as delivered to the frame processor */
+  frameSize: Size;
+  /** Size of the preview view in points */
+  viewSize: Size;
+  /** How the preview fills the view. Default: 'cover' */
+  resizeMode?: PreviewResizeMode;
+  /**
+   * Orientation of the frame relative to the view: 'portrait' means upright,
+   * 'landscape-right' means the frame has to be rotated 90° clockwise to be upright,
+   * 'portrait-upside-down' 180° and 'landscape-left' 90° counter-clockwise.
+   * Use 'portrait' when the detector already reports upright coordinates.
+   * Default: 'portrait'
+   */
+  orientation?: Orientation;
+  /** Whether the preview is mirrored (front camera). Default: false */
+  mirrored?: boolean;
+  /** Whether frame coordinates are normalized (0-1) instead of pixels. Default: false */
+  normalized?: boolean;
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Diagnostic severity
+ * - 'error': The value is invalid and will be ignored or fail at runtime
+ * - 'warning': The value works but probably not as intended
+ */
+export type ValidationSeverity = 'error' | 'warning';
+
+/**
+ * Diagnostic code
+ * - 'INVALID_TYPE': Value has the wrong type
+ * - 'INVALID_VALUE': Value is not one of the allowed values
+ * - 'OUT_OF_RANGE': Number outside its valid range
+ * - 'UNKNOWN_OPTION': Option is not known (usually a typo)
+ * - 'MISSING_WINDOW_SIZE': autoMode without windowWidth/windowHeight
+ * - 'WINDOW_SIZE_WITHOUT_AUTO_MODE': Window size is ignored without autoMode
+ * - 'INVALID_ICE_URL': ICE server URL is not a valid stun:, stuns:, turn: or turns: URI
+ * - 'MISSING_TURN_CREDENTIALS': TURN server without username or credential
+ * - 'UNUSED_CREDENTIALS': Credentials on a server without TURN URLs
+ * - 'NO_ICE_SERVERS': Without ICE servers only host candidates are gathered
+ * - 'RELAY_WITHOUT_TURN': iceTransportPolicy 'relay' without any TURN server
+ * - 'INVALID_CONSTRAINT_RANGE': min greater than max, or ideal outside min-max
+ * - 'NO_MEDIA_REQUESTED': Neither video nor audio is requested
+ * - Detection option warnings (see `DetectionOptionWarningCode`)
+ */
+export type ValidationCode =
+  | 'INVALID_TYPE'
+  | 'INVALID_VALUE'
+  | 'OUT_OF_RANGE'
+  | 'UNKNOWN_OPTION'
+  | 'MISSING_WINDOW_SIZE'
+  | 'WINDOW_SIZE_WITHOUT_AUTO_MODE'
+  | 'INVALID_ICE_URL'
+  | 'MISSING_TURN_CREDENTIALS'
+  | 'UNUSED_CREDENTIALS'
+  | 'NO_ICE_SERVERS'
+  | 'RELAY_WITHOUT_TURN'
+  | 'INVALID_CONSTRAINT_RANGE'
+  | 'NO_MEDIA_REQUESTED'
+  | DetectionOptionWarningCode;
+
+/**
+ * Validation result for one option
+ */
+export interface ValidationDiagnostic {
+  /** Diagnostic code */
+  code: ValidationCode;
+  /** Option path, e.g. `iceServers[1].urls[0]` */
+  path: string;
+  /** Severity */
+  severity: ValidationSeverity;
+  /** Human-readable description */
+  message: string;
+}
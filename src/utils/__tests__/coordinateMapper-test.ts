@@ -0,0 +1,169 @@
+import type { Bounds, Orientation, Point, PreviewResizeMode } from '../../types';
+import { createCoordinateMapper } from '../coordinateMapper';
+
+const FRAME_SIZE = { width: 640, height: 480 };
+const VIEW_SIZE = { width: 300, height: 500 };
+
+const ORIENTATIONS: Orientation[] = [
+  'portrait',
+  'landscape-left',
+  'landscape-right',
+  'portrait-upside-down',
+];
+const RESIZE_MODES: PreviewResizeMode[] = ['cover', 'contain'];
+
+/**
+ * View corner the top-left corner of the frame ends up in, before mirroring
+ */
+const TOP_LEFT_CORNER: Record<Orientation, { right: boolean; bottom: boolean }> = {
+  portrait: { right: false, bottom: false },
+  'landscape-right': { right: true, bottom: false },
+  'portrait-upside-down': { right: true, bottom: true },
+  'landscape-left': { right: false, bottom: true },
+};
+
+const CASES = ORIENTATIONS.flatMap((orientation) =>
+  RESIZE_MODES.flatMap((resizeMode) =>
+    [false, true].map((mirrored) => ({ orientation, resizeMode, mirrored }))
+  )
+);
+
+const FRAME_POINTS: Point[] = [
+  { x: 0, y: 0 },
+  { x: 640, y: 480 },
+  { x: 320, y: 240 },
+  { x: 100, y: 400 },
+  { x: 533.5, y: 17.25 },
+];
+
+const FRAME_BOUNDS: Bounds[] = [
+  { x: 100, y: 50, width: 200, height: 120 },
+  { x: 0, y: 0, width: 640, height: 480 },
+  { x: 420.5, y: 300, width: 64, height: 96.5 },
+];
+
+function expectPointClose(actual: Point, expected: Point): void {
+  expect(actual.x).toBeCloseTo(expected.x, 6);
+  expect(actual.y).toBeCloseTo(expected.y, 6);
+}
+
+function expectBoundsClose(actual: Bounds, expected: Bounds): void {
+  expect(actual.x).toBeCloseTo(expected.x, 6);
+  expect(actual.y).toBeCloseTo(expected.y, 6);
+  expect(actual.width).toBeCloseTo(expected.width, 6);
+  expect(actual.height).toBeCloseTo(expected.height, 6);
+}
+
+/**
+ * Rectangle of the view covered by the frame image
+ */
+function displayedRect(orientation: Orientation, resizeMode: PreviewResizeMode): Bounds {
+  const sideways = orientation === 'landscape-left' || orientation === 'landscape-right';
+  const uprightWidth = sideways ? FRAME_SIZE.height : FRAME_SIZE.width;
+  const uprightHeight = sideways ? FRAME_SIZE.width : FRAME_SIZE.height;
+  const scaleX = VIEW_SIZE.width / uprightWidth;
+  const scaleY = VIEW_SIZE.height / uprightHeight;
+  const scale = resizeMode === 'cover' ? Math.max(scaleX, scaleY) : Math.min(scaleX, scaleY);
+  const width = uprightWidth * scale;
+  const height = uprightHeight * scale;
+  return {
+    x: (VIEW_SIZE.width - width) / 2,
+    y: (VIEW_SIZE.height - height) / 2,
+    width,
+    height,
+  };
+}
+
+describe('createCoordinateMapper', () => {
+  describe.each(CASES)('$orientation, $resizeMode, mirrored: $mirrored', (config) => {
+    const mapper = createCoordinateMapper({
+      frameSize: FRAME_SIZE,
+      viewSize: VIEW_SIZE,
+      ...config,
+    });
+
+    it('round-trips frame points through pointToView and pointToFrame', () => {
+      FRAME_POINTS.forEach((point) => {
+        expectPointClose(mapper.pointToFrame(mapper.pointToView(point)), point);
+      });
+    });
+
+    it('round-trips view points through pointToFrame and pointToView', () => {
+      const viewPoints: Point[] = [
+        { x: 0, y: 0 },
+        { x: 150, y: 250 },
+        { x: 300, y: 500 },
+        { x: 42, y: 377.5 },
+      ];
+      viewPoints.forEach((point) => {
+        expectPointClose(mapper.pointToView(mapper.pointToFrame(point)), point);
+      });
+    });
+
+    it('maps the frame center to the view center', () => {
+      expectPointClose(mapper.pointToView({ x: 320, y: 240 }), {
+        x: 150,
+        y: 250,
+      });
+    });
+
+    it('maps the frame top-left corner to the rotated and mirrored view corner', () => {
+      const rect = displayedRect(config.orientation, config.resizeMode);
+      const corner = TOP_LEFT_CORNER[config.orientation];
+      const right = config.mirrored ? !corner.right : corner.right;
+      expectPointClose(mapper.pointToView({ x: 0, y: 0 }), {
+        x: right ? rect.x + rect.width : rect.x,
+        y: corner.bottom ? rect.y + rect.height : rect.y,
+      });
+    });
+
+    it('round-trips bounds through boundsToView and boundsToFrame', () => {
+      FRAME_BOUNDS.forEach((bounds) => {
+        expectBoundsClose(mapper.boundsToFrame(mapper.boundsToView(bounds)), bounds);
+      });
+    });
+
+    it('maps bounds to positive sizes, swapped for sideways frames', () => {
+      const rect = displayedRect(config.orientation, config.resizeMode);
+      const sideways =
+        config.orientation === 'landscape-left' || config.orientation === 'landscape-right';
+      const scale = rect.width / (sideways ? FRAME_SIZE.height : FRAME_SIZE.width);
+
+      FRAME_BOUNDS.forEach((bounds) => {
+        const view = mapper.boundsToView(bounds);
+        expect(view.width).toBeCloseTo((sideways ? bounds.height : bounds.width) * scale, 6);
+        expect(view.height).toBeCloseTo((sideways ? bounds.width : bounds.height) * scale, 6);
+      });
+    });
+
+    it('maps the whole frame to the displayed rectangle', () => {
+      expectBoundsClose(
+        mapper.boundsToView({ x: 0, y: 0, ...FRAME_SIZE }),
+        displayedRect(config.orientation, config.resizeMode)
+      );
+    });
+  });
+
+  it('round-trips normalized coordinates', () => {
+    const mapper = createCoordinateMapper({
+      frameSize: FRAME_SIZE,
+      viewSize: VIEW_SIZE,
+      orientation: 'landscape-right',
+      mirrored: true,
+      normalized: true,
+    });
+    const point = { x: 0.25, y: 0.8 };
+    const view = mapper.pointToView(point);
+
+    expectPointClose(mapper.pointToFrame(view), point);
+    expectPointClose(
+      createCoordinateMapper({
+        frameSize: FRAME_SIZE,
+        viewSize: VIEW_SIZE,
+        orientation: 'landscape-right',
+        mirrored: true,
+      }).pointToView({ x: 160, y: 384 }),
+      view
+    );
+  });
+});
@@ -0,0 +1,337 @@
+import type { Bounds, ExifOrientation, Face, Point } from '../../types';
+import { createExifOrientationTransform, readExifOrientation } from '../exifOrientation';
+
+// ============================================================================
+// Byte fixtures
+// ============================================================================
+
+function ascii(text: string): number[] {
+  return Array.from(text, (char) => char.charCodeAt(0));
+}
+
+function uint16(value: number, littleEndian = false): number[] {
+  const bytes = [(value >> 8) & 0xff, value & 0xff];
+  return littleEndian ? bytes.reverse() : bytes;
+}
+
+function uint32(value: number, littleEndian = false): number[] {
+  const bytes = [(value >>> 24) & 0xff, (value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+  return littleEndian ? bytes.reverse() : bytes;
+}
+
+/**
+ * TIFF structure with one IFD holding an image width tag followed by the orientation tag
+ */
+function tiff(orientation: number, littleEndian: boolean, type = 3): number[] {
+  const u16 = (value: number) => uint16(value, littleEndian);
+  const u32 = (value: number) => uint32(value, littleEndian);
+  return [
+    ...ascii(littleEndian ? 'II' : 'MM'),
+    ...u16(42),
+    ...u32(8),
+    // IFD0: ImageWidth, then Orientation
+    ...u16(2),
+    ...u16(0x0100),
+    ...u16(3),
+    ...u32(1),
+    ...u16(640),
+    ...u16(0),
+    ...u16(0x0112),
+    ...u16(type),
+    ...u32(1),
+    ...u16(orientation),
+    ...u16(0),
+    // No next IFD
+    ...u32(0),
+  ];
+}
+
+function jpegSegment(marker: number, payload: number[]): number[] {
+  return [0xff, marker, ...uint16(payload.length + 2), ...payload];
+}
+
+const JFIF_SEGMENT = jpegSegment(0xe0, [...ascii('JFIF'), 0, 1, 1, 0, 0, 1, 0, 1, 0, 0]);
+const SCAN = [0xff, 0xda, ...uint16(4), 0, 0, 0x12, 0x34, 0xff, 0xd9];
+
+function jpeg(segments: number[][]): Uint8Array {
+  return new Uint8Array([0xff, 0xd8, ...segments.flat(), ...SCAN]);
+}
+
+function exifSegment(orientation: number, littleEndian: boolean): number[] {
+  return jpegSegment(0xe1, [...ascii('Exif'), 0, 0, ...tiff(orientation, littleEndian)]);
+}
+
+function box(type: string, payload: number[]): number[] {
+  return [...uint32(payload.length + 8), ...ascii(type), ...payload];
+}
+
+function fullBox(type: string, version: number, payload: number[]): number[] {
+  return box(type, [version, 0, 0, 0, ...payload]);
+}
+
+function infe(itemId: number, itemType: string): number[] {
+  return fullBox('infe', 2, [...uint16(itemId), ...uint16(0), ...ascii(itemType), 0]);
+}
+
+/**
+ * HEIF file with an image item and an EXIF item stored in `mdat`
+ */
+function heif(orientation: number): Uint8Array {
+  const exifItem = [...uint32(0), ...tiff(orientation, false)];
+  const build = (exifOffset: number): number[] => {
+    const ftyp = box('ftyp', [...ascii('heic'), ...uint32(0), ...ascii('mif1'), ...ascii('heic')]);
+    const iinf = fullBox('iinf', 0, [...uint16(2), ...infe(1, 'hvc1'), ...infe(2, 'Exif')]);
+    const iloc = fullBox('iloc', 0, [
+      // offset_size 4, length_size 4, base_offset_size 0
+      0x44,
+      0x00,
+      ...uint16(2),
+      // Image item
+      ...uint16(1),
+      ...uint16(0),
+      ...uint16(1),
+      ...uint32(0),
+      ...uint32(0),
+      // EXIF item
+      ...uint16(2),
+      ...uint16(0),
+      ...uint16(1),
+      ...uint32(exifOffset),
+      ...uint32(exifItem.length),
+    ]);
+    const hdlr = fullBox('hdlr', 0, [...uint32(0), ...ascii('pict')]);
+    const meta = fullBox('meta', 0, [...hdlr, ...iinf, ...iloc]);
+    return [...ftyp, ...meta, ...box('mdat', exifItem)];
+  };
+
+  // The EXIF item starts after the mdat header, at the end of the file
+  const length = build(0).length;
+  return new Uint8Array(build(length - exifItem.length));
+}
+
+const ORIENTATIONS: ExifOrientation[] = [1, 2, 3, 4, 5, 6, 7, 8];
+
+describe('readExifOrientation', () => {
+  it.each(ORIENTATIONS)('reads orientation %d from a big-endian JPEG', (orientation) => {
+    expect(readExifOrientation(jpeg([exifSegment(orientation, false)]))).toBe(orientation);
+  });
+
+  it.each(ORIENTATIONS)('reads orientation %d from a little-endian JPEG', (orientation) => {
+    expect(readExifOrientation(jpeg([exifSegment(orientation, true)]))).toBe(orientation);
+  });
+
+  it('finds the EXIF segment after other segments', () => {
+    expect(readExifOrientation(jpeg([JFIF_SEGMENT, exifSegment(6, true)]))).toBe(6);
+  });
+
+  it('accepts an ArrayBuffer and a Uint8Array view into a larger buffer', () => {
+    const file = jpeg([exifSegment(8, false)]);
+    const buffer = new ArrayBuffer(file.length);
+    new Uint8Array(buffer).set(file);
+    expect(readExifOrientation(buffer)).toBe(8);
+
+    const padded = new Uint8Array(file.length + 16);
+    padded.set(file, 16);
+    expect(readExifOrientation(padded.subarray(16))).toBe(8);
+  });
+
+  it('returns null for a JPEG without APP1 segment', () => {
+    expect(readExifOrientation(jpeg([JFIF_SEGMENT]))).toBeNull();
+  });
+
+  it('returns null for an APP1 segment that is not EXIF', () => {
+    const xmp = jpegSegment(0xe1, [...ascii('http://ns.adobe.com/xap/1.0/'), 0]);
+    expect(readExifOrientation(jpeg([xmp]))).toBeNull();
+  });
+
+  it.each([
+    ['an orientation out of range', 9, 3],
+    ['an orientation of the wrong type', 6, 4],
+  ])('returns null for %s', (_name, orientation, type) => {
+    const segment = jpegSegment(0xe1, [...ascii('Exif'), 0, 0, ...tiff(orientation, false, type)]);
+    expect(readExifOrientation(jpeg([segment]))).toBeNull();
+  });
+
+  it('returns null for an invalid TIFF byte order', () => {
+    const data = jpeg([exifSegment(6, false)]);
+    // 'MM' -> 'XX'
+    const tiffStart = data.indexOf(0x4d);
+    data[tiffStart] = 0x58;
+    data[tiffStart + 1] = 0x58;
+    expect(readExifOrientation(data)).toBeNull();
+  });
+
+  it('returns null for truncated files', () => {
+    const data = jpeg([exifSegment(6, true)]);
+    [2, 6, 12, 20, 30].forEach((length) => {
+      expect(readExifOrientation(data.subarray(0, length))).toBeNull();
+    });
+    expect(readExifOrientation(new Uint8Array(0))).toBeNull();
+  });
+
+  it.each(ORIENTATIONS)('reads orientation %d from a HEIF file', (orientation) => {
+    expect(readExifOrientation(heif(orientation))).toBe(orientation);
+  });
+
+  it('returns null for a truncated HEIF file', () => {
+    const data = heif(6);
+    expect(readExifOrientation(data.subarray(0, data.length - 10))).toBeNull();
+  });
+
+  it('returns null for a HEIF file without EXIF item', () => {
+    const ftyp = box('ftyp', [...ascii('heic'), ...uint32(0)]);
+    const meta = fullBox('meta', 0, fullBox('iinf', 0, [...uint16(1), ...infe(1, 'hvc1')]));
+    expect(readExifOrientation(new Uint8Array([...ftyp, ...meta]))).toBeNull();
+  });
+
+  it('returns null for other formats', () => {
+    const png = new Uint8Array([0x89, ...ascii('PNG'), 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0]);
+    expect(readExifOrientation(png)).toBeNull();
+  });
+});
+
+// ============================================================================
+// Display transform
+// ============================================================================
+
+const IMAGE_SIZE = { width: 400, height: 300 };
+
+/**
+ * Display position of a stored pixel, from the EXIF definition of each orientation
+ */
+function expectedPoint(orientation: ExifOrientation, { x, y }: Point): Point {
+  const { width: w, height: h } = IMAGE_SIZE;
+  switch (orientation) {
+    case 1:
+      return { x, y };
+    case 2:
+      return { x: w - x, y };
+    case 3:
+      return { x: w - x, y: h - y };
+    case 4:
+      return { x, y: h - y };
+    case 5:
+      return { x: y, y: x };
+    case 6:
+      return { x: h - y, y: x };
+    case 7:
+      return { x: h - y, y: w - x };
+    case 8:
+      return { x: y, y: w - x };
+  }
+}
+
+function expectedBounds(orientation: ExifOrientation, bounds: Bounds): Bounds {
+  const a = expectedPoint(orientation, { x: bounds.x, y: bounds.y });
+  const b = expectedPoint(orientation, {
+    x: bounds.x + bounds.width,
+    y: bounds.y + bounds.height,
+  });
+  return {
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    width: Math.abs(a.x - b.x),
+    height: Math.abs(a.y - b.y),
+  };
+}
+
+/**
+ * Roll of 10 degrees (counter-clockwise) and yaw of 20 degrees as displayed
+ */
+const EXPECTED_ANGLES: Record<ExifOrientation, { roll: number; yaw: number }> = {
+  1: { roll: 10, yaw: 20 },
+  2: { roll: -10, yaw: -20 },
+  3: { roll: -170, yaw: 20 },
+  4: { roll: 170, yaw: -20 },
+  5: { roll: 80, yaw: -20 },
+  6: { roll: -80, yaw: 20 },
+  7: { roll: -100, yaw: -20 },
+  8: { roll: 100, yaw: 20 },
+};
+
+const FACE: Face = {
+  bounds: { x: 50, y: 40, width: 120, height: 150 },
+  rollAngle: 10,
+  pitchAngle: 5,
+  yawAngle: 20,
+  landmarks: { leftEye: { x: 80, y: 90 }, noseBase: { x: 110, y: 130 } },
+  contours: { face: [{ x: 50, y: 40 }, { x: 170, y: 190 }] },
+  trackingId: 7,
+};
+
+function expectPointClose(actual: Point | undefined, expected: Point): void {
+  expect(actual?.x).toBeCloseTo(expected.x, 6);
+  expect(actual?.y).toBeCloseTo(expected.y, 6);
+}
+
+function expectBoundsClose(actual: Bounds, expected: Bounds): void {
+  expect(actual.x).toBeCloseTo(expected.x, 6);
+  expect(actual.y).toBeCloseTo(expected.y, 6);
+  expect(actual.width).toBeCloseTo(expected.width, 6);
+  expect(actual.height).toBeCloseTo(expected.height, 6);
+}
+
+describe.each(ORIENTATIONS)('createExifOrientationTransform (orientation %d)', (orientation) => {
+  const transform = createExifOrientationTransform(orientation, IMAGE_SIZE);
+  const transposed = orientation >= 5;
+
+  it('swaps the display size for rotations by 90 degrees', () => {
+    expect(transform.displaySize).toEqual(
+      transposed ? { width: 300, height: 400 } : { width: 400, height: 300 }
+    );
+  });
+
+  it('maps points', () => {
+    [
+      { x: 0, y: 0 },
+      { x: 400, y: 300 },
+      { x: 100, y: 250 },
+    ].forEach((point) => {
+      expectPointClose(transform.pointToDisplay(point), expectedPoint(orientation, point));
+    });
+  });
+
+  it('maps bounds', () => {
+    expectBoundsClose(
+      transform.boundsToDisplay(FACE.bounds),
+      expectedBounds(orientation, FACE.bounds)
+    );
+  });
+
+  it('maps landmarks', () => {
+    const landmarks = transform.landmarksToDisplay(FACE.landmarks ?? {});
+    expectPointClose(landmarks.leftEye, expectedPoint(orientation, { x: 80, y: 90 }));
+    expectPointClose(landmarks.noseBase, expectedPoint(orientation, { x: 110, y: 130 }));
+  });
+
+  it('maps the roll angle', () => {
+    expect(transform.rollToDisplay(10)).toBeCloseTo(EXPECTED_ANGLES[orientation].roll, 6);
+  });
+
+  it('maps a whole face', () => {
+    const face = transform.faceToDisplay(FACE);
+
+    expectBoundsClose(face.bounds, expectedBounds(orientation, FACE.bounds));
+    expectPointClose(face.landmarks?.leftEye, expectedPoint(orientation, { x: 80, y: 90 }));
+    expectPointClose(face.contours?.face?.[1], expectedPoint(orientation, { x: 170, y: 190 }));
+    expect(face.rollAngle).toBeCloseTo(EXPECTED_ANGLES[orientation].roll, 6);
+    expect(face.yawAngle).toBe(EXPECTED_ANGLES[orientation].yaw);
+    expect(face.pitchAngle).toBe(5);
+    expect(face.trackingId).toBe(7);
+  });
+});
+
+describe('createExifOrientationTransform', () => {
+  it('wraps the roll angle to (-180, 180]', () => {
+    expect(createExifOrientationTransform(3, IMAGE_SIZE).rollToDisplay(0)).toBe(180);
+    expect(createExifOrientationTransform(6, IMAGE_SIZE).rollToDisplay(-120)).toBe(150);
+  });
+
+  it('leaves missing angles undefined', () => {
+    const face = createExifOrientationTransform(6, IMAGE_SIZE).faceToDisplay({
+      bounds: FACE.bounds,
+    });
+    expect(face.rollAngle).toBeUndefined();
+    expect(face.yawAngle).toBeUndefined();
+  });
+});
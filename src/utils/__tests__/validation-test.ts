@@ -0,0 +1,447 @@
+import type { DetectionOptionWarning, ValidationDiagnostic } from '../../types';
+import {
+  hasValidationErrors,
+  mergeResolverWarnings,
+  reportDiagnostics,
+  validateFrameProcessorOptions,
+  validateIceServer,
+  validateMediaConstraints,
+  validatePeerConnectionConfig,
+} from '../validation';
+
+type Expected = Pick<ValidationDiagnostic, 'code' | 'path' | 'severity'>;
+
+/**
+ * Diagnostics without their messages, for table comparisons
+ */
+function summarize(diagnostics: ValidationDiagnostic[]): Expected[] {
+  return diagnostics.map(({ code, path, severity }) => ({ code, path, severity }));
+}
+
+const TURN_SERVER = { urls: 'turn:turn.example.com:3478', username: 'user', credential: 'secret' };
+
+describe('validateFrameProcessorOptions', () => {
+  it.each<[string, unknown]>([
+    ['undefined', undefined],
+    ['empty options', {}],
+    [
+      'all detection options',
+      {
+        performanceMode: 'accurate',
+        landmarkMode: 'all',
+        contourMode: 'none',
+        classificationMode: 'all',
+        minFaceSize: 0.2,
+        trackingEnabled: true,
+        cameraFacing: 'back',
+      },
+    ],
+    ['autoMode with a window size', { autoMode: true, windowWidth: 390, windowHeight: 844 }],
+    ['minFaceSize bounds', { minFaceSize: 0 }],
+  ])('accepts %s', (_name, options) => {
+    expect(validateFrameProcessorOptions(options)).toEqual([]);
+  });
+
+  it.each<[string, unknown, Expected[]]>([
+    ['a non-object', 'fast', [{ code: 'INVALID_TYPE', path: '', severity: 'error' }]],
+    ['an array', [], [{ code: 'INVALID_TYPE', path: '', severity: 'error' }]],
+    [
+      'an unknown performanceMode',
+      { performanceMode: 'turbo' },
+      [{ code: 'INVALID_VALUE', path: 'performanceMode', severity: 'error' }],
+    ],
+    [
+      'an unknown landmarkMode',
+      { landmarkMode: 'some' },
+      [{ code: 'INVALID_VALUE', path: 'landmarkMode', severity: 'error' }],
+    ],
+    [
+      'an unknown contourMode',
+      { contourMode: true },
+      [{ code: 'INVALID_VALUE', path: 'contourMode', severity: 'error' }],
+    ],
+    [
+      'an unknown classificationMode',
+      { classificationMode: 'eyes' },
+      [{ code: 'INVALID_VALUE', path: 'classificationMode', severity: 'error' }],
+    ],
+    [
+      'a non-numeric minFaceSize',
+      { minFaceSize: '0.2' },
+      [{ code: 'INVALID_TYPE', path: 'minFaceSize', severity: 'error' }],
+    ],
+    [
+      'a NaN minFaceSize',
+      { minFaceSize: NaN },
+      [{ code: 'INVALID_TYPE', path: 'minFaceSize', severity: 'error' }],
+    ],
+    [
+      'a minFaceSize above 1',
+      { minFaceSize: 1.5 },
+      [{ code: 'OUT_OF_RANGE', path: 'minFaceSize', severity: 'error' }],
+    ],
+    [
+      'a negative minFaceSize',
+      { minFaceSize: -0.1 },
+      [{ code: 'OUT_OF_RANGE', path: 'minFaceSize', severity: 'error' }],
+    ],
+    [
+      'a non-boolean trackingEnabled',
+      { trackingEnabled: 'yes' },
+      [{ code: 'INVALID_TYPE', path: 'trackingEnabled', severity: 'error' }],
+    ],
+    [
+      'contours with tracking',
+      { contourMode: 'all', trackingEnabled: true },
+      [{ code: 'CONTOURS_WITH_TRACKING', path: 'trackingEnabled', severity: 'warning' }],
+    ],
+    [
+      'an unknown option',
+      { maxFaces: 3 },
+      [{ code: 'UNKNOWN_OPTION', path: 'maxFaces', severity: 'warning' }],
+    ],
+    [
+      'an unknown cameraFacing',
+      { cameraFacing: 'user' },
+      [{ code: 'INVALID_VALUE', path: 'cameraFacing', severity: 'error' }],
+    ],
+    [
+      'a non-boolean autoMode',
+      { autoMode: 1 },
+      [{ code: 'INVALID_TYPE', path: 'autoMode', severity: 'error' }],
+    ],
+    [
+      'autoMode without window size',
+      { autoMode: true },
+      [
+        { code: 'MISSING_WINDOW_SIZE', path: 'windowWidth', severity: 'warning' },
+        { code: 'MISSING_WINDOW_SIZE', path: 'windowHeight', severity: 'warning' },
+      ],
+    ],
+    [
+      'autoMode without windowHeight',
+      { autoMode: true, windowWidth: 390 },
+      [{ code: 'MISSING_WINDOW_SIZE', path: 'windowHeight', severity: 'warning' }],
+    ],
+    [
+      'a non-numeric windowWidth',
+      { autoMode: true, windowWidth: '390', windowHeight: 844 },
+      [{ code: 'INVALID_TYPE', path: 'windowWidth', severity: 'error' }],
+    ],
+    [
+      'a zero windowHeight',
+      { autoMode: true, windowWidth: 390, windowHeight: 0 },
+      [{ code: 'OUT_OF_RANGE', path: 'windowHeight', severity: 'error' }],
+    ],
+    [
+      'a window size without autoMode',
+      { windowWidth: 390, windowHeight: 844 },
+      [
+        { code: 'WINDOW_SIZE_WITHOUT_AUTO_MODE', path: 'windowWidth', severity: 'warning' },
+        { code: 'WINDOW_SIZE_WITHOUT_AUTO_MODE', path: 'windowHeight', severity: 'warning' },
+      ],
+    ],
+  ])('reports %s', (_name, options, expected) => {
+    expect(summarize(validateFrameProcessorOptions(options))).toEqual(expected);
+  });
+
+  it('names the allowed values of enum options', () => {
+    const [diagnostic] = validateFrameProcessorOptions({ performanceMode: 'turbo' });
+    expect(diagnostic.message).toBe('performanceMode must be one of "fast", "accurate"');
+  });
+});
+
+describe('validateIceServer', () => {
+  it.each<[string, unknown]>([
+    ['a STUN URL', { urls: 'stun:stun.l.google.com:19302' }],
+    ['a STUNS URL', { urls: 'stuns:stun.example.com' }],
+    ['an IPv6 host', { urls: 'stun:[2001:db8::1]:3478' }],
+    ['a TURN server with credentials', TURN_SERVER],
+    [
+      'a TURNS URL list with a transport',
+      {
+        urls: ['turns:turn.example.com:5349?transport=tcp', 'stun:turn.example.com'],
+        username: 'user',
+        credential: 'secret',
+      },
+    ],
+  ])('accepts %s', (_name, server) => {
+    expect(validateIceServer(server)).toEqual([]);
+  });
+
+  it.each<[string, unknown, Expected[]]>([
+    [
+      'a non-object',
+      'stun:stun.example.com',
+      [{ code: 'INVALID_TYPE', path: '', severity: 'error' }],
+    ],
+    ['missing urls', {}, [{ code: 'INVALID_TYPE', path: 'urls', severity: 'error' }]],
+    ['empty urls', { urls: [] }, [{ code: 'INVALID_VALUE', path: 'urls', severity: 'error' }]],
+    [
+      'an http URL',
+      { urls: 'https://stun.example.com' },
+      [{ code: 'INVALID_ICE_URL', path: 'urls', severity: 'error' }],
+    ],
+    [
+      'an invalid URL in a list',
+      { urls: ['stun:stun.example.com', 'stun:'] },
+      [{ code: 'INVALID_ICE_URL', path: 'urls[1]', severity: 'error' }],
+    ],
+    [
+      'a port out of range',
+      { urls: 'stun:stun.example.com:70000' },
+      [{ code: 'INVALID_ICE_URL', path: 'urls', severity: 'error' }],
+    ],
+    [
+      'an unknown transport',
+      { urls: 'stun:stun.example.com?transport=sctp' },
+      [{ code: 'INVALID_ICE_URL', path: 'urls', severity: 'error' }],
+    ],
+    [
+      'a TURN server without credentials',
+      { urls: 'turn:turn.example.com' },
+      [{ code: 'MISSING_TURN_CREDENTIALS', path: 'username', severity: 'error' }],
+    ],
+    [
+      'a TURN server without credential',
+      { urls: 'turn:turn.example.com', username: 'user' },
+      [{ code: 'MISSING_TURN_CREDENTIALS', path: 'credential', severity: 'error' }],
+    ],
+    [
+      'a non-string username',
+      { urls: 'turn:turn.example.com', username: 42, credential: 'secret' },
+      [{ code: 'INVALID_TYPE', path: 'username', severity: 'error' }],
+    ],
+    [
+      'credentials on a STUN server',
+      { urls: 'stun:stun.example.com', username: 'user', credential: 'secret' },
+      [{ code: 'UNUSED_CREDENTIALS', path: 'username', severity: 'warning' }],
+    ],
+  ])('reports %s', (_name, server, expected) => {
+    expect(summarize(validateIceServer(server))).toEqual(expected);
+  });
+
+  it('prefixes paths with the server path', () => {
+    expect(summarize(validateIceServer({ urls: ['stun:'] }, 'iceServers[2]'))).toEqual([
+      { code: 'INVALID_ICE_URL', path: 'iceServers[2].urls[0]', severity: 'error' },
+    ]);
+  });
+});
+
+describe('validatePeerConnectionConfig', () => {
+  it.each<[string, unknown]>([
+    ['undefined', undefined],
+    ['empty config', {}],
+    [
+      'a full config',
+      {
+        iceServers: [{ urls: 'stun:stun.example.com' }, TURN_SERVER],
+        iceTransportPolicy: 'relay',
+        bundlePolicy: 'max-bundle',
+        rtcpMuxPolicy: 'require',
+      },
+    ],
+  ])('accepts %s', (_name, config) => {
+    expect(validatePeerConnectionConfig(config)).toEqual([]);
+  });
+
+  it.each<[string, unknown, Expected[]]>([
+    ['a non-object', null, [{ code: 'INVALID_TYPE', path: '', severity: 'error' }]],
+    [
+      'an unknown option',
+      { iceCandidatePoolSize: 2 },
+      [{ code: 'UNKNOWN_OPTION', path: 'iceCandidatePoolSize', severity: 'warning' }],
+    ],
+    [
+      'non-array iceServers',
+      { iceServers: TURN_SERVER },
+      [{ code: 'INVALID_TYPE', path: 'iceServers', severity: 'error' }],
+    ],
+    [
+      'empty iceServers',
+      { iceServers: [] },
+      [{ code: 'NO_ICE_SERVERS', path: 'iceServers', severity: 'warning' }],
+    ],
+    [
+      'an invalid ICE server',
+      { iceServers: [{ urls: 'stun:stun.example.com' }, { urls: 'turn:turn.example.com' }] },
+      [{ code: 'MISSING_TURN_CREDENTIALS', path: 'iceServers[1].username', severity: 'error' }],
+    ],
+    [
+      'an unknown iceTransportPolicy',
+      { iceTransportPolicy: 'none' },
+      [{ code: 'INVALID_VALUE', path: 'iceTransportPolicy', severity: 'error' }],
+    ],
+    [
+      'an unknown bundlePolicy',
+      { bundlePolicy: 'min-bundle' },
+      [{ code: 'INVALID_VALUE', path: 'bundlePolicy', severity: 'error' }],
+    ],
+    [
+      'an unknown rtcpMuxPolicy',
+      { rtcpMuxPolicy: 'negotiate' },
+      [{ code: 'INVALID_VALUE', path: 'rtcpMuxPolicy', severity: 'error' }],
+    ],
+    [
+      'relay without a TURN server',
+      { iceServers: [{ urls: 'stun:stun.example.com' }], iceTransportPolicy: 'relay' },
+      [{ code: 'RELAY_WITHOUT_TURN', path: 'iceTransportPolicy', severity: 'error' }],
+    ],
+    [
+      'relay without iceServers',
+      { iceTransportPolicy: 'relay' },
+      [{ code: 'RELAY_WITHOUT_TURN', path: 'iceTransportPolicy', severity: 'error' }],
+    ],
+  ])('reports %s', (_name, config, expected) => {
+    expect(summarize(validatePeerConnectionConfig(config))).toEqual(expected);
+  });
+});
+
+describe('validateMediaConstraints', () => {
+  it.each<[string, unknown]>([
+    ['undefined', undefined],
+    ['video and audio flags', { video: true, audio: false }],
+    [
+      'full constraints',
+      {
+        video: {
+          width: { min: 640, ideal: 1280, max: 1920 },
+          height: 720,
+          frameRate: { ideal: 30 },
+          facingMode: 'user',
+        },
+        audio: { echoCancellation: true, noiseSuppression: false, autoGainControl: true },
+      },
+    ],
+  ])('accepts %s', (_name, constraints) => {
+    expect(validateMediaConstraints(constraints)).toEqual([]);
+  });
+
+  it.each<[string, unknown, Expected[]]>([
+    ['a non-object', true, [{ code: 'INVALID_TYPE', path: '', severity: 'error' }]],
+    [
+      'an unknown option',
+      { screen: true },
+      [{ code: 'UNKNOWN_OPTION', path: 'screen', severity: 'warning' }],
+    ],
+    [
+      'neither video nor audio',
+      { video: false, audio: false },
+      [{ code: 'NO_MEDIA_REQUESTED', path: '', severity: 'error' }],
+    ],
+    [
+      'an unknown video constraint',
+      { video: { aspectRatio: 1.5 } },
+      [{ code: 'UNKNOWN_OPTION', path: 'video.aspectRatio', severity: 'warning' }],
+    ],
+    [
+      'a zero width',
+      { video: { width: 0 } },
+      [{ code: 'OUT_OF_RANGE', path: 'video.width', severity: 'error' }],
+    ],
+    [
+      'a string height',
+      { video: { height: '720' } },
+      [{ code: 'INVALID_TYPE', path: 'video.height', severity: 'error' }],
+    ],
+    [
+      'an unknown range key',
+      { video: { frameRate: { exact: 30 } } },
+      [{ code: 'UNKNOWN_OPTION', path: 'video.frameRate.exact', severity: 'warning' }],
+    ],
+    [
+      'a negative range bound',
+      { video: { frameRate: { min: -1 } } },
+      [{ code: 'OUT_OF_RANGE', path: 'video.frameRate.min', severity: 'error' }],
+    ],
+    [
+      'min above max',
+      { video: { width: { min: 1280, max: 640 } } },
+      [{ code: 'INVALID_CONSTRAINT_RANGE', path: 'video.width', severity: 'error' }],
+    ],
+    [
+      'ideal outside of min-max',
+      { video: { height: { min: 480, ideal: 1080, max: 720 } } },
+      [{ code: 'INVALID_CONSTRAINT_RANGE', path: 'video.height.ideal', severity: 'warning' }],
+    ],
+    [
+      'an unknown facingMode',
+      { video: { facingMode: 'front' } },
+      [{ code: 'INVALID_VALUE', path: 'video.facingMode', severity: 'error' }],
+    ],
+    [
+      'invalid video',
+      { video: 'hd' },
+      [{ code: 'INVALID_TYPE', path: 'video', severity: 'error' }],
+    ],
+    [
+      'an unknown audio constraint',
+      { audio: { sampleRate: 48000 } },
+      [{ code: 'UNKNOWN_OPTION', path: 'audio.sampleRate', severity: 'warning' }],
+    ],
+    [
+      'a non-boolean audio flag',
+      { audio: { echoCancellation: 'on' } },
+      [{ code: 'INVALID_TYPE', path: 'audio.echoCancellation', severity: 'error' }],
+    ],
+    [
+      'invalid audio',
+      { audio: 1 },
+      [{ code: 'INVALID_TYPE', path: 'audio', severity: 'error' }],
+    ],
+  ])('reports %s', (_name, constraints, expected) => {
+    expect(summarize(validateMediaConstraints(constraints))).toEqual(expected);
+  });
+});
+
+describe('hasValidationErrors', () => {
+  it('is true only when a diagnostic is an error', () => {
+    const warning: ValidationDiagnostic = {
+      code: 'UNKNOWN_OPTION',
+      path: 'x',
+      severity: 'warning',
+      message: 'x is not a known option',
+    };
+    expect(hasValidationErrors([])).toBe(false);
+    expect(hasValidationErrors([warning])).toBe(false);
+    expect(hasValidationErrors([warning, { ...warning, severity: 'error' }])).toBe(true);
+  });
+});
+
+describe('mergeResolverWarnings', () => {
+  it('puts the resolver warnings first and drops diagnostics it already reported', () => {
+    const warnings: DetectionOptionWarning[] = [
+      { code: 'CONTOURS_WITH_TRACKING', path: 'trackingEnabled', message: 'resolver' },
+    ];
+    const diagnostics = validateFrameProcessorOptions({
+      contourMode: 'all',
+      trackingEnabled: true,
+      minFaceSize: 2,
+    });
+
+    expect(summarize(mergeResolverWarnings(warnings, diagnostics))).toEqual([
+      { code: 'CONTOURS_WITH_TRACKING', path: 'trackingEnabled', severity: 'warning' },
+      { code: 'OUT_OF_RANGE', path: 'minFaceSize', severity: 'error' },
+    ]);
+  });
+});
+
+describe('reportDiagnostics', () => {
+  it('logs errors with console.error and warnings with console.warn', () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    reportDiagnostics('useWebRTC config', [
+      { code: 'NO_ICE_SERVERS', path: 'iceServers', severity: 'warning', message: 'No servers' },
+      { code: 'INVALID_TYPE', path: '', severity: 'error', message: 'Bad config' },
+    ]);
+
+    expect(warn).toHaveBeenCalledWith(
+      '[SmartCamera] useWebRTC config: No servers (NO_ICE_SERVERS at iceServers)'
+    );
+    expect(error).toHaveBeenCalledWith('[SmartCamera] useWebRTC config: Bad config (INVALID_TYPE)');
+
+    error.mockRestore();
+    warn.mockRestore();
+  });
+});
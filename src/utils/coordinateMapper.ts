@@ -0,0 +1,235 @@
+import type {
+  Bounds,
+  ContourType,
+  CoordinateMapperOptions,
+  Face,
+  FaceContours,
+  FaceLandmarks,
+  Orientation,
+  Point,
+} from '../types';
+
+/**
+ * Clockwise rotation in degrees that makes a frame with the given orientation upright
+ */
+const ROTATION_DEGREES: Record<Orientation, 0 | 90 | 180 | 270> = {
+  portrait: 0,
+  'landscape-right': 90,
+  'portrait-upside-down': 180,
+  'landscape-left': 270,
+};
+
+/**
+ * Maps face geometry between frame and view coordinates
+ */
+export interface CoordinateMapper {
+  /** Map a frame point to view coordinates */
+  pointToView: (point: Point) => Point;
+  /** Map a view point to frame coordinates */
+  pointToFrame: (point: Point) => Point;
+  /** Map frame bounds to view coordinates */
+  boundsToView: (bounds: Bounds) => Bounds;
+  /** Map view bounds to frame coordinates */
+  boundsToFrame: (bounds: Bounds) => Bounds;
+  /** Map frame landmarks to view coordinates */
+  landmarksToView: (landmarks: FaceLandmarks) => FaceLandmarks;
+  /** Map view landmarks to frame coordinates */
+  landmarksToFrame: (landmarks: FaceLandmarks) => FaceLandmarks;
+  /** Map frame contours to view coordinates */
+  contoursToView: (contours: FaceContours) => FaceContours;
+  /** Map view contours to frame coordinates */
+  contoursToFrame: (contours: FaceContours) => FaceContours;
+  /** Map the bounds, landmarks and contours of a face to view coordinates (angles are unchanged) */
+  faceToView: (face: Face) => Face;
+  /** Whether a view point lies on the visible part of the frame */
+  isVisible: (point: Point) => boolean;
+}
+
+/**
+ * Creates a mapper between frame and preview view coordinates
+ *
+ * Replaces the naive `autoMode` scaling of the native plugins: it accounts for
+ * the frame orientation, front-camera mirroring, and the cropping (`'cover'`) or
+ * letterboxing (`'contain'`) of the preview when frame and view aspect ratios differ.
+ * Use it with `autoMode: false` results. All functions are worklets.
+ *
+ * @param options - Frame size, view size and preview configuration
+ * @returns Mapper for points, bounds, landmarks, contours and faces in both directions
+ *
+ * @example
+ * ```ts
+ * const mapper = createCoordinateMapper({
+ *   frameSize: { width: frame.width, height: frame.height },
+ *   viewSize: { width: layout.width, height: layout.height },
+ *   resizeMode: 'cover',
+ *   mirrored: device.position === 'front',
+ *   normalized: true,
+ * });
+ *
+ * const box = mapper.boundsToView(face.bounds);
+ * ```
+ */
+export function createCoordinateMapper(options: CoordinateMapperOptions): CoordinateMapper {
+  const {
+    frameSize,
+    viewSize,
+    resizeMode = 'cover',
+    orientation = 'portrait',
+    mirrored = false,
+    normalized = false,
+  } = options;
+
+  const rotation = ROTATION_DEGREES[orientation];
+  const frameWidth = frameSize.width;
+  const frameHeight = frameSize.height;
+
+  // Size of the frame once rotated upright
+  const uprightWidth = rotation === 90 || rotation === 270 ? frameHeight : frameWidth;
+  const uprightHeight = rotation === 90 || rotation === 270 ? frameWidth : frameHeight;
+
+  const scaleX = uprightWidth > 0 ? viewSize.width / uprightWidth : 1;
+  const scaleY = uprightHeight > 0 ? viewSize.height / uprightHeight : 1;
+  const scale = resizeMode === 'cover' ? Math.max(scaleX, scaleY) : Math.min(scaleX, scaleY);
+  const offsetX = (viewSize.width - uprightWidth * scale) / 2;
+  const offsetY = (viewSize.height - uprightHeight * scale) / 2;
+
+  const pointToView = (point: Point): Point => {
+    'worklet';
+    const x = normalized ? point.x * frameWidth : point.x;
+    const y = normalized ? point.y * frameHeight : point.y;
+
+    // Rotate upright
+    let u = x;
+    let v = y;
+    if (rotation === 90) {
+      u = frameHeight - y;
+      v = x;
+    } else if (rotation === 180) {
+      u = frameWidth - x;
+      v = frameHeight - y;
+    } else if (rotation === 270) {
+      u = y;
+      v = frameWidth - x;
+    }
+
+    if (mirrored) {
+      u = uprightWidth - u;
+    }
+
+    return { x: u * scale + offsetX, y: v * scale + offsetY };
+  };
+
+  const pointToFrame = (point: Point): Point => {
+    'worklet';
+    let u = (point.x - offsetX) / scale;
+    const v = (point.y - offsetY) / scale;
+
+    if (mirrored) {
+      u = uprightWidth - u;
+    }
+
+    // Undo the upright rotation
+    let x = u;
+    let y = v;
+    if (rotation === 90) {
+      x = v;
+      y = frameHeight - u;
+    } else if (rotation === 180) {
+      x = frameWidth - u;
+      y = frameHeight - v;
+    } else if (rotation === 270) {
+      x = frameWidth - v;
+      y = u;
+    }
+
+    return normalized
+      ? { x: frameWidth > 0 ? x / frameWidth : 0, y: frameHeight > 0 ? y / frameHeight : 0 }
+      : { x, y };
+  };
+
+  // Rotation and mirroring move the corners, so the result spans both mapped corners
+  const mapBounds = (bounds: Bounds, mapPoint: (point: Point) => Point): Bounds => {
+    'worklet';
+    const a = mapPoint({ x: bounds.x, y: bounds.y });
+    const b = mapPoint({ x: bounds.x + bounds.width, y: bounds.y + bounds.height });
+    return {
+      x: Math.min(a.x, b.x),
+      y: Math.min(a.y, b.y),
+      width: Math.abs(b.x - a.x),
+      height: Math.abs(b.y - a.y),
+    };
+  };
+
+  const mapLandmarks = (
+    landmarks: FaceLandmarks,
+    mapPoint: (point: Point) => Point
+  ): FaceLandmarks => {
+    'worklet';
+    const result: FaceLandmarks = {};
+    (Object.keys(landmarks) as (keyof FaceLandmarks)[]).forEach((name) => {
+      const point = landmarks[name];
+      if (point) {
+        result[name] = mapPoint(point);
+      }
+    });
+    return result;
+  };
+
+  const mapContours = (
+    contours: FaceContours,
+    mapPoint: (point: Point) => Point
+  ): FaceContours => {
+    'worklet';
+    const result: FaceContours = {};
+    (Object.keys(contours) as ContourType[]).forEach((name) => {
+      result[name] = (contours[name] ?? []).map((point) => mapPoint(point));
+    });
+    return result;
+  };
+
+  return {
+    pointToView,
+    pointToFrame,
+    boundsToView: (bounds) => {
+      'worklet';
+      return mapBounds(bounds, pointToView);
+    },
+    boundsToFrame: (bounds) => {
+      'worklet';
+      return mapBounds(bounds, pointToFrame);
+    },
+    landmarksToView: (landmarks) => {
+      'worklet';
+      return mapLandmarks(landmarks, pointToView);
+    },
+    landmarksToFrame: (landmarks) => {
+      'worklet';
+      return mapLandmarks(landmarks, pointToFrame);
+    },
+    contoursToView: (contours) => {
+      'worklet';
+      return mapContours(contours, pointToView);
+    },
+    contoursToFrame: (contours) => {
+      'worklet';
+      return mapContours(contours, pointToFrame);
+    },
+    faceToView: (face) => {
+      'worklet';
+      return {
+        ...face,
+        bounds: mapBounds(face.bounds, pointToView),
+        landmarks: face.landmarks ? mapLandmarks(face.landmarks, pointToView) : undefined,
+        contours: face.contours ? mapContours(face.contours, pointToView) : undefined,
+      };
+    },
+    isVisible: (point) => {
+      'worklet';
+      const left = Math.max(0, offsetX);
+      const top = Math.max(0, offsetY);
+      const right = Math.min(viewSize.width, viewSize.width - offsetX);
+      const bottom = Math.min(viewSize.height, viewSize.height - offsetY);
+      return point.x >= left && point.x <= right && point.y >= top && point.y <= bottom;
+    },
+  };
+}
@@ -0,0 +1,397 @@
+import { createCoordinateMapper } from './coordinateMapper';
+import type {
+  Bounds,
+  ExifOrientation,
+  Face,
+  FaceContours,
+  FaceLandmarks,
+  Orientation,
+  Point,
+  Size,
+} from '../types';
+
+const ORIENTATION_TAG = 0x0112;
+const TIFF_SHORT = 3;
+
+/**
+ * Display transform of each EXIF orientation: clockwise rotation, then horizontal mirroring
+ */
+const EXIF_TRANSFORMS: Record<ExifOrientation, { rotation: 0 | 90 | 180 | 270; mirrored: boolean }> = {
+  1: { rotation: 0, mirrored: false },
+  2: { rotation: 0, mirrored: true },
+  3: { rotation: 180, mirrored: false },
+  4: { rotation: 180, mirrored: true },
+  5: { rotation: 90, mirrored: true },
+  6: { rotation: 90, mirrored: false },
+  7: { rotation: 270, mirrored: true },
+  8: { rotation: 270, mirrored: false },
+};
+
+/**
+ * Frame orientation with the same clockwise rotation (see `CoordinateMapperOptions.orientation`)
+ */
+const ROTATION_ORIENTATIONS: Record<0 | 90 | 180 | 270, Orientation> = {
+  0: 'portrait',
+  90: 'landscape-right',
+  180: 'portrait-upside-down',
+  270: 'landscape-left',
+};
+
+function isExifOrientation(value: number): value is ExifOrientation {
+  return Number.isInteger(value) && value >= 1 && value <= 8;
+}
+
+function readFourCC(view: DataView, offset: number): string {
+  return String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  );
+}
+
+/**
+ * Read a big-endian unsigned integer of 0, 4 or 8 bytes (ISO BMFF field sizes)
+ */
+function readUint(view: DataView, offset: number, size: number): number {
+  if (size === 0) {
+    return 0;
+  }
+  if (size === 4) {
+    return view.getUint32(offset);
+  }
+  if (size === 8) {
+    return view.getUint32(offset) * 2 ** 32 + view.getUint32(offset + 4);
+  }
+  throw new RangeError(`Unsupported field size ${size}`);
+}
+
+/**
+ * Read the orientation tag from IFD0 of a TIFF structure (the payload of EXIF)
+ */
+function readTiffOrientation(view: DataView, start: number, end: number): ExifOrientation | null {
+  const limit = Math.min(end, view.byteLength);
+  if (start + 8 > limit) {
+    return null;
+  }
+
+  const byteOrder = view.getUint16(start);
+  if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) {
+    return null;
+  }
+  const littleEndian = byteOrder === 0x4949;
+  if (view.getUint16(start + 2, littleEndian) !== 42) {
+    return null;
+  }
+
+  const ifd = start + view.getUint32(start + 4, littleEndian);
+  if (ifd + 2 > limit) {
+    return null;
+  }
+  const entryCount = view.getUint16(ifd, littleEndian);
+  for (let index = 0; index < entryCount; index++) {
+    const entry = ifd + 2 + index * 12;
+    if (entry + 12 > limit) {
+      return null;
+    }
+    if (view.getUint16(entry, littleEndian) === ORIENTATION_TAG) {
+      if (view.getUint16(entry + 2, littleEndian) !== TIFF_SHORT) {
+        return null;
+      }
+      const value = view.getUint16(entry + 8, littleEndian);
+      return isExifOrientation(value) ? value : null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Find the APP1 EXIF segment of a JPEG and read its orientation
+ */
+function readJpegOrientation(view: DataView): ExifOrientation | null {
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    if (view.getUint8(offset) !== 0xff) {
+      return null;
+    }
+    const marker = view.getUint8(offset + 1);
+    if (marker === 0xff) {
+      // Fill byte
+      offset += 1;
+      continue;
+    }
+    if (marker === 0xda || marker === 0xd9) {
+      // Scan data or end of image: no metadata follows
+      return null;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      // Markers without a length
+      offset += 2;
+      continue;
+    }
+
+    const length = view.getUint16(offset + 2);
+    if (marker === 0xe1 && offset + 10 <= view.byteLength && readFourCC(view, offset + 4) === 'Exif') {
+      return readTiffOrientation(view, offset + 10, offset + 2 + length);
+    }
+    offset += 2 + length;
+  }
+  return null;
+}
+
+/**
+ * Find a child box in an ISO BMFF box range
+ */
+function findBox(
+  view: DataView,
+  start: number,
+  end: number,
+  type: string
+): { start: number; end: number } | null {
+  let offset = start;
+  const limit = Math.min(end, view.byteLength);
+  while (offset + 8 <= limit) {
+    let size = view.getUint32(offset);
+    let headerSize = 8;
+    if (size === 1) {
+      size = readUint(view, offset + 8, 8);
+      headerSize = 16;
+    } else if (size === 0) {
+      size = limit - offset;
+    }
+    if (size < headerSize) {
+      return null;
+    }
+    if (readFourCC(view, offset + 4) === type) {
+      return { start: offset + headerSize, end: Math.min(offset + size, limit) };
+    }
+    offset += size;
+  }
+  return null;
+}
+
+/**
+ * Item ID of the EXIF item in an `iinf` box
+ */
+function findExifItemId(view: DataView, iinf: { start: number; end: number }): number | null {
+  const version = view.getUint8(iinf.start);
+  let offset = iinf.start + 4 + (version === 0 ? 2 : 4);
+
+  while (offset < iinf.end) {
+    const infe = findBox(view, offset, iinf.end, 'infe');
+    if (!infe) {
+      return null;
+    }
+    const infeVersion = view.getUint8(infe.start);
+    if (infeVersion >= 2) {
+      const idSize = infeVersion === 2 ? 2 : 4;
+      const itemId =
+        idSize === 2 ? view.getUint16(infe.start + 4) : view.getUint32(infe.start + 4);
+      // Skip the item protection index
+      if (readFourCC(view, infe.start + 4 + idSize + 2) === 'Exif') {
+        return itemId;
+      }
+    }
+    offset = infe.end;
+  }
+  return null;
+}
+
+/**
+ * File location of an item in an `iloc` box
+ */
+function findItemLocation(
+  view: DataView,
+  iloc: { start: number; end: number },
+  itemId: number
+): { offset: number; length: number } | null {
+  const version = view.getUint8(iloc.start);
+  let offset = iloc.start + 4;
+  const sizes = view.getUint8(offset);
+  const moreSizes = view.getUint8(offset + 1);
+  const offsetSize = sizes >> 4;
+  const lengthSize = sizes & 0x0f;
+  const baseOffsetSize = moreSizes >> 4;
+  const indexSize = version === 1 || version === 2 ? moreSizes & 0x0f : 0;
+  offset += 2;
+
+  const itemCount = version < 2 ? view.getUint16(offset) : view.getUint32(offset);
+  offset += version < 2 ? 2 : 4;
+
+  for (let item = 0; item < itemCount && offset < iloc.end; item++) {
+    const id = version < 2 ? view.getUint16(offset) : view.getUint32(offset);
+    offset += version < 2 ? 2 : 4;
+
+    let constructionMethod = 0;
+    if (version === 1 || version === 2) {
+      constructionMethod = view.getUint16(offset) & 0x0f;
+      offset += 2;
+    }
+    // Data reference index
+    offset += 2;
+    const baseOffset = readUint(view, offset, baseOffsetSize);
+    offset += baseOffsetSize;
+    const extentCount = view.getUint16(offset);
+    offset += 2;
+
+    let location: { offset: number; length: number } | null = null;
+    for (let extent = 0; extent < extentCount; extent++) {
+      offset += indexSize;
+      const extentOffset = readUint(view, offset, offsetSize);
+      offset += offsetSize;
+      const extentLength = readUint(view, offset, lengthSize);
+      offset += lengthSize;
+      if (extent === 0) {
+        location = { offset: baseOffset + extentOffset, length: extentLength };
+      }
+    }
+
+    if (id === itemId) {
+      // Only items stored in the file itself (construction method 0) are supported
+      return constructionMethod === 0 ? location : null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Find the EXIF item of a HEIF/HEIC file and read its orientation
+ */
+function readHeifOrientation(view: DataView): ExifOrientation | null {
+  const meta = findBox(view, 0, view.byteLength, 'meta');
+  if (!meta) {
+    return null;
+  }
+  // meta is a full box: skip version and flags
+  const iinf = findBox(view, meta.start + 4, meta.end, 'iinf');
+  const iloc = findBox(view, meta.start + 4, meta.end, 'iloc');
+  if (!iinf || !iloc) {
+    return null;
+  }
+
+  const exifItemId = findExifItemId(view, iinf);
+  const location = exifItemId !== null ? findItemLocation(view, iloc, exifItemId) : null;
+  if (!location || location.offset + 4 > view.byteLength) {
+    return null;
+  }
+
+  // The EXIF item starts with the offset of the TIFF header
+  const tiffStart = location.offset + 4 + view.getUint32(location.offset);
+  return readTiffOrientation(view, tiffStart, location.offset + location.length);
+}
+
+/**
+ * Read the EXIF orientation from JPEG or HEIF/HEIC image data
+ *
+ * Only the file header is parsed; no image data is decoded. For HEIC files the
+ * EXIF item may be stored after the image data, so pass the complete file.
+ *
+ * @param data - Image file contents
+ * @returns Orientation, or null for other formats and images without (valid) EXIF orientation
+ *
+ * @example
+ * ```ts
+ * // bytes: the file contents, e.g. read by a custom static face detector backend
+ * const orientation = readExifOrientation(bytes) ?? 1;
+ * ```
+ */
+export function readExifOrientation(data: ArrayBuffer | Uint8Array): ExifOrientation | null {
+  const view =
+    data instanceof Uint8Array
+      ? new DataView(data.buffer, data.byteOffset, data.byteLength)
+      : new DataView(data);
+
+  try {
+    if (view.byteLength >= 4 && view.getUint16(0) === 0xffd8) {
+      return readJpegOrientation(view);
+    }
+    if (view.byteLength >= 12 && readFourCC(view, 4) === 'ftyp') {
+      return readHeifOrientation(view);
+    }
+  } catch {
+    // Truncated or malformed headers
+  }
+  return null;
+}
+
+/**
+ * Maps face geometry from stored (sensor) to display coordinates of an image
+ */
+export interface ExifOrientationTransform {
+  /** Size of the image as displayed */
+  displaySize: Size;
+  /** Map a stored point to display coordinates */
+  pointToDisplay: (point: Point) => Point;
+  /** Map stored bounds to display coordinates */
+  boundsToDisplay: (bounds: Bounds) => Bounds;
+  /** Map stored landmarks to display coordinates */
+  landmarksToDisplay: (landmarks: FaceLandmarks) => FaceLandmarks;
+  /** Map stored contours to display coordinates */
+  contoursToDisplay: (contours: FaceContours) => FaceContours;
+  /** Map a roll angle (degrees, counter-clockwise) to display orientation */
+  rollToDisplay: (rollAngle: number) => number;
+  /** Map the bounds, landmarks, contours, roll and (when mirrored) yaw of a face */
+  faceToDisplay: (face: Face) => Face;
+}
+
+/**
+ * Creates a transform from stored pixel coordinates to display coordinates
+ *
+ * Face detectors see the pixels as stored in the file, while image views apply the
+ * EXIF orientation. The transform rotates and mirrors geometry accordingly; the
+ * roll angle turns with the image and mirroring inverts roll and yaw.
+ *
+ * @param orientation - EXIF orientation of the image
+ * @param imageSize - Size of the stored image in pixels
+ * @returns Transform for points, bounds, landmarks, contours, angles and faces
+ *
+ * @example
+ * ```ts
+ * const transform = createExifOrientationTransform(6, { width: 4032, height: 3024 });
+ * transform.displaySize; // { width: 3024, height: 4032 }
+ * const upright = faces.map(transform.faceToDisplay);
+ * ```
+ */
+export function createExifOrientationTransform(
+  orientation: ExifOrientation,
+  imageSize: Size
+): ExifOrientationTransform {
+  const { rotation, mirrored } = EXIF_TRANSFORMS[orientation] ?? EXIF_TRANSFORMS[1];
+  const transposed = rotation === 90 || rotation === 270;
+  const displaySize: Size = transposed
+    ? { width: imageSize.height, height: imageSize.width }
+    : { width: imageSize.width, height: imageSize.height };
+
+  // Same rotation and mirroring as a camera frame shown in a view of the display size
+  const mapper = createCoordinateMapper({
+    frameSize: imageSize,
+    viewSize: displaySize,
+    orientation: ROTATION_ORIENTATIONS[rotation],
+    mirrored,
+  });
+
+  const rollToDisplay = (rollAngle: number): number => {
+    const rotated = rollAngle - rotation;
+    const angle = mirrored ? -rotated : rotated;
+    // Wrap to (-180, 180]
+    const wrapped = ((((angle + 180) % 360) + 360) % 360) - 180;
+    return wrapped === -180 ? 180 : wrapped;
+  };
+
+  return {
+    displaySize,
+    pointToDisplay: mapper.pointToView,
+    boundsToDisplay: mapper.boundsToView,
+    landmarksToDisplay: mapper.landmarksToView,
+    contoursToDisplay: mapper.contoursToView,
+    rollToDisplay,
+    faceToDisplay: (face) => {
+      const mapped = mapper.faceToView(face);
+      return {
+        ...mapped,
+        rollAngle: face.rollAngle !== undefined ? rollToDisplay(face.rollAngle) : undefined,
+        yawAngle: mirrored && face.yawAngle !== undefined ? -face.yawAngle : face.yawAngle,
+      };
+    },
+  };
+}
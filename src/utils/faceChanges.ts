@@ -0,0 +1,50 @@
+import type { Face, FaceChangePolicy } from '../types';
+
+/**
+ * Check whether the bounds of two faces differ by more than the tolerance
+ */
+function boundsMoved(prev: Face, next: Face, tolerance: number): boolean {
+  'worklet';
+  const toleranceX = prev.bounds.width * tolerance;
+  const toleranceY = prev.bounds.height * tolerance;
+
+  return (
+    Math.abs(next.bounds.x - prev.bounds.x) > toleranceX ||
+    Math.abs(next.bounds.y - prev.bounds.y) > toleranceY ||
+    Math.abs(next.bounds.width - prev.bounds.width) > toleranceX ||
+    Math.abs(next.bounds.height - prev.bounds.height) > toleranceY
+  );
+}
+
+/**
+ * Decide whether the detected faces changed according to the policy
+ *
+ * @param prev - Previous faces
+ * @param next - New faces
+ * @param policy - When a new set of faces counts as a change
+ * @param tolerance - Movement/resize tolerance for the 'bounds' policy, relative to the face size
+ */
+export function haveFacesChanged(
+  prev: Face[],
+  next: Face[],
+  policy: FaceChangePolicy,
+  tolerance: number
+): boolean {
+  'worklet';
+  if (policy === 'always') {
+    return true;
+  }
+
+  if (
+    next.length !== prev.length ||
+    next.some((face, i) => face.trackingId !== prev[i]?.trackingId)
+  ) {
+    return true;
+  }
+
+  if (policy === 'bounds') {
+    return next.some((face, i) => boundsMoved(prev[i], face, tolerance));
+  }
+
+  return false;
+}
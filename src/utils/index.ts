@@ -2,45 +2,60 @@
  * SmartCamera utility functions
  */
 
+import type { SmartCameraError, SmartCameraErrorCode } from '../types';
+import { validateFaceDetectionFields } from './validation';
+
 // ============================================================================
 // FPS Limiter
 // ============================================================================
 
+/**
+ * Frame interval in milliseconds for a target FPS (non-positive FPS never processes)
+ */
+function frameIntervalFor(fps: number): number {
+  'worklet';
+  return fps > 0 ? 1000 / fps : Infinity;
+}
+
 /**
  * Creates an FPS limiter for frame processing
  * 
+ * All functions are worklets, so the limiter can be used inside frame processors.
+ * For a rate that follows detection cost and scene motion, see `createDetectionScheduler`.
+ * 
  * @param targetFps - Target frames per second
- * @returns Object with shouldProcess function
+ * @returns Object with shouldProcess, reset and setTargetFps functions
  * 
  * @example
  * ```ts
  * const limiter = createFpsLimiter(15);
  * 
  * const frameProcessor = useFrameProcessor((frame) => {
+ *   'worklet';
  *   if (!limiter.shouldProcess()) return;
  *   // Process frame...
- * }, []);
+ * }, [limiter]);
  * ```
  */
 export function createFpsLimiter(targetFps: number) {
-  const frameInterval = 1000 / targetFps;
-  let lastFrameTime = 0;
+  const state = { frameInterval: frameIntervalFor(targetFps), lastFrameTime: 0 };
 
   return {
-    shouldProcess: (): boolean => {
-      const now = Date.now();
-      if (now - lastFrameTime >= frameInterval) {
-        lastFrameTime = now;
+    shouldProcess: (now: number = Date.now()): boolean => {
+      'worklet';
+      if (now - state.lastFrameTime >= state.frameInterval) {
+        state.lastFrameTime = now;
         return true;
       }
       return false;
     },
     reset: () => {
-      lastFrameTime = 0;
+      'worklet';
+      state.lastFrameTime = 0;
     },
     setTargetFps: (fps: number) => {
-      // Note: This creates a new interval but doesn't update the closure
-      // Consider using a ref if dynamic FPS changes are needed
+      'worklet';
+      state.frameInterval = frameIntervalFor(fps);
     },
   };
 }
@@ -99,6 +114,80 @@ export function throttle<T extends (...args: unknown[]) => unknown>(
   };
 }
 
+// ============================================================================
+// Option Defaults
+// ============================================================================
+
+/**
+ * Merges options over defaults, ignoring options that are explicitly `undefined`
+ * (hooks forward optional values unchanged, which would otherwise erase defaults)
+ *
+ * @param defaults - Default values
+ * @param options - Options to apply
+ * @returns Defaults with all defined options applied
+ */
+export function withDefaults<T extends object>(defaults: T, options?: Partial<T>): T {
+  'worklet';
+  const result = { ...defaults };
+  if (options) {
+    (Object.keys(options) as (keyof T)[]).forEach((key) => {
+      const value = options[key];
+      if (value !== undefined) {
+        result[key] = value as T[keyof T];
+      }
+    });
+  }
+  return result;
+}
+
+// ============================================================================
+// Ring Buffer
+// ============================================================================
+
+/**
+ * Creates a fixed-capacity buffer that overwrites its oldest entry when full
+ *
+ * @param capacity - Maximum number of entries
+ */
+export function createRingBuffer<T>(capacity: number) {
+  const size = Math.max(1, Math.floor(capacity));
+  const items: (T | undefined)[] = new Array(size);
+  let start = 0;
+  let count = 0;
+
+  return {
+    push: (item: T): void => {
+      items[(start + count) % size] = item;
+      if (count < size) {
+        count++;
+      } else {
+        start = (start + 1) % size;
+      }
+    },
+
+    /** Entries from oldest to newest */
+    toArray: (): T[] => {
+      const result: T[] = [];
+      for (let i = 0; i < count; i++) {
+        result.push(items[(start + i) % size] as T);
+      }
+      return result;
+    },
+
+    last: (): T | undefined => {
+      return count > 0 ? items[(start + count - 1) % size] : undefined;
+    },
+
+    size: (): number => count,
+
+    clear: (): void => {
+      items.fill(undefined);
+      start = 0;
+      count = 0;
+    },
+  };
+}
+
 // ============================================================================
 // Memory Pool for Face Objects
 // ============================================================================
@@ -170,8 +259,6 @@ export function createObjectPool<T>(
 // Error Utilities
 // ============================================================================
 
-import type { SmartCameraError, SmartCameraErrorCode } from '../types';
-
 /**
  * Creates a SmartCameraError from an unknown error
  * 
@@ -234,54 +321,14 @@ export async function safeExecute<T>(
 
 /**
  * Validates face detection options
+ *
+ * @deprecated Use `validateFrameProcessorOptions`, which returns structured
+ *   diagnostics with code, path and severity
  */
 export function validateFaceDetectionOptions(options: Record<string, unknown>): string[] {
-  const errors: string[] = [];
-
-  if (options.minFaceSize !== undefined) {
-    const minFaceSize = options.minFaceSize as number;
-    if (typeof minFaceSize !== 'number' || minFaceSize < 0 || minFaceSize > 1) {
-      errors.push('minFaceSize must be a number between 0 and 1');
-    }
-  }
-
-  if (options.performanceMode !== undefined) {
-    const mode = options.performanceMode as string;
-    if (mode !== 'fast' && mode !== 'accurate') {
-      errors.push('performanceMode must be "fast" or "accurate"');
-    }
-  }
-
-  if (options.landmarkMode !== undefined) {
-    const mode = options.landmarkMode as string;
-    if (mode !== 'none' && mode !== 'all') {
-      errors.push('landmarkMode must be "none" or "all"');
-    }
-  }
-
-  if (options.contourMode !== undefined) {
-    const mode = options.contourMode as string;
-    if (mode !== 'none' && mode !== 'all') {
-      errors.push('contourMode must be "none" or "all"');
-    }
-  }
-
-  if (options.classificationMode !== undefined) {
-    const mode = options.classificationMode as string;
-    if (mode !== 'none' && mode !== 'all') {
-      errors.push('classificationMode must be "none" or "all"');
-    }
-  }
-
-  // Warn about contourMode + trackingEnabled combination
-  if (options.contourMode === 'all' && options.trackingEnabled === true) {
-    errors.push(
-      'Warning: Using contourMode="all" with trackingEnabled=true is not recommended. ' +
-      'Contour detection only works on the most prominent face, making tracking less useful.'
-    );
-  }
-
-  return errors;
+  return validateFaceDetectionFields(options).map((diagnostic) =>
+    diagnostic.severity === 'warning' ? `Warning: ${diagnostic.message}` : diagnostic.message
+  );
 }
 
 // ============================================================================
@@ -294,24 +341,40 @@ interface PerformanceMetrics {
   minProcessingTime: number;
   maxProcessingTime: number;
   droppedFrames: number;
+  /** Frames skipped on purpose (e.g. by a detection scheduler); not counted as dropped */
+  skippedFrames: number;
+  /** Current target FPS */
+  targetFps: number;
 }
 
 /**
  * Creates a performance monitor for frame processing
+ * 
+ * Frames arriving later than twice the target frame time count as dropped, unless
+ * they were reported with `skipFrame`. All functions are worklets.
+ * 
+ * @param windowSize - Number of processing times kept for the metrics
+ * @param targetFps - Expected processing rate; update it with `setTargetFps` when it changes
  */
-export function createPerformanceMonitor(windowSize: number = 30) {
+export function createPerformanceMonitor(windowSize: number = 30, targetFps: number = 30) {
   const processingTimes: number[] = [];
-  let frameCount = 0;
-  let droppedFrames = 0;
-  let lastFrameTime = 0;
-  const targetFrameTime = 1000 / 30; // 30 FPS target
+  const state = {
+    frameCount: 0,
+    droppedFrames: 0,
+    skippedFrames: 0,
+    lastFrameTime: 0,
+    targetFps,
+    targetFrameTime: frameIntervalFor(targetFps),
+  };
 
   return {
     startFrame: (): number => {
+      'worklet';
       return Date.now();
     },
 
     endFrame: (startTime: number): void => {
+      'worklet';
       const processingTime = Date.now() - startTime;
       processingTimes.push(processingTime);
       
@@ -320,36 +383,65 @@ export function createPerformanceMonitor(windowSize: number = 30) {
         processingTimes.shift();
       }
 
-      frameCount++;
+      state.frameCount++;
 
       // Check for dropped frames
       const now = Date.now();
-      if (lastFrameTime > 0) {
-        const frameGap = now - lastFrameTime;
-        if (frameGap > targetFrameTime * 2) {
-          droppedFrames += Math.floor(frameGap / targetFrameTime) - 1;
+      if (state.lastFrameTime > 0) {
+        const frameGap = now - state.lastFrameTime;
+        if (frameGap > state.targetFrameTime * 2) {
+          state.droppedFrames += Math.floor(frameGap / state.targetFrameTime) - 1;
         }
       }
-      lastFrameTime = now;
+      state.lastFrameTime = now;
+    },
+
+    /**
+     * Record a frame that was skipped on purpose
+     */
+    skipFrame: (): void => {
+      'worklet';
+      state.skippedFrames++;
+      // The gap up to the next processed frame is intended
+      state.lastFrameTime = Date.now();
+    },
+
+    /**
+     * Update the expected processing rate
+     */
+    setTargetFps: (fps: number): void => {
+      'worklet';
+      state.targetFps = fps;
+      state.targetFrameTime = frameIntervalFor(fps);
     },
 
     getMetrics: (): PerformanceMetrics => {
+      'worklet';
       const times = processingTimes.length > 0 ? processingTimes : [0];
       return {
-        frameCount,
+        frameCount: state.frameCount,
         averageProcessingTime: times.reduce((a, b) => a + b, 0) / times.length,
         minProcessingTime: Math.min(...times),
         maxProcessingTime: Math.max(...times),
-        droppedFrames,
+        droppedFrames: state.droppedFrames,
+        skippedFrames: state.skippedFrames,
+        targetFps: state.targetFps,
       };
     },
 
     reset: (): void => {
+      'worklet';
       processingTimes.length = 0;
-      frameCount = 0;
-      droppedFrames = 0;
-      lastFrameTime = 0;
+      state.frameCount = 0;
+      state.droppedFrames = 0;
+      state.skippedFrames = 0;
+      state.lastFrameTime = 0;
     },
   };
 }
 
+/**
+ * Performance monitor created by `createPerformanceMonitor`
+ */
+export type PerformanceMonitor = ReturnType<typeof createPerformanceMonitor>;
+
@@ -0,0 +1,548 @@
+/**
+ * Structured validation of public options objects
+ *
+ * Validators take `unknown` (options often come from JS callers or JSON) and
+ * return diagnostics instead of throwing, so callers decide how strict to be.
+ */
+
+import type {
+  DetectionOptionWarning,
+  ValidationCode,
+  ValidationDiagnostic,
+  ValidationSeverity,
+} from '../types';
+
+type Diagnostics = ValidationDiagnostic[];
+
+const FACE_DETECTION_ENUMS: Record<string, readonly string[]> = {
+  performanceMode: ['fast', 'accurate'],
+  landmarkMode: ['none', 'all'],
+  contourMode: ['none', 'all'],
+  classificationMode: ['none', 'all'],
+};
+
+const FRAME_PROCESSOR_KEYS = [
+  ...Object.keys(FACE_DETECTION_ENUMS),
+  'minFaceSize',
+  'trackingEnabled',
+  'cameraFacing',
+  'autoMode',
+  'windowWidth',
+  'windowHeight',
+];
+
+const ICE_URL_PATTERN = /^(stuns?|turns?):(\[[0-9a-fA-F:.]+\]|[A-Za-z0-9.-]+)(?::(\d{1,5}))?(\?transport=(?:udp|tcp))?$/;
+
+function push(
+  diagnostics: Diagnostics,
+  code: ValidationCode,
+  path: string,
+  severity: ValidationSeverity,
+  message: string
+): void {
+  diagnostics.push({ code, path, severity, message });
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function join(prefix: string, key: string): string {
+  return prefix ? `${prefix}.${key}` : key;
+}
+
+function checkEnum(
+  diagnostics: Diagnostics,
+  value: unknown,
+  path: string,
+  allowed: readonly string[]
+): void {
+  if (value !== undefined && !allowed.includes(value as string)) {
+    push(
+      diagnostics,
+      'INVALID_VALUE',
+      path,
+      'error',
+      `${path} must be one of ${allowed.map((item) => `"${item}"`).join(', ')}`
+    );
+  }
+}
+
+function checkBoolean(diagnostics: Diagnostics, value: unknown, path: string): void {
+  if (value !== undefined && typeof value !== 'boolean') {
+    push(diagnostics, 'INVALID_TYPE', path, 'error', `${path} must be a boolean`);
+  }
+}
+
+function checkUnknownKeys(
+  diagnostics: Diagnostics,
+  options: Record<string, unknown>,
+  known: readonly string[],
+  prefix: string
+): void {
+  Object.keys(options).forEach((key) => {
+    if (!known.includes(key)) {
+      const path = join(prefix, key);
+      push(diagnostics, 'UNKNOWN_OPTION', path, 'warning', `${path} is not a known option`);
+    }
+  });
+}
+
+/**
+ * Check the `FaceDetectionOptions` fields of an options object
+ */
+export function validateFaceDetectionFields(options: Record<string, unknown>): Diagnostics {
+  const diagnostics: Diagnostics = [];
+
+  Object.keys(FACE_DETECTION_ENUMS).forEach((key) => {
+    checkEnum(diagnostics, options[key], key, FACE_DETECTION_ENUMS[key]);
+  });
+
+  const { minFaceSize } = options;
+  if (minFaceSize !== undefined) {
+    if (typeof minFaceSize !== 'number' || Number.isNaN(minFaceSize)) {
+      push(diagnostics, 'INVALID_TYPE', 'minFaceSize', 'error', 'minFaceSize must be a number');
+    } else if (minFaceSize < 0 || minFaceSize > 1) {
+      push(
+        diagnostics,
+        'OUT_OF_RANGE',
+        'minFaceSize',
+        'error',
+        'minFaceSize must be between 0 and 1 (a fraction of the image width)'
+      );
+    }
+  }
+
+  checkBoolean(diagnostics, options.trackingEnabled, 'trackingEnabled');
+
+  if (options.contourMode === 'all' && options.trackingEnabled === true) {
+    push(
+      diagnostics,
+      'CONTOURS_WITH_TRACKING',
+      'trackingEnabled',
+      'warning',
+      "contourMode: 'all' detects only the most prominent face, so trackingEnabled has no useful effect"
+    );
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Validate frame processor options
+ *
+ * Besides the face detection fields this checks the coordinate options:
+ * `autoMode` needs `windowWidth` and `windowHeight` (the defaults of 1.0 yield
+ * normalized coordinates), while window sizes are ignored without `autoMode`.
+ *
+ * @param options - `FrameProcessorOptions` to validate
+ * @returns Diagnostics (empty when valid)
+ *
+ * @example
+ * ```ts
+ * const diagnostics = validateFrameProcessorOptions({ autoMode: true });
+ * // [{ code: 'MISSING_WINDOW_SIZE', path: 'windowWidth', severity: 'warning', ... }]
+ * ```
+ */
+export function validateFrameProcessorOptions(options: unknown): Diagnostics {
+  if (options === undefined) {
+    return [];
+  }
+  if (!isObject(options)) {
+    return [
+      { code: 'INVALID_TYPE', path: '', severity: 'error', message: 'Options must be an object' },
+    ];
+  }
+
+  const diagnostics = validateFaceDetectionFields(options);
+  checkUnknownKeys(diagnostics, options, FRAME_PROCESSOR_KEYS, '');
+  checkEnum(diagnostics, options.cameraFacing, 'cameraFacing', ['front', 'back']);
+  checkBoolean(diagnostics, options.autoMode, 'autoMode');
+
+  (['windowWidth', 'windowHeight'] as const).forEach((key) => {
+    const value = options[key];
+    if (value === undefined) {
+      if (options.autoMode === true) {
+        push(
+          diagnostics,
+          'MISSING_WINDOW_SIZE',
+          key,
+          'warning',
+          `autoMode is enabled without ${key}, so results are scaled to 1.0 instead of the preview`
+        );
+      }
+      return;
+    }
+    if (typeof value !== 'number' || Number.isNaN(value)) {
+      push(diagnostics, 'INVALID_TYPE', key, 'error', `${key} must be a number`);
+    } else if (value <= 0) {
+      push(diagnostics, 'OUT_OF_RANGE', key, 'error', `${key} must be greater than 0`);
+    } else if (options.autoMode !== true) {
+      push(
+        diagnostics,
+        'WINDOW_SIZE_WITHOUT_AUTO_MODE',
+        key,
+        'warning',
+        `${key} is only used with autoMode: true`
+      );
+    }
+  });
+
+  return diagnostics;
+}
+
+/**
+ * Validate one ICE server
+ *
+ * @param server - ICE server to validate
+ * @param path - Path of the server in the enclosing configuration
+ * @returns Diagnostics (empty when valid)
+ */
+export function validateIceServer(server: unknown, path: string = ''): Diagnostics {
+  const diagnostics: Diagnostics = [];
+  if (!isObject(server)) {
+    push(diagnostics, 'INVALID_TYPE', path, 'error', 'ICE server must be an object');
+    return diagnostics;
+  }
+
+  const urlsPath = join(path, 'urls');
+  const { urls, username, credential } = server;
+  let entries: { url: unknown; path: string }[] = [];
+  if (typeof urls === 'string') {
+    entries = [{ url: urls, path: urlsPath }];
+  } else if (Array.isArray(urls)) {
+    entries = urls.map((url, index) => ({ url, path: `${urlsPath}[${index}]` }));
+    if (urls.length === 0) {
+      push(diagnostics, 'INVALID_VALUE', urlsPath, 'error', `${urlsPath} must not be empty`);
+    }
+  } else {
+    push(
+      diagnostics,
+      'INVALID_TYPE',
+      urlsPath,
+      'error',
+      `${urlsPath} must be a URL or an array of URLs`
+    );
+  }
+
+  let hasTurn = false;
+  entries.forEach((entry) => {
+    const match = typeof entry.url === 'string' ? ICE_URL_PATTERN.exec(entry.url) : null;
+    const port = match?.[3] !== undefined ? Number(match[3]) : null;
+    if (!match || (port !== null && (port < 1 || port > 65535))) {
+      push(
+        diagnostics,
+        'INVALID_ICE_URL',
+        entry.path,
+        'error',
+        `${String(entry.url)} is not a valid ICE server URL (expected stun:, stuns:, turn: or turns: host[:port])`
+      );
+      return;
+    }
+    if (match[1].startsWith('turn')) {
+      hasTurn = true;
+    }
+  });
+
+  (['username', 'credential'] as const).forEach((key) => {
+    const value = server[key];
+    if (value !== undefined && typeof value !== 'string') {
+      push(diagnostics, 'INVALID_TYPE', join(path, key), 'error', `${join(path, key)} must be a string`);
+    }
+  });
+
+  const hasCredentials = Boolean(username) || Boolean(credential);
+  if (hasTurn && (!username || !credential)) {
+    push(
+      diagnostics,
+      'MISSING_TURN_CREDENTIALS',
+      join(path, username ? 'credential' : 'username'),
+      'error',
+      'TURN servers require both username and credential'
+    );
+  } else if (!hasTurn && hasCredentials && entries.length > 0) {
+    push(
+      diagnostics,
+      'UNUSED_CREDENTIALS',
+      join(path, 'username'),
+      'warning',
+      'Credentials are only used by TURN servers'
+    );
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Whether an ICE server has at least one TURN URL
+ */
+function hasTurnUrl(server: unknown): boolean {
+  if (!isObject(server)) {
+    return false;
+  }
+  const urls = Array.isArray(server.urls) ? server.urls : [server.urls];
+  return urls.some((url) => typeof url === 'string' && /^turns?:/.test(url));
+}
+
+/**
+ * Validate a peer connection configuration
+ *
+ * Checks ICE server URLs (RFC 7064/7065 syntax), TURN credentials and the
+ * policy values. `iceTransportPolicy: 'relay'` without any TURN server can
+ * never connect and is reported as an error.
+ *
+ * @param config - `PeerConnectionConfig` to validate
+ * @returns Diagnostics (empty when valid)
+ *
+ * @example
+ * ```ts
+ * validatePeerConnectionConfig({ iceServers: [{ urls: 'turn:turn.example.com' }] });
+ * // [{ code: 'MISSING_TURN_CREDENTIALS', path: 'iceServers[0].username', ... }]
+ * ```
+ */
+export function validatePeerConnectionConfig(config: unknown): Diagnostics {
+  if (config === undefined) {
+    return [];
+  }
+  if (!isObject(config)) {
+    return [
+      {
+        code: 'INVALID_TYPE',
+        path: '',
+        severity: 'error',
+        message: 'Peer connection config must be an object',
+      },
+    ];
+  }
+
+  const diagnostics: Diagnostics = [];
+  checkUnknownKeys(
+    diagnostics,
+    config,
+    ['iceServers', 'iceTransportPolicy', 'bundlePolicy', 'rtcpMuxPolicy'],
+    ''
+  );
+
+  const { iceServers } = config;
+  if (iceServers !== undefined) {
+    if (!Array.isArray(iceServers)) {
+      push(diagnostics, 'INVALID_TYPE', 'iceServers', 'error', 'iceServers must be an array');
+    } else {
+      if (iceServers.length === 0) {
+        push(
+          diagnostics,
+          'NO_ICE_SERVERS',
+          'iceServers',
+          'warning',
+          'Without ICE servers only host candidates are gathered; calls across networks will fail'
+        );
+      }
+      iceServers.forEach((server, index) => {
+        diagnostics.push(...validateIceServer(server, `iceServers[${index}]`));
+      });
+    }
+  }
+
+  checkEnum(diagnostics, config.iceTransportPolicy, 'iceTransportPolicy', ['all', 'relay']);
+  checkEnum(diagnostics, config.bundlePolicy, 'bundlePolicy', [
+    'balanced',
+    'max-bundle',
+    'max-compat',
+  ]);
+  checkEnum(diagnostics, config.rtcpMuxPolicy, 'rtcpMuxPolicy', ['require']);
+
+  if (
+    config.iceTransportPolicy === 'relay' &&
+    !(Array.isArray(iceServers) && iceServers.some(hasTurnUrl))
+  ) {
+    push(
+      diagnostics,
+      'RELAY_WITHOUT_TURN',
+      'iceTransportPolicy',
+      'error',
+      "iceTransportPolicy: 'relay' requires at least one TURN server"
+    );
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Check a numeric constraint (`number` or `{ min, ideal, max }`)
+ */
+function checkConstrainNumber(diagnostics: Diagnostics, value: unknown, path: string): void {
+  if (value === undefined) {
+    return;
+  }
+  if (typeof value === 'number') {
+    if (!(value > 0)) {
+      push(diagnostics, 'OUT_OF_RANGE', path, 'error', `${path} must be greater than 0`);
+    }
+    return;
+  }
+  if (!isObject(value)) {
+    push(
+      diagnostics,
+      'INVALID_TYPE',
+      path,
+      'error',
+      `${path} must be a number or { min, ideal, max }`
+    );
+    return;
+  }
+
+  checkUnknownKeys(diagnostics, value, ['min', 'ideal', 'max'], path);
+  const bounds: Partial<Record<'min' | 'ideal' | 'max', number>> = {};
+  (['min', 'ideal', 'max'] as const).forEach((key) => {
+    const bound = value[key];
+    if (bound === undefined) {
+      return;
+    }
+    if (typeof bound !== 'number' || !(bound > 0)) {
+      push(
+        diagnostics,
+        'OUT_OF_RANGE',
+        join(path, key),
+        'error',
+        `${join(path, key)} must be a number greater than 0`
+      );
+      return;
+    }
+    bounds[key] = bound;
+  });
+
+  const { min, ideal, max } = bounds;
+  if (min !== undefined && max !== undefined && min > max) {
+    push(
+      diagnostics,
+      'INVALID_CONSTRAINT_RANGE',
+      path,
+      'error',
+      `${path}.min (${min}) is greater than ${path}.max (${max})`
+    );
+  } else if (
+    ideal !== undefined &&
+    ((min !== undefined && ideal < min) || (max !== undefined && ideal > max))
+  ) {
+    push(
+      diagnostics,
+      'INVALID_CONSTRAINT_RANGE',
+      join(path, 'ideal'),
+      'warning',
+      `${path}.ideal (${ideal}) is outside of min-max and cannot be satisfied`
+    );
+  }
+}
+
+/**
+ * Validate media stream constraints
+ *
+ * @param constraints - `MediaConstraints` to validate
+ * @returns Diagnostics (empty when valid)
+ *
+ * @example
+ * ```ts
+ * validateMediaConstraints({ video: { width: { min: 1280, max: 640 } } });
+ * // [{ code: 'INVALID_CONSTRAINT_RANGE', path: 'video.width', severity: 'error', ... }]
+ * ```
+ */
+export function validateMediaConstraints(constraints: unknown): Diagnostics {
+  if (constraints === undefined) {
+    return [];
+  }
+  if (!isObject(constraints)) {
+    return [
+      {
+        code: 'INVALID_TYPE',
+        path: '',
+        severity: 'error',
+        message: 'Media constraints must be an object',
+      },
+    ];
+  }
+
+  const diagnostics: Diagnostics = [];
+  checkUnknownKeys(diagnostics, constraints, ['video', 'audio'], '');
+  const { video, audio } = constraints;
+
+  if (video === false && audio === false) {
+    push(
+      diagnostics,
+      'NO_MEDIA_REQUESTED',
+      '',
+      'error',
+      'At least one of video and audio must be requested'
+    );
+  }
+
+  if (isObject(video)) {
+    checkUnknownKeys(diagnostics, video, ['width', 'height', 'frameRate', 'facingMode'], 'video');
+    checkConstrainNumber(diagnostics, video.width, 'video.width');
+    checkConstrainNumber(diagnostics, video.height, 'video.height');
+    checkConstrainNumber(diagnostics, video.frameRate, 'video.frameRate');
+    checkEnum(diagnostics, video.facingMode, 'video.facingMode', ['user', 'environment']);
+  } else if (video !== undefined && typeof video !== 'boolean') {
+    push(diagnostics, 'INVALID_TYPE', 'video', 'error', 'video must be a boolean or constraints');
+  }
+
+  if (isObject(audio)) {
+    const audioKeys = ['echoCancellation', 'noiseSuppression', 'autoGainControl'];
+    checkUnknownKeys(diagnostics, audio, audioKeys, 'audio');
+    audioKeys.forEach((key) => checkBoolean(diagnostics, audio[key], `audio.${key}`));
+  } else if (audio !== undefined && typeof audio !== 'boolean') {
+    push(diagnostics, 'INVALID_TYPE', 'audio', 'error', 'audio must be a boolean or constraints');
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Whether any diagnostic is an error
+ */
+export function hasValidationErrors(diagnostics: ValidationDiagnostic[]): boolean {
+  return diagnostics.some((diagnostic) => diagnostic.severity === 'error');
+}
+
+/**
+ * Combine the warnings of `resolveDetectionOptions` with validator diagnostics
+ *
+ * Diagnostics the resolver already reported (same code and path) are dropped.
+ *
+ * @param warnings - Warnings of the option resolver
+ * @param diagnostics - Diagnostics of the resolved options
+ * @returns The warnings as diagnostics, followed by the remaining diagnostics
+ */
+export function mergeResolverWarnings(
+  warnings: DetectionOptionWarning[],
+  diagnostics: ValidationDiagnostic[]
+): ValidationDiagnostic[] {
+  const remaining = diagnostics.filter(
+    (diagnostic) =>
+      !warnings.some(
+        (warning) => warning.code === diagnostic.code && warning.path === diagnostic.path
+      )
+  );
+  return [
+    ...warnings.map((warning) => ({ ...warning, severity: 'warning' as const })),
+    ...remaining,
+  ];
+}
+
+/**
+ * Log diagnostics of a hook or component (used in development only)
+ *
+ * @param source - Name of the reporting hook or component and option, e.g. `useWebRTC config`
+ * @param diagnostics - Diagnostics to log
+ */
+export function reportDiagnostics(source: string, diagnostics: ValidationDiagnostic[]): void {
+  diagnostics.forEach((diagnostic) => {
+    const text = `[SmartCamera] ${source}: ${diagnostic.message} (${diagnostic.code}${
+      diagnostic.path ? ` at ${diagnostic.path}` : ''
+    })`;
+    if (diagnostic.severity === 'error') {
+      console.error(text);
+    } else {
+      console.warn(text);
+    }
+  });
+}
@@ -2,6 +2,13 @@
  * WebRTC-related types for the SmartCamera module
  */
 
+import type {
+  DetectionPresetOptions,
+  FrameAnalyzer,
+  FrameAnalyzerResults,
+  PrimaryFaceStrategy,
+} from '../types';
+
 // =============================================================================
 // Core WebRTC Types
 // =============================================================================
@@ -307,18 +314,31 @@ export interface UseWebRTCResult {
 /**
  * Options for useWebRTCWithDetection hook
  */
-export interface UseWebRTCWithDetectionOptions extends UseWebRTCOptions {
-  /** Face detection options */
-  faceDetection?: {
+export interface UseWebRTCWithDetectionOptions<
+  A extends Record<string, FrameAnalyzer<unknown>> = Record<string, never>,
+> extends UseWebRTCOptions {
+  /**
+   * Face detection options; explicit options override the preset. Without a preset,
+   * classification and tracking default to on for eye tracking.
+   */
+  faceDetection?: DetectionPresetOptions & {
     enabled?: boolean;
-    performanceMode?: 'fast' | 'accurate';
-    landmarkMode?: 'none' | 'all';
-    classificationMode?: 'none' | 'all';
   };
   /** Eye tracking options */
   eyeTracking?: {
     enabled?: boolean;
     eyeClosedThreshold?: number;
+    /** Which face to track when several are detected. Default: 'sticky' */
+    primaryFace?: PrimaryFaceStrategy;
+  };
+  /**
+   * Analyzers run on the detected faces of every frame (no extra detection).
+   * Create them once (e.g. with `useMemo`).
+   */
+  analyzers?: A;
+  /** Callbacks with the delivered analyzer results, by analyzer name */
+  onAnalyzerResults?: {
+    [K in keyof A]?: (result: NonNullable<FrameAnalyzerResults<A>[K]>) => void;
   };
 }
 